@@ -8,6 +8,7 @@ import { DataSource } from "@prisma/client";
 import { OWNER_ROLE } from "@/features/roles";
 import { Tooltip } from "@chakra-ui/react";
 import { isUndefined } from "lodash";
+import { useAccessControl } from "@/features/authorization/hooks";
 import { useDataSourceContext, useProfile, useSidebarsVisible } from "@/hooks";
 import { useGetDataSourcesQuery } from "@/features/data-sources/api-slice";
 import { usePrefetch } from "@/features/tables/api-slice";
@@ -92,6 +93,7 @@ const DataSourcesSidebar = () => {
   );
   const prefetchTables = usePrefetch("getTables");
   const { dataSourceId } = useDataSourceContext();
+  const ac = useAccessControl();
 
   const HomeButton = () => (
     <Link href={`/`} passHref>
@@ -138,37 +140,42 @@ const DataSourcesSidebar = () => {
               )}
               {!isLoading &&
                 dataSourcesResponse?.ok &&
-                dataSourcesResponse.data.map((dataSource: DataSource) => {
-                  const active = parseInt(dataSourceId) === dataSource.id;
-                  let name = dataSource.name.replace(/[^a-zA-Z ]/g, "");
-                  if (name == name.toUpperCase()) {
-                    name = name.split("").join(" ");
-                  }
+                dataSourcesResponse.data
+                  .filter(
+                    (dataSource: DataSource) =>
+                      sessionIsLoading || ac.canAccessDataSource(dataSource.id)
+                  )
+                  .map((dataSource: DataSource) => {
+                    const active = parseInt(dataSourceId) === dataSource.id;
+                    let name = dataSource.name.replace(/[^a-zA-Z ]/g, "");
+                    if (name == name.toUpperCase()) {
+                      name = name.split("").join(" ");
+                    }
 
-                  return (
-                    <DataSourceItem
-                      key={dataSource.id}
-                      active={active}
-                      compact={compact}
-                      initials={
-                        <Avatar
-                          name={name}
-                          maxInitials={3}
-                          round={true}
-                          size="40"
-                          color="transparent"
-                        />
-                      }
-                      link={`/data-sources/${dataSource.id}`}
-                      label={dataSource.name}
-                      onMouseOver={() => {
-                        prefetchTables({
-                          dataSourceId: dataSource.id.toString(),
-                        });
-                      }}
-                    />
-                  );
-                })}
+                    return (
+                      <DataSourceItem
+                        key={dataSource.id}
+                        active={active}
+                        compact={compact}
+                        initials={
+                          <Avatar
+                            name={name}
+                            maxInitials={3}
+                            round={true}
+                            size="40"
+                            color="transparent"
+                          />
+                        }
+                        link={`/data-sources/${dataSource.id}`}
+                        label={dataSource.name}
+                        onMouseOver={() => {
+                          prefetchTables({
+                            dataSourceId: dataSource.id.toString(),
+                          });
+                        }}
+                      />
+                    );
+                  })}
               <DataSourceItem
                 active={router.asPath.includes(`/data-sources/new`)}
                 compact={compact}
@@ -1,4 +1,4 @@
-import { ClipboardListIcon, ShieldCheckIcon, UserGroupIcon } from "@heroicons/react/outline";
+import { ClipboardListIcon, KeyIcon, LightningBoltIcon, ShieldCheckIcon, UserGroupIcon } from "@heroicons/react/outline";
 import { Organization } from "@prisma/client"
 import { useRouter } from "next/router"
 import Link from "next/link"
@@ -66,6 +66,18 @@ function OrganizationSidebar({organization}: {organization?: Organization}) {
           icon={<ClipboardListIcon className="h-4" />}
           description="See all record updates"
         />
+        <Item
+          label="API tokens"
+          link={organization?.slug ? `/organizations/${organization?.slug}/api-tokens` : ''}
+          icon={<KeyIcon className="h-4" />}
+          description="Access your records from scripts and other services"
+        />
+        <Item
+          label="Webhooks"
+          link={organization?.slug ? `/organizations/${organization?.slug}/webhooks` : ''}
+          icon={<LightningBoltIcon className="h-4" />}
+          description="Notify other services when records change"
+        />
       </div>
     </div>
   );
@@ -1,5 +1,8 @@
 import { PencilAltIcon } from "@heroicons/react/outline";
-import { useACLHelpers } from "@/features/authorization/hooks";
+import {
+  useACLHelpers,
+  useAccessControl,
+} from "@/features/authorization/hooks";
 import { useDataSourceContext } from "@/hooks";
 import { useDataSourceResponse } from "@/features/data-sources/hooks";
 import DashboardSidebarSection from "@/features/dashboards/components/DashboardsSidebarSection";
@@ -17,6 +20,7 @@ const Sidebar = () => {
     info: dataSourceInfo,
   } = useDataSourceResponse(dataSourceId);
   const { isOwner } = useACLHelpers({ dataSourceInfo });
+  const ac = useAccessControl();
 
   return (
     <div className="relative py-2 pl-2 w-full">
@@ -43,7 +47,9 @@ const Sidebar = () => {
         <hr className="-mt-px mb-2" />
         {dataSourceInfo?.supports?.dashboards && <DashboardSidebarSection />}
         {dataSourceInfo?.supports?.views && <ViewsSidebarSection />}
-        {isOwner && <TablesSidebarSection />}
+        {(isOwner || ac.hasTablePermissions(dataSourceId)) && (
+          <TablesSidebarSection />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,182 @@
+import { ActivityFilters } from "@/features/activity/types";
+import { Button, Input, Select } from "@chakra-ui/react";
+import { DataSource, OrganizationUser, User, View } from "@prisma/client";
+import { DownloadIcon } from "@heroicons/react/outline";
+import { apiUrl } from "@/features/api/urls";
+import { isEmpty, omitBy } from "lodash";
+import { useGetViewsQuery } from "@/features/views/api-slice";
+import React, { FormEvent, memo, useEffect, useMemo, useState } from "react";
+import URI from "urijs";
+
+const ACTIONS = [
+  "create",
+  "update",
+  "revert",
+  "delete",
+  "bulkDelete",
+  "restore",
+];
+
+const ActivityFiltersBar = ({
+  organizationId,
+  users,
+  dataSources,
+  filters,
+  onChange,
+}: {
+  organizationId?: number;
+  users: Array<OrganizationUser & { user: User }>;
+  dataSources: DataSource[];
+  filters: ActivityFilters;
+  onChange: (filters: ActivityFilters) => void;
+}) => {
+  const [localFilters, setLocalFilters] = useState<ActivityFilters>(filters);
+  const { data: viewsResponse } = useGetViewsQuery();
+
+  const views: View[] = useMemo(
+    () =>
+      viewsResponse?.ok
+        ? viewsResponse.data.filter(
+            (view: View) => view.organizationId === organizationId
+          )
+        : [],
+    [viewsResponse, organizationId]
+  );
+
+  useEffect(() => setLocalFilters(filters), [filters]);
+
+  const setFilter = (name: keyof ActivityFilters, value: string) =>
+    setLocalFilters({ ...localFilters, [name]: value });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    onChange(omitBy(localFilters, isEmpty));
+  };
+
+  // The export uses the applied filters, not the ones still being edited.
+  const exportUrl = (format: "csv" | "json") =>
+    `${apiUrl}/organizations/${organizationId}/activities?${URI()
+      .query({ ...filters, format })
+      .query()
+      .toString()}`;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid grid-cols-2 lg:grid-cols-4 gap-2 px-4 py-2 border-b"
+    >
+      <Select
+        size="sm"
+        placeholder="All users"
+        value={localFilters.userId || ""}
+        onChange={(e) => setFilter("userId", e.currentTarget.value)}
+      >
+        {users.map(({ user }) => (
+          <option key={user.id} value={user.id}>
+            {user.firstName} {user.lastName}
+          </option>
+        ))}
+      </Select>
+      <Select
+        size="sm"
+        placeholder="All actions"
+        value={localFilters.action || ""}
+        onChange={(e) => setFilter("action", e.currentTarget.value)}
+      >
+        {ACTIONS.map((action) => (
+          <option key={action} value={action}>
+            {action}
+          </option>
+        ))}
+      </Select>
+      <Select
+        size="sm"
+        placeholder="All data sources"
+        value={localFilters.dataSourceId || ""}
+        onChange={(e) => setFilter("dataSourceId", e.currentTarget.value)}
+      >
+        {dataSources.map((dataSource) => (
+          <option key={dataSource.id} value={dataSource.id}>
+            {dataSource.name}
+          </option>
+        ))}
+      </Select>
+      <Select
+        size="sm"
+        placeholder="All views"
+        value={localFilters.viewId || ""}
+        onChange={(e) => setFilter("viewId", e.currentTarget.value)}
+      >
+        {views.map((view) => (
+          <option key={view.id} value={view.id}>
+            {view.name}
+          </option>
+        ))}
+      </Select>
+      <Input
+        size="sm"
+        placeholder="Table name"
+        value={localFilters.tableName || ""}
+        onChange={(e) => setFilter("tableName", e.currentTarget.value)}
+      />
+      <Input
+        size="sm"
+        placeholder="Record id"
+        value={localFilters.recordId || ""}
+        onChange={(e) => setFilter("recordId", e.currentTarget.value)}
+      />
+      <Input
+        size="sm"
+        type="date"
+        title="From"
+        value={localFilters.from || ""}
+        onChange={(e) => setFilter("from", e.currentTarget.value)}
+      />
+      <Input
+        size="sm"
+        type="date"
+        title="To"
+        value={localFilters.to || ""}
+        onChange={(e) => setFilter("to", e.currentTarget.value)}
+      />
+      <Input
+        size="sm"
+        className="col-span-2"
+        placeholder="Search in changes"
+        value={localFilters.search || ""}
+        onChange={(e) => setFilter("search", e.currentTarget.value)}
+      />
+      <div className="col-span-2 flex justify-between space-x-2">
+        <div className="space-x-2">
+          <Button size="sm" type="submit" colorScheme="blue">
+            Filter
+          </Button>
+          <Button size="sm" onClick={() => onChange({})}>
+            Reset
+          </Button>
+        </div>
+        <div className="space-x-2">
+          <Button
+            as="a"
+            size="sm"
+            href={exportUrl("csv")}
+            leftIcon={<DownloadIcon className="h-4" />}
+          >
+            CSV
+          </Button>
+          <Button
+            as="a"
+            size="sm"
+            href={exportUrl("json")}
+            leftIcon={<DownloadIcon className="h-4" />}
+          >
+            JSON
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default memo(ActivityFiltersBar);
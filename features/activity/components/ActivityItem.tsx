@@ -1,18 +1,33 @@
-import { ActivityType } from "@/features/activity/types";
+import { ActivityType, DeletedRecordsChanges } from "@/features/activity/types";
 import {
   ArrowDownIcon,
   BanIcon,
   PlusIcon,
   RefreshIcon,
+  ReplyIcon,
   TrashIcon,
 } from "@heroicons/react/outline";
-import { Avatar, AvatarBadge, Code, Tooltip } from "@chakra-ui/react";
+import {
+  Avatar,
+  AvatarBadge,
+  Button,
+  Code,
+  Tooltip,
+} from "@chakra-ui/react";
 import { DateTime } from "luxon";
 import { isArray, isEmpty, isNull, isUndefined } from "lodash";
-import React, { ElementType, memo, useMemo } from "react";
+import { useACLHelpers } from "@/features/authorization/hooks";
+import { useRestoreDeletedRecordsMutation } from "@/features/records/api-slice";
+import React, {
+  ElementType,
+  ReactNode,
+  memo,
+  useMemo,
+  useState,
+} from "react";
 import md5 from "md5";
 
-const prettyValue = (change: any) => {
+export const prettyValue = (change: any) => {
   if (isUndefined(change))
     return <span className="text-xs uppercase">undefined</span>;
   if (isNull(change)) return <span className="text-xs uppercase">null</span>;
@@ -23,8 +38,14 @@ const prettyValue = (change: any) => {
   return change;
 };
 
-const ActivityChanges = memo(
-  ({ changes }: { changes: Record<string, any>[] }) => {
+export const ActivityChanges = memo(
+  ({
+    changes,
+    actions,
+  }: {
+    changes: Record<string, any>[];
+    actions?: (change: Record<string, any>) => ReactNode;
+  }) => {
     if (!isArray(changes) || isEmpty(changes)) return null;
 
     return (
@@ -35,6 +56,7 @@ const ActivityChanges = memo(
               <span className="text-xs font-semibold uppercase">
                 {change.column}
               </span>{" "}
+              {actions && actions(change)}
               <br />
               <div className="flex flex-col flex-grow-0">
                 <span className="flex whitespace-clip max-w-full text-gray-700">
@@ -58,6 +80,30 @@ const ActivityChanges = memo(
 );
 ActivityChanges.displayName = "ActivityChanges";
 
+const DeletedRecords = memo(
+  ({ records }: { records: Record<string, unknown>[] }) => {
+    if (!isArray(records) || isEmpty(records)) return null;
+
+    return (
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600">
+          Deleted values
+        </summary>
+        <ul className="space-y-2 w-full">
+          {records.map((record, idx: number) => (
+            <li key={idx} className="w-full">
+              <pre className="whitespace-pre-wrap text-xs text-gray-700">
+                {JSON.stringify(record, null, 2)}
+              </pre>
+            </li>
+          ))}
+        </ul>
+      </details>
+    );
+  }
+);
+DeletedRecords.displayName = "DeletedRecords";
+
 const ActivityItem = ({
   activity,
   lastItem = false,
@@ -68,12 +114,15 @@ const ActivityItem = ({
   const AvatarIcon: ElementType = useMemo(() => {
     switch (activity.action) {
       case "create":
+      case "restore":
         return PlusIcon;
       case "bulkDelete":
       case "delete":
         return TrashIcon;
       case "update":
         return RefreshIcon;
+      case "revert":
+        return ReplyIcon;
       default:
         return BanIcon;
     }
@@ -82,12 +131,15 @@ const ActivityItem = ({
   const avatarBadgeColor = useMemo(() => {
     switch (activity.action) {
       case "create":
+      case "restore":
         return "green";
       case "bulkDelete":
       case "delete":
         return "red";
       case "update":
         return "blue";
+      case "revert":
+        return "orange";
     }
   }, [activity.action]);
 
@@ -138,6 +190,21 @@ const ActivityItem = ({
     );
   };
 
+  const RestoreMessage = () => {
+    return (
+      <p>
+        Restored deleted record{" "}
+        <Code>
+          <a href={urlToRecord}>{activity.recordId}</a>
+        </Code>{" "}
+        in{" "}
+        <Code>
+          <a href={urlToSource}>{sourceName}</a>
+        </Code>
+      </p>
+    );
+  };
+
   const BulkDeleteMessage = () => {
     return (
       <p>
@@ -179,6 +246,21 @@ const ActivityItem = ({
     );
   };
 
+  const RevertMessage = () => {
+    return (
+      <p>
+        Reverted changes on record{" "}
+        <Code>
+          <a href={urlToRecord}>{activity.recordId}</a>
+        </Code>{" "}
+        in{" "}
+        <Code>
+          <a href={urlToSource}>{sourceName}</a>
+        </Code>
+      </p>
+    );
+  };
+
   const Message = useMemo(() => {
     switch (activity.action) {
       case "create":
@@ -189,6 +271,10 @@ const ActivityItem = ({
         return <DeleteMessage />;
       case "update":
         return <UpdateMessage />;
+      case "revert":
+        return <RevertMessage />;
+      case "restore":
+        return <RestoreMessage />;
     }
   }, [activity.action]);
 
@@ -196,6 +282,35 @@ const ActivityItem = ({
     return activity.changes as Record<string, any>[];
   }, [activity.changes]);
 
+  const isDelete = ["delete", "bulkDelete"].includes(activity.action);
+
+  // Older deletes didn't store a snapshot of the records.
+  const deletedRecords = useMemo(
+    () =>
+      isDelete
+        ? (activity.changes as unknown as DeletedRecordsChanges)?.records || []
+        : [],
+    [isDelete, activity.changes]
+  );
+
+  const { canCreate } = useACLHelpers({
+    dataSourceId: activity.dataSourceId?.toString(),
+    tableName: activity.tableName || undefined,
+  });
+  const [restoreDeletedRecords, { isLoading: isRestoring }] =
+    useRestoreDeletedRecordsMutation();
+  const [isRestored, setIsRestored] = useState(false);
+
+  const handleUndoDelete = async () => {
+    const response = await restoreDeletedRecords({
+      dataSourceId: activity.dataSourceId?.toString(),
+      tableName: activity.tableName as string,
+      activityId: activity.id,
+    }).unwrap();
+
+    if (response?.ok) setIsRestored(true);
+  };
+
   return (
     <li
       key={activity.id}
@@ -229,6 +344,19 @@ const ActivityItem = ({
           </div>
           <p className="text-sm text-gray-500">{Message}</p>
           <ActivityChanges changes={changes} />
+          <DeletedRecords records={deletedRecords} />
+          {canCreate && !isEmpty(deletedRecords) && (
+            <Button
+              size="xs"
+              mt={2}
+              leftIcon={<ReplyIcon className="h-3" />}
+              isLoading={isRestoring}
+              isDisabled={isRestored}
+              onClick={handleUndoDelete}
+            >
+              {isRestored ? "Restored" : "Undo delete"}
+            </Button>
+          )}
         </div>
       </div>
     </li>
@@ -0,0 +1,2 @@
+// Actions that changed the record's values and can be reverted.
+export const REVERTIBLE_ACTIONS = ["update", "revert"];
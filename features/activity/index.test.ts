@@ -0,0 +1,55 @@
+import { getLatestValues, getRestoreData, omitHiddenColumns } from ".";
+
+jest.mock("@/prisma", () => ({}));
+
+const activities = [
+  {
+    action: "update",
+    changes: [
+      { column: "name", before: "Ann", after: "Anna" },
+      { column: "age", before: 30, after: 31 },
+    ],
+  },
+  {
+    action: "update",
+    changes: [{ column: "name", before: "Anna", after: "Hanna" }],
+  },
+];
+
+describe("getLatestValues", () => {
+  it("returns the values the record should hold after the activities", () => {
+    expect(getLatestValues(activities)).toEqual({ name: "Hanna", age: 31 });
+    expect(getLatestValues(activities.slice(0, 1), "age")).toEqual({ age: 31 });
+  });
+
+  it("is the counterpart of the restore data", () => {
+    expect(getRestoreData(activities)).toEqual({ name: "Ann", age: 30 });
+  });
+});
+
+describe("omitHiddenColumns", () => {
+  const permissions = { salary: "hidden" as const };
+
+  it("removes the hidden columns from the changes", () => {
+    expect(
+      omitHiddenColumns(
+        {
+          changes: [
+            { column: "name", before: "Ann", after: "Anna" },
+            { column: "salary", before: 1, after: 2 },
+          ],
+        },
+        permissions
+      ).changes
+    ).toEqual([{ column: "name", before: "Ann", after: "Anna" }]);
+  });
+
+  it("removes the hidden columns from the deleted records", () => {
+    expect(
+      omitHiddenColumns(
+        { changes: { records: [{ id: 1, name: "Ann", salary: 1 }] } },
+        permissions
+      ).changes
+    ).toEqual({ records: [{ id: 1, name: "Ann" }] });
+  });
+});
@@ -0,0 +1,141 @@
+import { Activity, Prisma, User } from "@prisma/client";
+import {
+  ActivityChange,
+  DeletedRecordsChanges,
+} from "@/features/activity/types";
+import { ColumnRolePermission } from "@/features/fields/types";
+import { REVERTIBLE_ACTIONS } from "@/features/activity/constants";
+import { isArray, isPlainObject, omitBy } from "lodash";
+import { triggerWebhooks } from "@/features/webhooks";
+import logger from "@/lib/logger";
+import prisma from "@/prisma";
+
+/**
+ * Stores the activity and notifies the organization's webhooks about it.
+ */
+export const logActivity = async (
+  data: Prisma.ActivityUncheckedCreateInput,
+  {
+    actor,
+    record,
+  }: {
+    actor?: User | null;
+    record?: Record<string, unknown>;
+  } = {}
+): Promise<Activity> => {
+  const activity = await prisma.activity.create({
+    data,
+  });
+
+  try {
+    await triggerWebhooks(activity, { actor, record });
+  } catch (error) {
+    // A broken webhook must never fail the record write.
+    logger.warn(
+      `Failed to trigger the webhooks of activity ${activity.id}.`,
+      error
+    );
+  }
+
+  return activity;
+};
+
+export const getActivityChanges = (
+  activity: Pick<Activity, "changes">
+): ActivityChange[] =>
+  isArray(activity.changes)
+    ? (activity.changes as unknown as ActivityChange[])
+    : [];
+
+/**
+ * Returns the values that undo the activity's changes, or just the change made to `column`.
+ */
+export const getRevertData = (
+  activity: Pick<Activity, "changes">,
+  column?: string
+): Record<string, Prisma.JsonValue> =>
+  Object.fromEntries(
+    getActivityChanges(activity)
+      .filter((change) => !column || change.column === column)
+      .map((change) => [change.column, change.before])
+  );
+
+/**
+ * Returns the values the record had right after the activity by walking back the changes made since.
+ * `laterActivities` have to be sorted from oldest to newest.
+ */
+export const getRestoreData = (
+  laterActivities: Pick<Activity, "action" | "changes">[]
+): Record<string, Prisma.JsonValue> => {
+  const data: Record<string, Prisma.JsonValue> = {};
+
+  laterActivities
+    .filter((activity) => REVERTIBLE_ACTIONS.includes(activity.action))
+    .forEach((activity) => {
+      getActivityChanges(activity).forEach((change) => {
+        // The first change after the point holds the value the column had at that point.
+        if (!(change.column in data)) data[change.column] = change.before;
+      });
+    });
+
+  return data;
+};
+
+/**
+ * Returns the values the activities left the record with, or just the value of `column`.
+ * The record should still hold them, otherwise it was changed outside of the activities.
+ * `activities` have to be sorted from oldest to newest.
+ */
+export const getLatestValues = (
+  activities: Pick<Activity, "action" | "changes">[],
+  column?: string
+): Record<string, Prisma.JsonValue> => {
+  const data: Record<string, Prisma.JsonValue> = {};
+
+  activities
+    .filter((activity) => REVERTIBLE_ACTIONS.includes(activity.action))
+    .forEach((activity) => {
+      getActivityChanges(activity)
+        .filter((change) => !column || change.column === column)
+        .forEach((change) => {
+          data[change.column] = change.after;
+        });
+    });
+
+  return data;
+};
+
+/**
+ * Removes the columns hidden for the role from the activity's changes and deleted records snapshot.
+ */
+export const omitHiddenColumns = <T extends Pick<Activity, "changes">>(
+  activity: T,
+  columnPermissions: Record<string, ColumnRolePermission>
+): T => {
+  const isHidden = (columnName: string) =>
+    columnPermissions[columnName] === "hidden";
+
+  if (isArray(activity.changes)) {
+    return {
+      ...activity,
+      changes: getActivityChanges(activity).filter(
+        (change) => !isHidden(change.column)
+      ),
+    };
+  }
+
+  const { records } = (activity.changes || {}) as DeletedRecordsChanges;
+  if (isPlainObject(activity.changes) && isArray(records)) {
+    return {
+      ...activity,
+      changes: {
+        ...(activity.changes as Prisma.JsonObject),
+        records: records.map((record) =>
+          omitBy(record, (value, columnName) => isHidden(columnName))
+        ),
+      },
+    };
+  }
+
+  return activity;
+};
@@ -1,6 +1,7 @@
 import {
   Activity as ActivityTypePrisma,
   DataSource,
+  Prisma,
   User,
   View,
 } from "@prisma/client";
@@ -10,3 +11,26 @@ export type ActivityType = ActivityTypePrisma & {
   view?: View;
   user: User;
 };
+
+export type ActivityChange = {
+  column: string;
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+};
+
+// Deletes store a snapshot of the rows as they were before being removed.
+export type DeletedRecordsChanges = {
+  records: Record<string, unknown>[];
+};
+
+export type ActivityFilters = Partial<{
+  userId: string;
+  action: string;
+  dataSourceId: string;
+  tableName: string;
+  viewId: string;
+  recordId: string;
+  from: string;
+  to: string;
+  search: string;
+}>;
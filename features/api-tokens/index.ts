@@ -0,0 +1,62 @@
+import { ApiToken } from "@prisma/client";
+import { NextApiRequest } from "next";
+import crypto from "crypto";
+import prisma from "@/prisma";
+
+export const API_TOKEN_PREFIX = "bt_";
+
+export type ApiTokenRequest = NextApiRequest & {
+  apiToken?: ApiToken;
+};
+
+/**
+ * Generates a new plain text token. Only its hash is stored so it can be shown to the user just once.
+ */
+export const generateApiToken = (): string =>
+  `${API_TOKEN_PREFIX}${crypto.randomBytes(24).toString("hex")}`;
+
+export const hashApiToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Reads the token from the `Authorization: Bearer <token>` header.
+ */
+export const getApiTokenFromHeaders = (
+  req: NextApiRequest
+): string | undefined => {
+  const [scheme, token] = (req.headers.authorization || "").split(" ");
+
+  if (scheme?.toLowerCase() !== "bearer" || !token) return;
+
+  return token.trim();
+};
+
+/**
+ * The records handlers page only when both `limit` and `offset` are sent, so the API always sends them.
+ */
+export const withPaginationDefaults = (req: NextApiRequest): NextApiRequest => {
+  req.query.limit ||= "24";
+  req.query.offset ||= "0";
+
+  return req;
+};
+
+/**
+ * The table record handlers read the table name from the query, so we fill it in from the requested view.
+ */
+export const withViewTable = async (
+  req: NextApiRequest
+): Promise<NextApiRequest> => {
+  const view = await prisma.view.findUnique({
+    where: {
+      id: parseInt(req.query.viewId as string, 10),
+    },
+    select: {
+      tableName: true,
+    },
+  });
+
+  if (view) req.query.tableName = view.tableName;
+
+  return req;
+};
@@ -0,0 +1,5 @@
+import Joi from "joi";
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).max(255).required(),
+});
@@ -1,12 +1,26 @@
+import { Role as AccessControlRole } from "@/features/roles/AccessControlService";
+import { ApiTokenRequest } from "@/features/api-tokens";
+import { Column, ColumnRolePermission } from "@/features/fields/types";
+import {
+  CurrentUserContext,
+  getCurrentUserContext,
+  resolveFilterPlaceholders,
+  scopeFilters,
+} from "@/features/views";
 import {
   Dashboard,
   DataSource,
   Organization,
+  OrganizationUser,
+  Role,
   User,
   View,
   Widget,
 } from "@prisma/client";
+import { FilterOrFilterGroup } from "@/features/tables/types";
 import { NextApiRequest } from "next";
+import { OWNER_ROLE } from "@/features/roles";
+import { decodeObject } from "@/lib/encoding";
 import { getSession } from "next-auth/client";
 import prisma from "@/prisma";
 
@@ -61,6 +75,17 @@ export const getUserFromRequest = async (
   req: NextApiRequest,
   options: Record<string, unknown> = {}
 ): Promise<User | undefined | null> => {
+  // Requests authenticated with an API token act as the user who created the token.
+  const { apiToken } = req as ApiTokenRequest;
+  if (apiToken) {
+    return prisma.user.findFirst({
+      where: {
+        id: apiToken.createdBy,
+      },
+      ...options,
+    });
+  }
+
   const session = await getSession({ req });
 
   if (!session?.user?.email) return;
@@ -73,6 +98,117 @@ export const getUserFromRequest = async (
   });
 };
 
+/**
+ * Returns the membership (with the role) the signed in user has in the given organization.
+ */
+export const getOrganizationUserFromRequest = async (
+  req: NextApiRequest,
+  organizationId: number
+): Promise<(OrganizationUser & { role: Role | null }) | null> => {
+  const user = await getUserFromRequest(req, {
+    select: {
+      id: true,
+    },
+  });
+
+  if (!user) return null;
+
+  return prisma.organizationUser.findFirst({
+    where: {
+      userId: user.id,
+      organizationId,
+    },
+    include: {
+      role: true,
+    },
+  });
+};
+
+/**
+ * Returns the `currentUser` variable used to resolve the view filter placeholders.
+ */
+export const getCurrentUserContextFromRequest = async (
+  req: NextApiRequest,
+  organizationId: number | null
+): Promise<CurrentUserContext> => {
+  const user = await getUserFromRequest(req);
+  const organizationUser =
+    user && organizationId
+      ? await prisma.organizationUser.findFirst({
+          where: {
+            userId: user.id,
+            organizationId,
+          },
+          include: {
+            role: true,
+          },
+        })
+      : null;
+
+  return getCurrentUserContext(
+    user,
+    organizationUser?.role as unknown as AccessControlRole
+  );
+};
+
+/**
+ * Returns the column permissions the requesting user's role has on a table, keyed by column name.
+ * A column restricted in one of the table's views is restricted on the whole table.
+ */
+export const getColumnPermissionsFromRequest = async (
+  req: NextApiRequest,
+  dataSource: Pick<DataSource, "id" | "organizationId">,
+  tableName: string
+): Promise<Record<string, ColumnRolePermission>> => {
+  if (!dataSource.organizationId) return {};
+
+  const organizationUser = await getOrganizationUserFromRequest(
+    req,
+    dataSource.organizationId
+  );
+
+  if (!organizationUser?.roleId) return {};
+
+  const views = await prisma.view.findMany({
+    where: {
+      dataSourceId: dataSource.id,
+      tableName,
+    },
+    select: {
+      columns: true,
+    },
+  });
+
+  return getColumnPermissionsForRole(views, organizationUser.roleId);
+};
+
+/**
+ * Returns the column permissions a role has from the views of a table, keyed by column name.
+ */
+export const getColumnPermissionsForRole = (
+  views: Pick<View, "columns">[],
+  roleId: number
+): Record<string, ColumnRolePermission> => {
+  const permissions: Record<string, ColumnRolePermission> = {};
+
+  views.forEach((view) => {
+    ((view.columns as Column[]) || []).forEach((column) => {
+      const permission = column?.baseOptions?.rolePermissions?.[roleId];
+
+      // Hidden takes precedence over read-only.
+      if (
+        permission &&
+        permission !== "editable" &&
+        permissions[column.name] !== "hidden"
+      ) {
+        permissions[column.name] = permission;
+      }
+    });
+  });
+
+  return permissions;
+};
+
 export const getViewFromRequest = async (
   req: NextApiRequest,
   options: Record<string, unknown> = {}
@@ -85,6 +221,98 @@ export const getViewFromRequest = async (
   });
 };
 
+/**
+ * Returns the base filters of the requested view resolved for the requesting user, or `undefined` outside of views.
+ * Used to keep the record writes inside the view.
+ */
+export const getViewBaseFiltersFromRequest = async (
+  req: NextApiRequest
+): Promise<FilterOrFilterGroup[] | undefined> => {
+  if (!req.query.viewId && !req.body?.viewId) return;
+
+  const view = await getViewFromRequest(req, {
+    select: {
+      filters: true,
+      organizationId: true,
+    },
+  });
+
+  if (!view) return;
+
+  return resolveFilterPlaceholders(
+    (view.filters as FilterOrFilterGroup[]) || [],
+    await getCurrentUserContextFromRequest(req, view.organizationId)
+  );
+};
+
+/**
+ * Returns where the requested records come from. Views bring their own table, columns and base filters.
+ */
+export const getRecordsSourceFromRequest = async (
+  req: NextApiRequest
+): Promise<
+  | {
+      dataSource: DataSource;
+      tableName: string;
+      storedColumns: Column[];
+      filters: FilterOrFilterGroup[];
+    }
+  | undefined
+> => {
+  if (req.query.viewId) {
+    const view = (await getViewFromRequest(req, {
+      include: {
+        dataSource: true,
+      },
+    })) as View & {
+      dataSource: DataSource;
+    };
+
+    if (!view || !view?.dataSource) return;
+
+    const decodedFilters = (decodeObject(req.query.filters as string) ||
+      []) as FilterOrFilterGroup[];
+    const organizationUser = view.dataSource.organizationId
+      ? await getOrganizationUserFromRequest(
+          req,
+          view.dataSource.organizationId
+        )
+      : null;
+    // The base filters are taken from the view so users can't strip them from the request.
+    // Owners can edit the view so they preview the base filters they haven't saved yet.
+    const baseFilters = resolveFilterPlaceholders(
+      organizationUser?.role?.name === OWNER_ROLE
+        ? decodedFilters.filter(({ isBase }) => isBase)
+        : (view.filters as FilterOrFilterGroup[]),
+      await getCurrentUserContextFromRequest(
+        req,
+        view.dataSource.organizationId
+      )
+    );
+
+    return {
+      dataSource: view.dataSource,
+      tableName: view.tableName as string,
+      storedColumns: view.columns as Column[],
+      filters: scopeFilters(
+        baseFilters,
+        decodedFilters.filter(({ isBase }) => !isBase)
+      ),
+    };
+  }
+
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return;
+
+  return {
+    dataSource,
+    tableName: req.query.tableName as string,
+    storedColumns: [],
+    filters: decodeObject(req.query.filters as string) as FilterOrFilterGroup[],
+  };
+};
+
 export const getDashboardFromRequest = async (
   req: NextApiRequest,
   options: Record<string, unknown> = {}
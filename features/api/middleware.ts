@@ -31,15 +31,16 @@ export const withMiddlewares =
   async (req: NextApiRequest, res: NextApiResponse) => {
     // The middlewares will be run top-down (first ones on the list run first, last ones run last)
     const allMiddlewares: MiddlewareTuple[] = [
-      ...endMiddlewares,
-      ...(options?.middlewares || []),
       ...startMiddlewares,
+      ...(options?.middlewares || []),
+      ...endMiddlewares,
     ];
 
     // If we use `handler` alone it somehow remains stored in memory and all the middlewares get doubled leading to increased loading times.
     let newHandler = handler;
 
-    for (const tuple of allMiddlewares) {
+    // Wrap the handler from the inside out so the first middleware on the list is the outermost one.
+    for (const tuple of [...allMiddlewares].reverse()) {
       const [middleware, args] = tuple;
       newHandler = middleware(newHandler, args);
     }
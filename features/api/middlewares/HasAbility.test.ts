@@ -0,0 +1,138 @@
+import {
+  getDataSourceFromRequest,
+  getOrganizationUserFromRequest,
+  getViewFromRequest,
+} from "@/features/api";
+import { isReadOnlyTable } from "@/features/records";
+import HasAbility from "./HasAbility";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+jest.mock("@/features/api", () => ({
+  getDataSourceFromRequest: jest.fn(),
+  getOrganizationUserFromRequest: jest.fn(),
+  getViewFromRequest: jest.fn(),
+}));
+jest.mock("@/features/records", () => ({
+  isReadOnlyTable: jest.fn(),
+}));
+
+const makeResponse = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.send = jest.fn(() => res);
+
+  return res as NextApiResponse & { status: jest.Mock };
+};
+
+const makeRequest = (query: Record<string, string>, method = "GET") =>
+  ({ method, query, body: {} } as unknown as NextApiRequest);
+
+describe("HasAbility", () => {
+  const handler = jest.fn();
+
+  beforeEach(() => {
+    handler.mockReset();
+    (getDataSourceFromRequest as jest.Mock).mockResolvedValue({
+      id: 1,
+      organizationId: 1,
+    });
+    (getOrganizationUserFromRequest as jest.Mock).mockResolvedValue({
+      role: {
+        name: "Support",
+        options: {
+          abilities: [],
+          permissions: [
+            {
+              dataSourceId: 2,
+              tableName: "orders",
+              viewId: 10,
+              abilities: ["can_read"],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it("rejects a view from another data source", async () => {
+    (getViewFromRequest as jest.Mock).mockResolvedValue({
+      id: 10,
+      dataSourceId: 2,
+      tableName: "orders",
+    });
+    const res = makeResponse();
+
+    await HasAbility(handler)(
+      makeRequest({ dataSourceId: "1", tableName: "secrets", viewId: "10" }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("rejects a view of another table", async () => {
+    (getDataSourceFromRequest as jest.Mock).mockResolvedValue({
+      id: 2,
+      organizationId: 1,
+    });
+    (getViewFromRequest as jest.Mock).mockResolvedValue({
+      id: 10,
+      dataSourceId: 2,
+      tableName: "orders",
+    });
+    const res = makeResponse();
+
+    await HasAbility(handler)(
+      makeRequest({ dataSourceId: "2", tableName: "secrets", viewId: "10" }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("uses the permissions of a view from the same data source", async () => {
+    (getDataSourceFromRequest as jest.Mock).mockResolvedValue({
+      id: 2,
+      organizationId: 1,
+    });
+    (getViewFromRequest as jest.Mock).mockResolvedValue({
+      id: 10,
+      dataSourceId: 2,
+      tableName: "orders",
+    });
+    const res = makeResponse();
+
+    await HasAbility(handler)(makeRequest({ viewId: "10" }), res);
+
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it("refuses writes to read-only tables", async () => {
+    (getDataSourceFromRequest as jest.Mock).mockResolvedValue({
+      id: 2,
+      organizationId: 1,
+    });
+    (getOrganizationUserFromRequest as jest.Mock).mockResolvedValue({
+      role: {
+        name: "Editor",
+        options: { abilities: ["can_read", "can_update"], permissions: [] },
+      },
+    });
+    (isReadOnlyTable as jest.Mock).mockResolvedValue(true);
+    const res = makeResponse();
+
+    await HasAbility(handler)(
+      makeRequest({ dataSourceId: "2", tableName: "orders_report" }, "PUT"),
+      res
+    );
+
+    expect(isReadOnlyTable).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 2 }),
+      "orders_report"
+    );
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { PermissionScope, Role } from "@/features/roles/AccessControlService";
+import { View } from "@prisma/client";
+import {
+  getDataSourceFromRequest,
+  getOrganizationUserFromRequest,
+  getViewFromRequest,
+} from "@/features/api";
+import { isReadOnlyTable } from "@/features/records";
+import AccessControlService from "@/features/roles/AccessControlService";
+import ApiResponse from "@/features/api/ApiResponse";
+
+export type RecordAbility = "createAny" | "readAny" | "updateAny" | "deleteAny";
+
+const abilitiesByMethod: Record<string, RecordAbility> = {
+  GET: "readAny",
+  POST: "createAny",
+  PUT: "updateAny",
+  PATCH: "updateAny",
+  DELETE: "deleteAny",
+};
+
+const actionsByAbility: Record<RecordAbility, string> = {
+  createAny: "create",
+  readAny: "view",
+  updateAny: "edit",
+  deleteAny: "delete",
+};
+
+/**
+ * Checks that the role the user has in the data source's organization grants the ability needed for the request.
+ * The ability is inferred from the request method unless one is passed as an argument.
+ * Permissions scoped to the requested view, table or data source take precedence over the role's abilities.
+ * Writes to read-only tables (database views) are refused no matter the role.
+ */
+const HasAbility =
+  (handler: NextApiHandler, args?: Record<string, unknown>) =>
+  async (req: NextApiRequest, res: NextApiResponse) => {
+    const ability =
+      (args?.ability as RecordAbility | undefined) ||
+      abilitiesByMethod[(req.method as string) || "GET"];
+
+    if (!ability) return handler(req, res);
+
+    const dataSource = await getDataSourceFromRequest(req, {
+      select: {
+        id: true,
+        organizationId: true,
+      },
+    });
+
+    if (!dataSource?.organizationId) return res.status(404).send("");
+
+    const scope: PermissionScope = {
+      dataSourceId: dataSource.id,
+      tableName: req.query.tableName as string | undefined,
+    };
+
+    if (req.query.viewId || req.body?.viewId) {
+      const view = (await getViewFromRequest(req, {
+        select: {
+          id: true,
+          dataSourceId: true,
+          tableName: true,
+        },
+      })) as View | null;
+
+      // The permissions of a view don't apply to other data sources or tables.
+      if (
+        view &&
+        (view.dataSourceId !== dataSource.id ||
+          (req.query.tableName && req.query.tableName !== view.tableName))
+      ) {
+        return res
+          .status(403)
+          .send(
+            ApiResponse.withError(
+              "The view doesn't belong to this data source."
+            )
+          );
+      }
+
+      if (view) {
+        scope.viewId = view.id;
+        scope.tableName = view.tableName;
+      }
+    }
+
+    const organizationUser = await getOrganizationUserFromRequest(
+      req,
+      dataSource.organizationId
+    );
+    const ac = new AccessControlService(
+      organizationUser?.role as unknown as Role
+    );
+
+    if (!ac[ability]("record", scope).granted) {
+      return res
+        .status(403)
+        .send(
+          ApiResponse.withError(
+            `You don't have permission to ${actionsByAbility[ability]} records.`
+          )
+        );
+    }
+
+    if (ability !== "readAny" && scope.tableName) {
+      const fullDataSource = await getDataSourceFromRequest(req);
+
+      if (
+        fullDataSource &&
+        (await isReadOnlyTable(fullDataSource, scope.tableName))
+      ) {
+        return res
+          .status(403)
+          .send(ApiResponse.withError("This table is read-only."));
+      }
+    }
+
+    return handler(req, res);
+  };
+
+export default HasAbility;
@@ -0,0 +1,59 @@
+import {
+  ApiTokenRequest,
+  getApiTokenFromHeaders,
+  hashApiToken,
+} from "@/features/api-tokens";
+import { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { getDataSourceFromRequest } from "@/features/api";
+import ApiResponse from "@/features/api/ApiResponse";
+import prisma from "@/prisma";
+
+/**
+ * Authenticates the request with an organization API token instead of the session cookie.
+ * The token's creator becomes the request user, so the role checks that follow apply to them.
+ */
+const HasApiToken =
+  (handler: NextApiHandler) =>
+  async (req: NextApiRequest, res: NextApiResponse) => {
+    const token = getApiTokenFromHeaders(req);
+
+    if (!token) {
+      return res.status(401).send(ApiResponse.withError("Missing API token."));
+    }
+
+    const apiToken = await prisma.apiToken.findUnique({
+      where: {
+        hashedToken: hashApiToken(token),
+      },
+    });
+
+    if (!apiToken) {
+      return res.status(401).send(ApiResponse.withError("Invalid API token."));
+    }
+
+    (req as ApiTokenRequest).apiToken = apiToken;
+
+    // The token can only reach the data sources of its organization.
+    const dataSource = await getDataSourceFromRequest(req, {
+      select: {
+        organizationId: true,
+      },
+    });
+
+    if (!dataSource || dataSource.organizationId !== apiToken.organizationId) {
+      return res.status(404).send("");
+    }
+
+    await prisma.apiToken.update({
+      where: {
+        id: apiToken.id,
+      },
+      data: {
+        lastUsedAt: new Date(),
+      },
+    });
+
+    return handler(req, res);
+  };
+
+export default HasApiToken;
@@ -0,0 +1,29 @@
+import { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { OWNER_ROLE } from "@/features/roles";
+import { getOrganizationUserFromRequest } from "@/features/api";
+import ApiResponse from "@/features/api/ApiResponse";
+
+/**
+ * Lets only the owners of the requested organization through.
+ */
+const IsOrganizationOwner =
+  (handler: NextApiHandler) =>
+  async (req: NextApiRequest, res: NextApiResponse) => {
+    const organizationUser = await getOrganizationUserFromRequest(
+      req,
+      parseInt(
+        (req.query.organizationId || req.body.organizationId) as string,
+        10
+      )
+    );
+
+    if (organizationUser?.role?.name !== OWNER_ROLE) {
+      return res
+        .status(403)
+        .send(ApiResponse.withError("Only the owners can do that."));
+    }
+
+    return handler(req, res);
+  };
+
+export default IsOrganizationOwner;
@@ -1,7 +1,9 @@
 import { DataSourceInfo } from "@/plugins/data-sources/types";
 import { OWNER_ROLE } from "../roles";
+import { PermissionScope } from "@/features/roles/AccessControlService";
 import { useMemo } from "react";
 import { useProfile } from "@/hooks";
+import { useTablesResponse } from "@/features/tables/hooks";
 import AccessControlService from "@/features/roles/AccessControlService";
 
 export const useAccessControl = () => {
@@ -13,41 +15,59 @@ export const useAccessControl = () => {
 
 export const useACLHelpers = ({
   dataSourceInfo,
+  dataSourceId,
+  tableName,
   viewId,
 }: {
   dataSourceInfo?: DataSourceInfo;
+  dataSourceId?: string;
+  tableName?: string;
   viewId?: string;
 }) => {
   const ac = useAccessControl();
   const { isLoading: profileIsLoading } = useProfile();
   const isOwner = useMemo(() => ac.hasRole(OWNER_ROLE), [ac]);
+  const scope = useMemo<PermissionScope>(
+    () => ({ dataSourceId, tableName, viewId }),
+    [dataSourceId, tableName, viewId]
+  );
+
+  // Database views are listed along the tables but can't be written to.
+  const { tables } = useTablesResponse({ dataSourceId: dataSourceId || "" });
+  const readOnly = useMemo(
+    () =>
+      dataSourceInfo?.readOnly ||
+      tables.find(({ name }) => name === tableName)?.readOnly ||
+      false,
+    [dataSourceInfo, tables, tableName]
+  );
 
   const canView = useMemo(() => {
     if (profileIsLoading) return true;
 
-    return ac.readAny("record").granted;
-  }, [ac]);
+    return ac.readAny("record", scope).granted;
+  }, [ac, scope]);
   const canEdit = useMemo(() => {
     if (profileIsLoading) return true;
 
-    return ac.updateAny("record").granted && !dataSourceInfo?.readOnly;
-  }, [ac, dataSourceInfo]);
+    return ac.updateAny("record", scope).granted && !readOnly;
+  }, [ac, scope, readOnly]);
   const canDelete = useMemo(() => {
     if (profileIsLoading) return true;
 
-    return ac.deleteAny("record").granted && !dataSourceInfo?.readOnly;
-  }, [ac, dataSourceInfo]);
+    return ac.deleteAny("record", scope).granted && !readOnly;
+  }, [ac, scope, readOnly]);
   const canBulkDelete = useMemo(() => {
     if (profileIsLoading) return true;
 
-    return ac.deleteAny("record").granted && !dataSourceInfo?.readOnly;
-  }, [ac, dataSourceInfo]);
+    return ac.deleteAny("record", scope).granted && !readOnly;
+  }, [ac, scope, readOnly]);
 
   const canCreate = useMemo(() => {
     if (profileIsLoading) return true;
 
-    return ac.createAny("record").granted && !dataSourceInfo?.readOnly;
-  }, [ac, dataSourceInfo]);
+    return ac.createAny("record", scope).granted && !readOnly;
+  }, [ac, scope, readOnly]);
 
   const canCreateView = useMemo(() => {
     if (profileIsLoading) return true;
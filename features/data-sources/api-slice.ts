@@ -1,6 +1,7 @@
 import { apiUrl } from "@/features/api/urls";
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
 import { first } from "lodash";
+import { tablesApiSlice } from "@/features/tables/api-slice";
 import ApiResponse from "@/features/api/ApiResponse";
 
 const dataSourceFormData = (body: any) => {
@@ -23,6 +24,11 @@ const dataSourceFormData = (body: any) => {
     }
   }
 
+  // Append the file of the file data sources
+  if (first(body?.file)) {
+    formData.append("file", first(body?.file) as any);
+  }
+
   return formData;
 };
 
@@ -149,6 +155,17 @@ export const dataSourcesApiSlice = createApi({
           { type: "DataSource", id: dataSourceId },
           { type: "DataSource", id: "LIST" },
         ],
+        // The tables depend on the data source options (ex: the Postgres schemas).
+        async onQueryStarted({ dataSourceId }, { dispatch, queryFulfilled }) {
+          try {
+            await queryFulfilled;
+            dispatch(
+              tablesApiSlice.util.invalidateTags([
+                { type: "Table", id: dataSourceId },
+              ])
+            );
+          } catch (error) {}
+        },
       }),
       checkConnection: builder.mutation<unknown, Partial<{ body: any }>>({
         queryFn: createDataSourceFn(`${apiUrl}/data-sources/check-connection`),
@@ -0,0 +1,13 @@
+import Joi from "joi";
+
+export const schema = Joi.object({
+  associations: Joi.array()
+    .items(
+      Joi.object({
+        columnName: Joi.string().required(),
+        foreignTableName: Joi.string().required(),
+        foreignColumnName: Joi.string().required(),
+      })
+    )
+    .required(),
+});
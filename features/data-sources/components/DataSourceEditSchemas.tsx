@@ -0,0 +1,71 @@
+import {
+  Editable,
+  EditableInput,
+  EditablePreview,
+  FormControl,
+  FormHelperText,
+} from "@chakra-ui/react";
+import { isEqual } from "lodash";
+import { parseSchemas } from "@/features/data-sources";
+import { useDataSourceContext } from "@/hooks";
+import { useDataSourceResponse } from "../hooks";
+import { useUpdateDataSourceMutation } from "@/features/data-sources/api-slice";
+import React from "react";
+import Shimmer from "@/components/Shimmer";
+import TinyLabel from "@/components/TinyLabel";
+
+/**
+ * Lets Postgres data sources pick the schemas we show the tables from.
+ */
+function DataSourceEditSchemas() {
+  const { dataSourceId } = useDataSourceContext();
+
+  const { dataSource, isLoading: dataSourceIsLoading } =
+    useDataSourceResponse(dataSourceId);
+  const schemas = (dataSource?.options as { schemas?: string[] } | null)
+    ?.schemas || ["public"];
+
+  const [updateDataSource] = useUpdateDataSourceMutation();
+
+  const updateSchemas = async (value: string) => {
+    const newSchemas = parseSchemas(value);
+
+    if (!isEqual(newSchemas, schemas)) {
+      await updateDataSource({
+        dataSourceId,
+        body: {
+          options: {
+            schemas: newSchemas,
+          },
+        },
+      }).unwrap();
+    }
+  };
+
+  return (
+    <div className="my-3">
+      <TinyLabel>Schemas</TinyLabel>
+      {dataSourceIsLoading && (
+        <Shimmer height="18px" width="100px" className="mt-2 mb-1" />
+      )}
+      {!dataSourceIsLoading && (
+        <FormControl>
+          <Editable
+            className="font-mono"
+            defaultValue={schemas.join(", ")}
+            onSubmit={updateSchemas}
+            submitOnBlur={true}
+          >
+            <EditablePreview className="cursor-pointer" />
+            <EditableInput />
+          </Editable>
+          <FormHelperText>
+            Comma separated. Tables outside of public are named schema.table.
+          </FormHelperText>
+        </FormControl>
+      )}
+    </div>
+  );
+}
+
+export default DataSourceEditSchemas;
@@ -0,0 +1,61 @@
+import { FormControl, FormHelperText, Switch } from "@chakra-ui/react";
+import { useDataSourceContext } from "@/hooks";
+import { useDataSourceResponse } from "../hooks";
+import { useUpdateDataSourceMutation } from "@/features/data-sources/api-slice";
+import React from "react";
+import Shimmer from "@/components/Shimmer";
+import TinyLabel from "@/components/TinyLabel";
+
+/**
+ * Lets SQL data sources list their database views next to the tables.
+ */
+function DataSourceEditViews() {
+  const { dataSourceId } = useDataSourceContext();
+
+  const { dataSource, isLoading: dataSourceIsLoading } =
+    useDataSourceResponse(dataSourceId);
+  const includeViews =
+    (dataSource?.options as { includeViews?: boolean } | null)?.includeViews ===
+    true;
+
+  const [updateDataSource, { isLoading: isUpdating }] =
+    useUpdateDataSourceMutation();
+
+  const toggleViews = async (value: boolean) => {
+    await updateDataSource({
+      dataSourceId,
+      body: {
+        options: {
+          includeViews: value,
+        },
+      },
+    }).unwrap();
+  };
+
+  return (
+    <div className="my-3">
+      <TinyLabel>Database views</TinyLabel>
+      {dataSourceIsLoading && (
+        <Shimmer height="18px" width="100px" className="mt-2 mb-1" />
+      )}
+      {!dataSourceIsLoading && (
+        <FormControl>
+          <div className="flex justify-between items-center">
+            <div>Show database views</div>
+            <Switch
+              size="sm"
+              isChecked={includeViews}
+              isDisabled={isUpdating}
+              onChange={(e) => toggleViews(e.currentTarget.checked)}
+            />
+          </div>
+          <FormHelperText>
+            Views and materialized views are listed as read-only tables.
+          </FormHelperText>
+        </FormControl>
+      )}
+    </div>
+  );
+}
+
+export default DataSourceEditViews;
@@ -1,11 +1,14 @@
 import { Button } from "@chakra-ui/react";
-import { TrashIcon } from "@heroicons/react/outline";
+import { DownloadIcon, TrashIcon } from "@heroicons/react/outline";
+import { apiUrl } from "@/features/api/urls";
 import { useDataSourceContext } from "@/hooks";
 import { useDataSourceResponse } from "../hooks";
 import { useRemoveDataSourceMutation } from "@/features/data-sources/api-slice";
 import { useRouter } from "next/router";
 import BackButton from "@/features/records/components/BackButton";
 import DataSourceEditName from "@/features/data-sources/components/DataSourceEditName";
+import DataSourceEditSchemas from "@/features/data-sources/components/DataSourceEditSchemas";
+import DataSourceEditViews from "@/features/data-sources/components/DataSourceEditViews";
 import Layout from "@/components/Layout";
 import PageWrapper from "@/components/PageWrapper";
 import React, { ReactElement, memo } from "react";
@@ -70,6 +73,24 @@ const DataSourcesEditLayout = ({
         <div className="relative flex-1 max-w-full w-full flex justify-center">
           <div className="w-72">
             <DataSourceEditName />
+            {dataSource?.type === "postgresql" && <DataSourceEditSchemas />}
+            {dataSource?.type &&
+              ["postgresql", "mysql", "maria_db"].includes(dataSource.type) && (
+                <DataSourceEditViews />
+              )}
+            {dataSource?.type === "csv" && (
+              <Button
+                as="a"
+                className="mt-10"
+                isFullWidth={true}
+                size="xs"
+                variant="outline"
+                href={`${apiUrl}/data-sources/${dataSourceId}/download`}
+                leftIcon={<DownloadIcon className="h-4" />}
+              >
+                Download file
+              </Button>
+            )}
             <Button
               className="mt-10"
               isFullWidth={true}
@@ -30,6 +30,7 @@ import { SQLDataSourceTypes } from "@/plugins/data-sources/abstract-sql-query-se
 import { WHITELISTED_IP_ADDRESS } from "@/lib/constants";
 import { joiResolver } from "@hookform/resolvers/joi/dist/joi";
 import { merge } from "lodash";
+import { parseSchemas } from "@/features/data-sources";
 import { toast } from "react-toastify";
 import {
   useAddDataSourceMutation,
@@ -56,6 +57,8 @@ export type IFormFields = {
   options: {
     connectsWithSSH: boolean;
     connectsWithSSHKey: boolean;
+    allowEdits?: boolean;
+    schemas?: string[];
   };
   credentials: {
     host: string;
@@ -63,6 +66,7 @@ export type IFormFields = {
     database: string;
     user: string;
     password?: string;
+    schema?: string;
     useSsl: boolean;
   };
 };
@@ -73,6 +77,7 @@ export type DefaultValueCredentials = {
   database?: string;
   user?: string;
   password?: string;
+  schema?: string;
   useSsl?: boolean;
 };
 
@@ -108,6 +113,8 @@ const NewDataSourceForm = ({
     options?: {
       connectsWithSSH?: boolean;
       connectsWithSSHKey?: boolean;
+      allowEdits?: boolean;
+      schemas?: string[];
     };
     credentials?: DefaultValueCredentials;
     ssh?: {
@@ -442,6 +449,46 @@ const NewDataSourceForm = ({
               </FormErrorMessage>
             </FormControl>
 
+            {type === "postgresql" && (
+              <FormControl
+                id="schemas"
+                isInvalid={!isUndefined(errors?.options?.schemas)}
+              >
+                <FormLabel>Schemas</FormLabel>
+                <Input
+                  type="text"
+                  placeholder="public, billing"
+                  {...register("options.schemas", {
+                    setValueAs: parseSchemas,
+                  })}
+                />
+                <FormHelperText>
+                  Comma separated. We'll show the tables from these schemas.
+                  Defaults to public.
+                </FormHelperText>
+              </FormControl>
+            )}
+
+            {type === "amazon_redshift" && (
+              <FormControl
+                id="schema"
+                isInvalid={!isUndefined(errors?.credentials?.schema?.message)}
+              >
+                <FormLabel>Schema</FormLabel>
+                <Input
+                  type="text"
+                  placeholder="public"
+                  {...register("credentials.schema")}
+                />
+                <FormHelperText>
+                  We'll show the tables from this schema.
+                </FormHelperText>
+                <FormErrorMessage>
+                  {errors?.credentials?.schema?.message}
+                </FormErrorMessage>
+              </FormControl>
+            )}
+
             <div className="w-full flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
               <div className="sm:w-1/2">
                 <FormControl
@@ -496,6 +543,19 @@ const NewDataSourceForm = ({
               </FormErrorMessage>
             </FormControl>
 
+            {type === "amazon_redshift" && (
+              <FormControl id="options_allowEdits">
+                <FormLabel htmlFor="options.allowEdits">Allow edits</FormLabel>
+                <Checkbox
+                  id="options.allowEdits"
+                  {...register("options.allowEdits")}
+                />
+                <FormHelperText>
+                  Redshift data sources are read-only unless you allow edits.
+                </FormHelperText>
+              </FormControl>
+            )}
+
             <div className="text-gray-800 text-">
               Add our IP{" "}
               <span
@@ -8,6 +8,12 @@ export const s3KeysBucket = () => {
   }`;
 };
 
+/* Postgres schemas are entered as a comma separated list. */
+export const parseSchemas = (value: string | string[]): string[] =>
+  (Array.isArray(value) ? value : value.split(","))
+    .map((schema) => schema.trim())
+    .filter((schema) => schema !== "");
+
 export const INITIAL_NEW_COLUMN = {
   name: "computed_field",
   label: "Computed field",
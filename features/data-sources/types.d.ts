@@ -18,4 +18,14 @@ export type TableMetaData = {
   nameColumn: string;
   createdAtColumn?: string;
   updatedAtColumn?: string;
+  // Declared by the user for the data sources that don't enforce foreign keys (Redshift).
+  associations?: TableAssociation[];
+  // Picked by the user for the tables that don't have a primary key (database views).
+  primaryKeyColumn?: string;
+};
+
+export type TableAssociation = {
+  columnName: string;
+  foreignTableName: string;
+  foreignColumnName: string;
 };
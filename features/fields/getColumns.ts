@@ -1,4 +1,4 @@
-import { Column } from "react-table";
+import { Column } from "@/features/fields/types";
 import { DataSource } from "@prisma/client";
 import { hydrateColumns } from "../records";
 import { runQuery } from "@/plugins/data-sources/serverHelpers";
@@ -21,6 +21,15 @@ import type { Column, Field, FieldType, FieldValue } from "./types";
 
 export const idColumns = ["id", "_id", "ID", "Id"];
 
+// The integer types of the SQL databases (int, integer, bigint, int8, serial...), but not `point` or `interval`.
+const INTEGER_TYPE_REGEX = /^(tiny|small|medium|big)?int(eger)?\d*\b|serial/i;
+
+/**
+ * Tells if the database stores the column as an integer.
+ */
+export const isIntegerColumn = (column: Column): boolean =>
+  INTEGER_TYPE_REGEX.test(String(column.dataSourceInfo?.type || ""));
+
 export const getColumnOptions = (
   column: Column
 ): { id: FieldType; label: string }[] => {
@@ -174,6 +183,7 @@ export const getBaseOptions = () => ({
   computed: false,
   computedSource: "",
   backgroundColor: "",
+  rolePermissions: {},
 });
 
 export const getColumnNameLabel = (...args: any[]) => {
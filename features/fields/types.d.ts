@@ -26,6 +26,11 @@ export type ForeignKey = {
   /* eslint-enable camelcase */
 };
 
+export type ColumnRolePermission = "hidden" | "readonly" | "editable";
+
+// Column permissions keyed by role id. Roles that are not listed can edit the column.
+export type ColumnRolePermissions = Record<string, ColumnRolePermission>;
+
 export type BaseOptions = {
   visibleOnIndex: boolean;
   visibleOnShow: boolean;
@@ -44,6 +49,7 @@ export type BaseOptions = {
   computed: boolean;
   computedSource: string;
   backgroundColor: string;
+  rolePermissions: ColumnRolePermissions;
 };
 
 export type Column<
@@ -0,0 +1,31 @@
+import { Column } from "@/features/fields/types";
+import { schemaForColumn } from ".";
+
+const makeKeyColumn = (type: string) =>
+  ({
+    name: "id",
+    label: "id",
+    fieldType: "Id",
+    primaryKey: true,
+    fieldOptions: {},
+    baseOptions: {},
+    dataSourceInfo: { type },
+  } as unknown as Column);
+
+describe("schemaForColumn", () => {
+  it("derives the key type from the database column", () => {
+    expect(schemaForColumn(makeKeyColumn("bigint")).type).toBe("integer");
+    expect(schemaForColumn(makeKeyColumn("uuid"))).toMatchObject({
+      type: "string",
+      format: "uuid",
+    });
+    expect(schemaForColumn(makeKeyColumn("character varying")).type).toBe(
+      "string"
+    );
+  });
+
+  it("doesn't mistake other types containing `int` for integers", () => {
+    expect(schemaForColumn(makeKeyColumn("point")).type).toBe("string");
+    expect(schemaForColumn(makeKeyColumn("interval")).type).toBe("string");
+  });
+});
@@ -0,0 +1,288 @@
+import { Column, FieldType } from "@/features/fields/types";
+import { isEmpty, merge, uniq } from "lodash";
+import { isIntegerColumn } from "@/features/fields";
+
+type SchemaObject = Record<string, unknown>;
+
+export type OpenApiResource = {
+  // The path prefix of the records endpoints (ex: `/api/v1/views/3`).
+  path: string;
+  // The component name of the record schema (ex: `View3Record`).
+  schemaName: string;
+  // Groups the endpoints in the generated docs.
+  tag: string;
+  summary: string;
+  columns: Column[];
+};
+
+// Keys can be numbers, uuids or text so their type comes from the database column.
+const schemaForKey = (column: Column): SchemaObject => {
+  const type = String(column.dataSourceInfo?.type || "").toLowerCase();
+
+  if (isIntegerColumn(column)) return { type: "integer" };
+  if (/uuid|uniqueidentifier/.test(type))
+    return { type: "string", format: "uuid" };
+  if (/numeric|decimal|float|double|real/.test(type)) return { type: "number" };
+
+  return { type: "string" };
+};
+
+const schemaForFieldType = (fieldType: FieldType): SchemaObject => {
+  switch (fieldType) {
+    case "Number":
+    case "ProgressBar":
+      return { type: "number" };
+    case "Boolean":
+      return { type: "boolean" };
+    case "DateTime":
+      return { type: "string", format: "date-time" };
+    case "Json":
+      return { type: "object" };
+    case "Text":
+    case "Textarea":
+    case "Select":
+    case "Gravatar":
+    case "LinkTo":
+    default:
+      return { type: "string" };
+  }
+};
+
+/**
+ * Maps a Basetool column to the JSON Schema of its value.
+ */
+export const schemaForColumn = (column: Column): SchemaObject => {
+  const schema: SchemaObject = {
+    ...(["Id", "Association"].includes(column.fieldType)
+      ? schemaForKey(column)
+      : schemaForFieldType(column.fieldType)),
+    title: column.baseOptions?.label || column.label || column.name,
+  };
+
+  if (column.fieldType === "Select") {
+    const options = ((column.fieldOptions?.options as string) || "")
+      .split(",")
+      .map((option) => option.trim())
+      .filter((option) => !isEmpty(option));
+
+    if (!isEmpty(options)) schema.enum = options;
+  }
+
+  if (column.baseOptions?.help) schema.description = column.baseOptions.help;
+  if (column.baseOptions?.nullable) schema.nullable = true;
+  if (
+    column.primaryKey ||
+    column.baseOptions?.readonly ||
+    column.baseOptions?.computed
+  ) {
+    schema.readOnly = true;
+  }
+
+  return schema;
+};
+
+/**
+ * Builds the record schema. The required list applies to creating records.
+ */
+export const schemaForColumns = (columns: Column[]): SchemaObject => {
+  const required = columns
+    .filter(
+      (column) =>
+        column.baseOptions?.required === true &&
+        column.baseOptions?.computed !== true &&
+        !column.primaryKey
+    )
+    .map(({ name }) => name);
+
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      columns.map((column) => [column.name, schemaForColumn(column)])
+    ),
+    ...(isEmpty(required) ? {} : { required }),
+  };
+};
+
+const responseFor = (dataSchema: SchemaObject, description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean" },
+          data: dataSchema,
+          meta: { type: "object" },
+        },
+      },
+    },
+  },
+});
+
+const requestBodyFor = (key: string, schemaName: string) => ({
+  required: true,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          [key]: { $ref: `#/components/schemas/${schemaName}` },
+        },
+        required: [key],
+      },
+    },
+  },
+});
+
+const pathsForResource = ({
+  path,
+  schemaName,
+  tag,
+  summary,
+}: OpenApiResource) => {
+  const recordRef = { $ref: `#/components/schemas/${schemaName}` };
+
+  return {
+    [`${path}/records`]: {
+      get: {
+        tags: [tag],
+        summary: `List the ${summary} records`,
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          { name: "offset", in: "query", schema: { type: "integer" } },
+          { name: "orderBy", in: "query", schema: { type: "string" } },
+          {
+            name: "orderDirection",
+            in: "query",
+            schema: { type: "string", enum: ["asc", "desc"] },
+          },
+        ],
+        responses: {
+          "200": responseFor({ type: "array", items: recordRef }, "Records"),
+        },
+      },
+      post: {
+        tags: [tag],
+        summary: `Create a ${summary} record`,
+        requestBody: requestBodyFor("record", schemaName),
+        responses: {
+          "200": responseFor(
+            { type: "object", properties: { id: {} } },
+            "The id of the created record"
+          ),
+        },
+      },
+    },
+    [`${path}/records/export`]: {
+      get: {
+        tags: [tag],
+        summary: `Export the ${summary} records`,
+        parameters: [
+          {
+            name: "format",
+            in: "query",
+            schema: { type: "string", enum: ["csv", "jsonl", "xlsx"] },
+          },
+          { name: "orderBy", in: "query", schema: { type: "string" } },
+          {
+            name: "orderDirection",
+            in: "query",
+            schema: { type: "string", enum: ["asc", "desc"] },
+          },
+        ],
+        responses: {
+          "200": { description: "The records file" },
+        },
+      },
+    },
+    [`${path}/records/{recordId}`]: {
+      parameters: [
+        {
+          name: "recordId",
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      get: {
+        tags: [tag],
+        summary: `Get a ${summary} record`,
+        responses: {
+          "200": responseFor(recordRef, "Record"),
+          "404": { description: "Record not found" },
+        },
+      },
+      put: {
+        tags: [tag],
+        summary: `Update a ${summary} record`,
+        requestBody: merge(requestBodyFor("changes", schemaName), {
+          content: {
+            "application/json": {
+              schema: {
+                properties: {
+                  original: {
+                    type: "object",
+                    description:
+                      "The values you loaded. The update is rejected if the record changed since then.",
+                  },
+                },
+              },
+            },
+          },
+        }),
+        responses: {
+          "200": responseFor({ type: "object" }, "Updated"),
+          "409": { description: "The record was changed by someone else" },
+        },
+      },
+      delete: {
+        tags: [tag],
+        summary: `Delete a ${summary} record`,
+        responses: {
+          "200": responseFor({ type: "object" }, "Deleted"),
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Generates the OpenAPI 3 document of the v1 records API for the given tables and views.
+ */
+export const generateOpenApiDocument = ({
+  title,
+  serverUrl,
+  resources,
+}: {
+  title: string;
+  serverUrl: string;
+  resources: OpenApiResource[];
+}) => ({
+  openapi: "3.0.3",
+  info: {
+    title: `${title} records API`,
+    version: "1.0.0",
+  },
+  servers: [{ url: serverUrl }],
+  security: [{ bearerAuth: [] }],
+  tags: uniq(resources.map(({ tag }) => tag)).map((name) => ({ name })),
+  paths: Object.assign(
+    {},
+    ...resources.map((resource) => pathsForResource(resource))
+  ),
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: "An organization API token.",
+      },
+    },
+    schemas: Object.fromEntries(
+      resources.map(({ schemaName, columns }) => [
+        schemaName,
+        schemaForColumns(columns),
+      ])
+    ),
+  },
+});
@@ -1,3 +1,4 @@
+import { ActivityFilters } from "@/features/activity/types";
 import { apiUrl } from "@/features/api/urls";
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
 import ApiResponse from "@/features/api/ApiResponse";
@@ -8,7 +9,7 @@ export const organizationsApiSlice = createApi({
   baseQuery: fetchBaseQuery({
     baseUrl: `${apiUrl}`,
   }),
-  tagTypes: ["Organization", "User"],
+  tagTypes: ["Organization", "User", "ApiToken"],
   endpoints(builder) {
     return {
       getOrganization: builder.query<
@@ -108,17 +109,23 @@ export const organizationsApiSlice = createApi({
       }),
       getActivities: builder.query<
         ApiResponse,
-        Partial<{ organizationId: string, page?: string, perPage?: string }>
+        Partial<{
+          organizationId: string;
+          page?: string;
+          perPage?: string;
+          filters?: ActivityFilters;
+        }>
       >({
-        query({ organizationId, page, perPage }) {
+        query({ organizationId, page, perPage, filters }) {
           const queryParams = URI()
-          .query({
-            organizationId,
-            page,
-            perPage
-          })
-          .query()
-          .toString();
+            .query({
+              organizationId,
+              page,
+              perPage,
+              ...filters,
+            })
+            .query()
+            .toString();
 
           return `/organizations/${organizationId}/activities?${queryParams}`;
         },
@@ -126,6 +133,36 @@ export const organizationsApiSlice = createApi({
           { type: "Organization", id: organizationId },
         ],
       }),
+      getApiTokens: builder.query<
+        ApiResponse,
+        Partial<{ organizationId: string }>
+      >({
+        query({ organizationId }) {
+          return `/organizations/${organizationId}/api-tokens`;
+        },
+        providesTags: [{ type: "ApiToken", id: "LIST" }],
+      }),
+      createApiToken: builder.mutation<
+        ApiResponse,
+        Partial<{ organizationId: string; body: { name: string } }>
+      >({
+        query: ({ organizationId, body }) => ({
+          url: `/organizations/${organizationId}/api-tokens`,
+          method: "POST",
+          body,
+        }),
+        invalidatesTags: [{ type: "ApiToken", id: "LIST" }],
+      }),
+      deleteApiToken: builder.mutation<
+        ApiResponse,
+        Partial<{ organizationId: string; apiTokenId: string }>
+      >({
+        query: ({ organizationId, apiTokenId }) => ({
+          url: `/organizations/${organizationId}/api-tokens/${apiTokenId}`,
+          method: "DELETE",
+        }),
+        invalidatesTags: [{ type: "ApiToken", id: "LIST" }],
+      }),
     };
   },
 });
@@ -139,4 +176,7 @@ export const {
   useUpdateOrganizationMutation,
   usePrefetch,
   useGetActivitiesQuery,
+  useGetApiTokensQuery,
+  useCreateApiTokenMutation,
+  useDeleteApiTokenMutation,
 } = organizationsApiSlice;
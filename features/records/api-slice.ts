@@ -1,5 +1,8 @@
+import { BasetoolRecord } from "./types";
 import { apiUrl } from "../api/urls";
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { getRecordId } from "./clientHelpers";
+import { isPlainObject } from "lodash";
 import ApiResponse from "../api/ApiResponse";
 import URI from "urijs";
 
@@ -8,7 +11,7 @@ export const recordsApiSlice = createApi({
   baseQuery: fetchBaseQuery({
     baseUrl: `${apiUrl}`,
   }),
-  tagTypes: ["Record"],
+  tagTypes: ["Record", "RecordActivity"],
   endpoints(builder) {
     return {
       getRecords: builder.query<
@@ -130,6 +133,137 @@ export const recordsApiSlice = createApi({
         }),
         invalidatesTags: (result, error, { recordId }) => [
           { type: "Record", id: recordId },
+          { type: "RecordActivity", id: recordId },
+        ],
+      }),
+      updateRecordValue: builder.mutation<
+        ApiResponse,
+        {
+          dataSourceId: string;
+          tableName: string;
+          recordId: string;
+          body: {
+            changes: Record<string, unknown>;
+            // The values the user loaded, to reject stale updates.
+            original?: Record<string, unknown>;
+          };
+        }
+      >({
+        query: ({ dataSourceId, tableName, recordId, body }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/records/${recordId}`,
+          method: "PUT",
+          body,
+        }),
+        invalidatesTags: (result, error, { recordId }) => [
+          { type: "RecordActivity", id: recordId },
+        ],
+        /**
+         * Inline edits patch the cached records instead of refetching them so the table doesn't reload between edits.
+         * Associations are displayed from the related record so those are refetched.
+         */
+        async onQueryStarted(
+          { recordId, body: { changes } },
+          { dispatch, getState, queryFulfilled }
+        ) {
+          try {
+            const { data: response } = await queryFulfilled;
+            if (!response?.ok) return;
+
+            let needsRefetch = false;
+            const patchRecord = (record?: Record<string, unknown>) => {
+              if (!record) return;
+
+              Object.entries(changes).forEach(([columnName, value]) => {
+                if (isPlainObject(record[columnName])) {
+                  needsRefetch = true;
+                } else {
+                  record[columnName] = value;
+                }
+              });
+            };
+
+            const { queries } = (getState() as any)[
+              recordsApiSlice.reducerPath
+            ];
+            Object.values(queries).forEach((query: any) => {
+              if (query?.endpointName === "getRecords") {
+                dispatch(
+                  recordsApiSlice.util.updateQueryData(
+                    "getRecords",
+                    query.originalArgs,
+                    (draft) => {
+                      patchRecord(
+                        draft?.data?.find(
+                          (record: BasetoolRecord) =>
+                            getRecordId(record, draft?.meta?.columns || []) ===
+                            recordId
+                        )
+                      );
+                    }
+                  )
+                );
+              } else if (
+                query?.endpointName === "getRecord" &&
+                query.originalArgs?.recordId === recordId
+              ) {
+                dispatch(
+                  recordsApiSlice.util.updateQueryData(
+                    "getRecord",
+                    query.originalArgs,
+                    (draft) => patchRecord(draft?.data)
+                  )
+                );
+              }
+            });
+
+            if (needsRefetch) {
+              dispatch(
+                recordsApiSlice.util.invalidateTags([
+                  { type: "Record", id: recordId },
+                ])
+              );
+            }
+          } catch (error) {}
+        },
+      }),
+      getRecordActivities: builder.query<
+        ApiResponse,
+        {
+          dataSourceId: string;
+          tableName: string;
+          recordId: string;
+        }
+      >({
+        query: ({ dataSourceId, tableName, recordId }) =>
+          `/data-sources/${dataSourceId}/tables/${tableName}/records/${recordId}/activities`,
+        providesTags: (result, error, { recordId }) => [
+          { type: "RecordActivity", id: recordId },
+        ],
+      }),
+      revertRecord: builder.mutation<
+        ApiResponse,
+        Partial<{
+          dataSourceId: string;
+          tableName: string;
+          viewId: string;
+          recordId: string;
+          body: {
+            activityId: number;
+            column?: string;
+            restore?: boolean;
+          };
+        }>
+      >({
+        query: ({ dataSourceId, tableName, viewId, recordId, body }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/records/${recordId}/revert${
+            viewId ? `?viewId=${viewId}` : ""
+          }`,
+          method: "PUT",
+          body,
+        }),
+        invalidatesTags: (result, error, { recordId }) => [
+          { type: "Record", id: recordId },
+          { type: "RecordActivity", id: recordId },
         ],
       }),
       deleteRecord: builder.mutation<
@@ -146,12 +280,27 @@ export const recordsApiSlice = createApi({
         }),
         invalidatesTags: [{ type: "Record", id: "LIST" }],
       }),
+      restoreDeletedRecords: builder.mutation<
+        ApiResponse,
+        Partial<{
+          dataSourceId: string;
+          tableName: string;
+          activityId: number;
+        }>
+      >({
+        query: ({ dataSourceId, tableName, activityId }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/records/restore`,
+          method: "POST",
+          body: { activityId },
+        }),
+        invalidatesTags: [{ type: "Record", id: "LIST" }],
+      }),
       deleteBulkRecords: builder.mutation<
         ApiResponse,
         Partial<{
           dataSourceId: string;
           tableName: string;
-          recordIds: number[];
+          recordIds: string[];
         }>
       >({
         query: ({ dataSourceId, tableName, recordIds }) => ({
@@ -161,6 +310,54 @@ export const recordsApiSlice = createApi({
         }),
         invalidatesTags: [{ type: "Record", id: "LIST" }],
       }),
+      updateBulkRecords: builder.mutation<
+        ApiResponse,
+        Partial<{
+          dataSourceId: string;
+          tableName: string;
+          viewId: string;
+          body: {
+            changes: Record<string, unknown>;
+            recordIds?: string[];
+            allRecords?: boolean;
+            filters?: string;
+          };
+        }>
+      >({
+        query: ({ dataSourceId, tableName, viewId, body }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/records/bulk${
+            viewId ? `?viewId=${viewId}` : ""
+          }`,
+          method: "PUT",
+          body,
+        }),
+        // Any of the cached records could have been changed.
+        invalidatesTags: ["Record", "RecordActivity"],
+      }),
+      importRecords: builder.mutation<
+        ApiResponse,
+        Partial<{
+          dataSourceId: string;
+          tableName: string;
+          viewId: string;
+          body: {
+            records: Record<string, unknown>[];
+            upsert?: boolean;
+            dryRun?: boolean;
+          };
+        }>
+      >({
+        query: ({ dataSourceId, tableName, viewId, body }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/records/import${
+            viewId ? `?viewId=${viewId}` : ""
+          }`,
+          method: "POST",
+          body,
+        }),
+        // A dry run doesn't change anything.
+        invalidatesTags: (result, error, { body }) =>
+          body?.dryRun ? [] : ["Record", "RecordActivity"],
+      }),
     };
   },
 });
@@ -171,7 +368,13 @@ export const {
   useGetRecordQuery,
   useCreateRecordMutation,
   useUpdateRecordMutation,
+  useUpdateRecordValueMutation,
+  useGetRecordActivitiesQuery,
+  useRevertRecordMutation,
   usePrefetch,
   useDeleteRecordMutation,
   useDeleteBulkRecordsMutation,
+  useUpdateBulkRecordsMutation,
+  useImportRecordsMutation,
+  useRestoreDeletedRecordsMutation,
 } = recordsApiSlice;
@@ -0,0 +1,60 @@
+import { Column } from "@/features/fields/types";
+import { decodeRecordId, encodeRecordId, getRecordId } from "./clientHelpers";
+
+const makeColumn = (name: string, primaryKey = false) =>
+  ({ name, primaryKey } as unknown as Column);
+
+describe("record ids", () => {
+  it("uses single primary keys as they are", () => {
+    expect(encodeRecordId([42])).toBe("42");
+    expect(decodeRecordId("42", 1)).toEqual(["42"]);
+  });
+
+  it("packs composite keys into a URL safe id and reads them back", () => {
+    const values = [7, "ünïcode/with+chars?", null];
+    const recordId = encodeRecordId(values);
+
+    expect(recordId).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeRecordId(recordId, 3)).toEqual(values);
+  });
+
+  it("refuses ids that don't hold as many values as the key", () => {
+    expect(() => decodeRecordId(encodeRecordId([1, 2]), 3)).toThrow(
+      "Invalid record id"
+    );
+    expect(() => decodeRecordId("not-base64!", 2)).toThrow("Invalid record id");
+  });
+
+  it("encodes the ids the same way where btoa and atob are missing", () => {
+    const { atob, btoa } = global;
+    const values = [7, "ünïcode/with+chars?", null];
+    const recordId = encodeRecordId(values);
+
+    try {
+      Object.assign(global, { atob: undefined, btoa: undefined });
+
+      expect(encodeRecordId(values)).toBe(recordId);
+      expect(decodeRecordId(recordId, 3)).toEqual(values);
+      expect(() => decodeRecordId("not-base64!", 2)).toThrow(
+        "Invalid record id"
+      );
+    } finally {
+      Object.assign(global, { atob, btoa });
+    }
+  });
+
+  it("builds the id from the primary key columns", () => {
+    const columns = [
+      makeColumn("order_id", true),
+      makeColumn("line", true),
+      makeColumn("sku"),
+    ];
+    const record = { order_id: 3, line: 1, sku: "A" };
+
+    expect(decodeRecordId(getRecordId(record, columns) as string, 2)).toEqual([
+      3, 1,
+    ]);
+    expect(getRecordId({ order_id: 3, line: null }, columns)).toBeUndefined();
+    expect(getRecordId({ id: 5 }, [makeColumn("name")])).toBe("5");
+  });
+});
@@ -1,7 +1,19 @@
 import { BasetoolRecord, PossibleRecordValues } from "@/features/records/types";
 import { Column } from "../fields/types"
 import { IFilter } from "../tables/types";
-import { isArray, isString } from "lodash";
+import {
+  isArray,
+  isEmpty,
+  isFunction,
+  isNil,
+  isString,
+  isUndefined,
+} from "lodash";
+import Joi, { SchemaLike } from "joi";
+import logger from "@/lib/logger";
+
+// Imports are sent in a single request so they run in a single transaction. The API accepts bodies up to this size.
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
 
 export const filtersForHasMany = (
   columnName: string,
@@ -55,3 +67,106 @@ export const getPrettyName = (
 
   return "";
 };
+
+/**
+ * Returns the names of the primary key columns. Falls back to `id` when the table doesn't report one.
+ */
+export const getPrimaryKeyColumnNames = (columns: Column[]): string[] => {
+  const primaryKeys = columns
+    .filter(({ primaryKey }) => primaryKey)
+    .map(({ name }) => name);
+
+  return isEmpty(primaryKeys) ? ["id"] : primaryKeys;
+};
+
+// The ids are also encoded on the server, where older Node versions don't have `btoa` and `atob`.
+const toBase64 = (bytes: Uint8Array): string =>
+  typeof btoa === "function"
+    ? btoa(String.fromCharCode(...Array.from(bytes)))
+    : Buffer.from(bytes).toString("base64");
+
+const fromBase64 = (value: string): Uint8Array => {
+  if (typeof atob === "function")
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value))
+    throw new Error("Invalid base64 value.");
+
+  return Uint8Array.from(Buffer.from(value, "base64"));
+};
+
+/**
+ * Single primary keys are used as they are. Composite ones are packed as a base64url encoded JSON array so they're safe to use in URLs.
+ */
+export const encodeRecordId = (values: unknown[]): string => {
+  if (values.length === 1) return String(values[0]);
+
+  const bytes = new TextEncoder().encode(JSON.stringify(values));
+
+  return toBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+export const decodeRecordId = (
+  recordId: string,
+  keysCount: number
+): unknown[] => {
+  if (keysCount === 1) return [recordId];
+
+  let values;
+  try {
+    const bytes = fromBase64(recordId.replace(/-/g, "+").replace(/_/g, "/"));
+    values = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {}
+
+  if (!isArray(values) || values.length !== keysCount) {
+    throw new Error(`Invalid record id ${recordId}.`);
+  }
+
+  return values;
+};
+
+/**
+ * Builds the id we use in the record URLs from the record's primary key values.
+ */
+export const getRecordId = (
+  record: BasetoolRecord,
+  columns: Column[]
+): string | undefined => {
+  const values = getPrimaryKeyColumnNames(columns).map((name) => record[name]);
+
+  if (values.some(isNil)) return;
+
+  return encodeRecordId(values);
+};
+
+/**
+ * Builds the validation schema of the record from the schemas of the field plugins.
+ */
+export const makeSchema = async (record: BasetoolRecord, columns: Column[]) => {
+  const schema: { [columnName: string]: SchemaLike } = {};
+
+  // eslint-disable-next-line no-restricted-syntax
+  for (const column of columns) {
+    let fieldSchema;
+
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      fieldSchema = (
+        await import(`@/plugins/fields/${column.fieldType}/schema`)
+      ).default;
+    } catch (error: any) {
+      if (error.code !== "MODULE_NOT_FOUND")
+        logger.warn("Error importing field schema->", error);
+      fieldSchema = Joi.any();
+    }
+    if (isFunction(fieldSchema)) {
+      schema[column.name] = fieldSchema(record, column);
+    } else if (!isUndefined(fieldSchema)) {
+      schema[column.name] = fieldSchema;
+    }
+  }
+
+  return Joi.object(schema);
+};
@@ -0,0 +1,159 @@
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Radio,
+  RadioGroup,
+} from "@chakra-ui/react";
+import { Column } from "@/features/fields/types";
+import { RecordConflict } from "../types";
+import { isEmpty, isNil, isObjectLike } from "lodash";
+import React, { memo, useEffect, useState } from "react";
+
+// Which value the user keeps for a column both of them changed.
+export type ConflictResolution = Record<string, "mine" | "theirs">;
+
+const formatValue = (value: unknown) => {
+  if (isNil(value)) return <span className="italic text-gray-400">empty</span>;
+  if (isObjectLike(value)) return JSON.stringify(value);
+
+  return String(value);
+};
+
+/**
+ * Lists the fields that changed since the user opened the record so they can pick what to keep before saving again.
+ */
+const ConflictDialog = ({
+  isOpen,
+  conflicts,
+  columns,
+  changes,
+  isLoading,
+  onClose,
+  onResolve,
+}: {
+  isOpen: boolean;
+  conflicts: RecordConflict[];
+  columns: Column[];
+  // The values the user is trying to save.
+  changes: Record<string, unknown>;
+  isLoading: boolean;
+  onClose: () => void;
+  onResolve: (resolution: ConflictResolution) => void;
+}) => {
+  const [resolution, setResolution] = useState<ConflictResolution>({});
+
+  // Keep the user's values unless they say otherwise.
+  useEffect(() => {
+    setResolution(
+      Object.fromEntries(
+        conflicts
+          .filter(({ column }) => column in changes)
+          .map(({ column }) => [column, "mine"])
+      )
+    );
+  }, [conflicts, changes]);
+
+  const getLabel = (columnName: string) =>
+    columns.find(({ name }) => name === columnName)?.label || columnName;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>This record was changed by someone else</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody className="space-y-4 text-sm">
+          {isEmpty(conflicts) && (
+            <div>
+              The record was saved since you opened it but none of the fields
+              you see changed.
+            </div>
+          )}
+          {!isEmpty(conflicts) && (
+            <>
+              <div>
+                These fields changed since you opened the record. Their values
+                will be kept unless you pick yours.
+              </div>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2">Field</th>
+                    <th className="pb-2">Their value</th>
+                    <th className="pb-2">Your value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflicts.map(({ column, current }) => (
+                    <tr key={column} className="align-top border-t">
+                      <td className="py-2 pr-2 font-semibold">
+                        {getLabel(column)}
+                      </td>
+                      {column in changes ? (
+                        <td colSpan={2} className="py-2">
+                          <RadioGroup
+                            size="sm"
+                            value={resolution[column]}
+                            onChange={(value) =>
+                              setResolution({
+                                ...resolution,
+                                [column]: value as "mine" | "theirs",
+                              })
+                            }
+                            className="flex"
+                          >
+                            <Radio value="theirs" className="w-1/2 pr-2">
+                              {formatValue(current)}
+                            </Radio>
+                            <Radio value="mine" className="w-1/2">
+                              {formatValue(changes[column])}
+                            </Radio>
+                          </RadioGroup>
+                        </td>
+                      ) : (
+                        <>
+                          <td className="py-2 pr-2">{formatValue(current)}</td>
+                          <td className="py-2 italic text-gray-400">
+                            Not changed by you
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </ModalBody>
+
+        <ModalFooter>
+          <Button
+            colorScheme="gray"
+            size="sm"
+            variant="outline"
+            mr={3}
+            onClick={onClose}
+          >
+            Keep editing
+          </Button>
+          <Button
+            colorScheme="blue"
+            size="sm"
+            isLoading={isLoading}
+            onClick={() => onResolve(resolution)}
+          >
+            Save
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default memo(ConflictDialog);
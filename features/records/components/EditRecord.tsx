@@ -55,7 +55,12 @@ const EditRecord = () => {
   );
 
   const { info } = useDataSourceResponse(dataSourceId);
-  const { canEdit } = useACLHelpers({ dataSourceInfo: info });
+  const { canEdit } = useACLHelpers({
+    dataSourceInfo: info,
+    dataSourceId,
+    tableName,
+    viewId,
+  });
 
   // Redirect to record page if the user can't edit
   useEffect(() => {
@@ -1,13 +1,14 @@
-import { BasetoolRecord } from "../types";
+import { BasetoolRecord, RecordConflict } from "../types";
 import { Button } from "@chakra-ui/button";
 import { Column } from "@/features/fields/types";
 import { PencilAltIcon } from "@heroicons/react/outline";
 import { Save } from "react-feather";
 import { diff as difference } from "deep-object-diff";
 import { getField } from "@/features/fields/factory";
-import { isFunction } from "lodash";
+import { isPlainObject } from "lodash";
 import { joiResolver } from "@hookform/resolvers/joi/dist/joi";
 import { makeField } from "@/features/fields";
+import { makeSchema } from "../clientHelpers";
 import { toast } from "react-toastify";
 import {
   useCreateRecordMutation,
@@ -17,39 +18,11 @@ import { useDataSourceContext } from "@/hooks";
 import { useForm } from "react-hook-form";
 import { useRouter } from "next/router";
 import BackButton from "./BackButton";
-import Joi, { ObjectSchema, SchemaLike } from "joi";
+import ConflictDialog, { ConflictResolution } from "./ConflictDialog";
+import Joi, { ObjectSchema } from "joi";
 import LoadingOverlay from "@/components/LoadingOverlay";
 import PageWrapper from "@/components/PageWrapper";
 import React, { memo, useEffect, useMemo, useState } from "react";
-import isUndefined from "lodash/isUndefined";
-import logger from "@/lib/logger";
-
-const makeSchema = async (record: BasetoolRecord, columns: Column[]) => {
-  const schema: { [columnName: string]: SchemaLike } = {};
-
-  // eslint-disable-next-line no-restricted-syntax
-  for (const column of columns) {
-    let fieldSchema;
-
-    try {
-      // eslint-disable-next-line no-await-in-loop
-      fieldSchema = (
-        await import(`@/plugins/fields/${column.fieldType}/schema`)
-      ).default;
-    } catch (error: any) {
-      if (error.code !== "MODULE_NOT_FOUND")
-        logger.warn("Error importing field schema->", error);
-      fieldSchema = Joi.any();
-    }
-    if (isFunction(fieldSchema)) {
-      schema[column.name] = fieldSchema(record, column);
-    } else if (!isUndefined(fieldSchema)) {
-      schema[column.name] = fieldSchema;
-    }
-  }
-
-  return Joi.object(schema);
-};
 
 // @todo: we should initialize the empty record based on the default values
 const Form = ({
@@ -105,6 +78,28 @@ const Form = ({
     );
   }, [record]);
 
+  // The values the user loaded, sent along with the changes so the server can reject stale updates.
+  const originalValues = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(record).map(([columnName, value]) => [
+          columnName,
+          // Associations are hydrated for every column, not only the visible ones.
+          isPlainObject(value) && "foreignId" in (value as any)
+            ? (value as any).foreignId
+            : value,
+        ])
+      ),
+    [record]
+  );
+  // Replaced with the stored record once the user resolves a conflict.
+  const [original, setOriginal] = useState<Record<string, unknown>>();
+  const [conflict, setConflict] = useState<{
+    conflicts: RecordConflict[];
+    record: Record<string, unknown>;
+    changes: Record<string, unknown>;
+  }>();
+
   const { register, handleSubmit, formState, setValue, getValues, watch } =
     useForm({
       mode: "onTouched",
@@ -141,7 +136,10 @@ const Form = ({
   const [createRecord, { isLoading: isCreating }] = useCreateRecordMutation();
   const [updateRecord, { isLoading: isUpdating }] = useUpdateRecordMutation();
 
-  const onSubmit = async (formData: any) => {
+  const saveRecord = async (
+    formData: any,
+    originalOverride?: Record<string, unknown>
+  ) => {
     let response;
 
     // Send only touched fields to de-risk fields that alter the content on load (datetime fields)
@@ -170,7 +168,7 @@ const Form = ({
             await router.push(`${recordsPath}/${id}`);
           }
         }
-      } else if (dataSourceId && tableName && record.id) {
+      } else if (dataSourceId && tableName && recordId) {
         const changes = Object.fromEntries(
           Object.entries(diff)
             .filter(([name]) => touchedFields.includes(name))
@@ -193,13 +191,27 @@ const Form = ({
         const response = await updateRecord({
           dataSourceId: dataSourceId,
           tableName: tableName,
-          recordId: record.id.toString(),
+          recordId,
           body: {
             changes,
+            original: originalOverride || original || originalValues,
           },
-        }).unwrap();
+        })
+          .unwrap()
+          .catch((error) => {
+            // Someone else saved the record in the meantime.
+            if (error?.status === 409 && error?.data?.data) {
+              setConflict({ ...error.data.data, changes });
+
+              return;
+            }
+
+            throw error;
+          });
 
         if (response?.ok) {
+          setConflict(undefined);
+
           return await router.push(backLink);
         }
       } else {
@@ -214,6 +226,31 @@ const Form = ({
     }
   };
 
+  const onSubmit = (formData: any) => saveRecord(formData);
+
+  // Take their values for the columns the user didn't change or chose not to keep, then save against the stored record.
+  const resolveConflict = (resolution: ConflictResolution) => {
+    if (!conflict) return;
+
+    conflict.conflicts
+      .filter(({ column }) => resolution[column] !== "mine")
+      .forEach(({ column, current }) => setValue(column, current));
+    setOriginal(conflict.record);
+
+    const keepsChanges = Object.keys(conflict.changes).some(
+      (columnName) => resolution[columnName] !== "theirs"
+    );
+
+    if (!keepsChanges) {
+      setConflict(undefined);
+      router.push(backLink);
+
+      return;
+    }
+
+    handleSubmit((formData) => saveRecord(formData, conflict.record))();
+  };
+
   const filteredColumns = useMemo(
     () => columns.filter((column) => column.baseOptions.computed !== true),
     [columns]
@@ -281,6 +318,17 @@ const Form = ({
           </div>
         </form>
       </PageWrapper>
+      {conflict && (
+        <ConflictDialog
+          isOpen
+          conflicts={conflict.conflicts}
+          columns={columns}
+          changes={conflict.changes}
+          isLoading={isUpdating}
+          onClose={() => setConflict(undefined)}
+          onResolve={resolveConflict}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,141 @@
+import { ActivityChanges } from "@/features/activity/components/ActivityItem";
+import { ActivityType } from "@/features/activity/types";
+import { Button } from "@chakra-ui/react";
+import { DateTime } from "luxon";
+import { REVERTIBLE_ACTIONS } from "@/features/activity/constants";
+import { isEmpty } from "lodash";
+import { toast } from "react-toastify";
+import { useDataSourceContext } from "@/hooks";
+import {
+  useGetRecordActivitiesQuery,
+  useRevertRecordMutation,
+} from "@/features/records/api-slice";
+import React, { memo, useMemo } from "react";
+
+const actionLabels: Record<string, string> = {
+  create: "created the record",
+  update: "updated the record",
+  revert: "reverted changes",
+  restore: "restored the deleted record",
+};
+
+const RecordHistory = ({
+  dataSourceId,
+  tableName,
+  recordId,
+  canEdit = false,
+}: {
+  dataSourceId: string;
+  tableName: string;
+  recordId: string;
+  canEdit?: boolean;
+}) => {
+  const { data: activitiesResponse, isFetching } = useGetRecordActivitiesQuery(
+    { dataSourceId, tableName, recordId },
+    { skip: !dataSourceId || !tableName || !recordId }
+  );
+  const { viewId } = useDataSourceContext();
+  const [revertRecord, { isLoading: isReverting }] = useRevertRecordMutation();
+
+  const activities: ActivityType[] = useMemo(
+    () => (activitiesResponse?.ok ? activitiesResponse.data : []),
+    [activitiesResponse]
+  );
+
+  const revert = async (body: {
+    activityId: number;
+    column?: string;
+    restore?: boolean;
+  }) => {
+    const message = body.restore
+      ? "Are you sure you want to restore the record to this point?"
+      : "Are you sure you want to revert this change?";
+
+    if (confirm(message)) {
+      const response = await revertRecord({
+        dataSourceId,
+        tableName,
+        viewId,
+        recordId,
+        body,
+      });
+
+      // The record was changed since the activity, so reverting it would overwrite the newer values.
+      if ("error" in response) {
+        const error = response.error as any;
+        if (error?.status === 409) toast.error(error?.data?.messages?.[0]);
+      }
+    }
+  };
+
+  if (isEmpty(activities)) {
+    return (
+      <div className="text-sm text-gray-600">
+        {isFetching ? "Loading..." : "No changes recorded yet."}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y text-sm">
+      {activities.map((activity, idx) => {
+        const userName =
+          activity.user.firstName && activity.user.lastName
+            ? `${activity.user.firstName} ${activity.user.lastName}`
+            : activity.user.email;
+        const isRevertible =
+          canEdit && REVERTIBLE_ACTIONS.includes(activity.action);
+
+        return (
+          <li key={activity.id} className="py-2 space-y-2">
+            <div className="flex justify-between items-center space-x-2">
+              <div>
+                <span className="font-semibold">{userName}</span>{" "}
+                {actionLabels[activity.action] || activity.action}{" "}
+                <span className="text-gray-500">
+                  {DateTime.fromISO(activity.createdAt.toString()).toRelative()}
+                </span>
+              </div>
+              {canEdit && idx > 0 && activity.action !== "delete" && (
+                <Button
+                  size="xs"
+                  isLoading={isReverting}
+                  onClick={() =>
+                    revert({ activityId: activity.id, restore: true })
+                  }
+                >
+                  Restore to this point
+                </Button>
+              )}
+            </div>
+            <ActivityChanges
+              changes={activity.changes as Record<string, any>[]}
+              actions={
+                isRevertible
+                  ? (change) => (
+                      <Button
+                        size="xs"
+                        variant="link"
+                        colorScheme="blue"
+                        isDisabled={isReverting}
+                        onClick={() =>
+                          revert({
+                            activityId: activity.id,
+                            column: change.column,
+                          })
+                        }
+                      >
+                        Revert
+                      </Button>
+                    )
+                  : undefined
+              }
+            />
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default memo(RecordHistory);
@@ -1,16 +1,20 @@
 import { Button, ButtonGroup } from "@chakra-ui/react";
 import { PencilAltIcon, PlusIcon } from "@heroicons/react/outline";
-import { columnsSelector } from "../state-slice";
 import { humanize } from "@/lib/humanize";
 import { useACLHelpers } from "@/features/authorization/hooks";
-import { useAppSelector, useDataSourceContext } from "@/hooks";
 import { useBoolean, useClickAway } from "react-use";
+import { useDataSourceContext } from "@/hooks";
 import { useDataSourceResponse } from "@/features/data-sources/hooks";
+import { useRecordIds } from "@/features/records/hooks";
 import { useViewResponse } from "@/features/views/hooks";
 import BulkDeleteButton from "@/features/tables/components/BulkDeleteButton";
+import BulkEditButton from "@/features/tables/components/BulkEditButton";
 import CursorPagination from "@/features/tables/components/CursorPagination";
+import DatabaseViewControls from "@/features/tables/components/DatabaseViewControls";
+import ExportButton from "@/features/tables/components/ExportButton";
 import FiltersButton from "@/features/tables/components/FiltersButton";
 import FiltersPanel from "@/features/tables/components/FiltersPanel";
+import ImportButton from "@/features/tables/components/ImportButton";
 import Layout from "@/components/Layout";
 import Link from "next/link";
 import LoadingOverlay from "@/components/LoadingOverlay";
@@ -45,12 +49,8 @@ const RecordsIndexPage = ({
     }
   });
 
-  // We need to find out if it has Id column for the visibility of delete bulk and create buttons (footer).
-  const rawColumns = useAppSelector(columnsSelector);
-  const hasIdColumn = useMemo(
-    () => rawColumns.find((col) => col.name === "id"),
-    [rawColumns]
-  );
+  // We need to find out if it has the primary key columns for the visibility of delete bulk and create buttons (footer).
+  const { hasPrimaryKey } = useRecordIds();
 
   const headingText = useMemo(() => {
     if (view) {
@@ -74,8 +74,14 @@ const RecordsIndexPage = ({
     }
   }, [info?.pagination]);
 
-  const { canBulkDelete, canCreate, canCreateView, canEditView } =
-    useACLHelpers({ dataSourceInfo: info, viewId });
+  const {
+    canBulkDelete,
+    canCreate,
+    canCreateView,
+    canEdit,
+    canEditView,
+    isOwner,
+  } = useACLHelpers({ dataSourceInfo: info, dataSourceId, tableName, viewId });
 
   const CreateButton = () => {
     if (!newRecordPath) return null;
@@ -133,15 +139,30 @@ const RecordsIndexPage = ({
           <ButtonGroup size="xs">
             {canCreateView && <CreateViewButton />}
             {canEditView && viewId && <EditViewButton />}
+            <ExportButton />
+            {canCreate && info?.supports?.bulkCreate && (
+              <ImportButton
+                canUpsert={canEdit && info.supports.upsert && !viewId}
+              />
+            )}
+            {isOwner && !viewId && (
+              <DatabaseViewControls
+                dataSourceId={dataSourceId}
+                tableName={tableName}
+              />
+            )}
           </ButtonGroup>
         }
         footer={
-          hasIdColumn && (
+          hasPrimaryKey ? (
             <PageWrapper.Footer
               left={canBulkDelete && <BulkDeleteButton />}
               center={canCreate && <CreateButton />}
+              right={
+                canEdit && info?.supports?.bulkUpdate && <BulkEditButton />
+              }
             />
-          )
+          ) : undefined
         }
       >
         <div className="relative flex flex-col flex-1 w-full h-full">
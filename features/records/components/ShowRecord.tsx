@@ -25,6 +25,7 @@ import Link from "next/link";
 import LoadingOverlay from "@/components/LoadingOverlay";
 import PageWrapper from "@/components/PageWrapper";
 import React, { memo, useEffect, useMemo } from "react";
+import RecordHistory from "@/features/records/components/RecordHistory";
 import isEmpty from "lodash/isEmpty";
 
 const ShowRecord = () => {
@@ -90,7 +91,7 @@ const ShowRecord = () => {
       const response = await deleteRecord({
         dataSourceId: dataSourceId,
         tableName: tableName,
-        recordId: record.id.toString(),
+        recordId,
       }).unwrap();
 
       if (response?.ok) router.push(tableIndexPath);
@@ -99,6 +100,9 @@ const ShowRecord = () => {
 
   const { canView, canEdit, canDelete } = useACLHelpers({
     dataSourceInfo: info,
+    dataSourceId,
+    tableName,
+    viewId,
   });
 
   // Redirect to record page if the user can't read
@@ -124,7 +128,7 @@ const ShowRecord = () => {
   );
 
   const EditButton = () => (
-    <Link href={`${recordsPath}/${record.id}/edit`} passHref>
+    <Link href={`${recordsPath}/${recordId}/edit`} passHref>
       <Button
         as="a"
         colorScheme="blue"
@@ -141,7 +145,7 @@ const ShowRecord = () => {
     <>
       <Layout>
         <Head>
-          <title>View record {recordResponse?.data?.id} | 👋 Hi!</title>
+          <title>View record {recordId} | 👋 Hi!</title>
         </Head>
         {isLoading && (
           <LoadingOverlay transparent={isEmpty(recordResponse?.data)} />
@@ -183,6 +187,19 @@ const ShowRecord = () => {
 
                     return <Element key={column.name} field={field} />;
                   })}
+                {record && (
+                  <div className="border-t px-4 py-4 space-y-2">
+                    <div className="uppercase font-semibold text-sm">
+                      History
+                    </div>
+                    <RecordHistory
+                      dataSourceId={dataSourceId}
+                      tableName={tableName}
+                      recordId={recordId}
+                      canEdit={canEdit}
+                    />
+                  </div>
+                )}
               </>
             </PageWrapper>
           </>
@@ -1,3 +1,4 @@
+import { BasetoolRecord } from "./types";
 import { Column } from "../fields/types"
 import { IFilter, IFilterGroup, OrderDirection } from "@/features/tables/types";
 import { TableState } from "react-table";
@@ -36,11 +37,12 @@ import {
   toggleRecordSelection as toggleRecordSelectionInState,
   updateFilter,
 } from "@/features/records/state-slice";
+import { getPrimaryKeyColumnNames, getRecordId } from "./clientHelpers";
 import { getVisibleColumns } from "../fields";
 import { isEqual, isNull, isString, merge } from "lodash";
 import { localStorageColumnWidthsKey } from "@/features/tables";
 import { useAppDispatch, useAppSelector } from "@/hooks";
-import { useEffect } from "react";
+import { useCallback, useEffect } from "react";
 import { useMemo } from "react";
 import { useRouter } from "next/router";
 import ApiResponse from "@/features/api/ApiResponse";
@@ -104,6 +106,31 @@ export const useFilters = () => {
   };
 };
 
+/**
+ * Builds the ids used in the record URLs from the primary key columns of the current table.
+ */
+export const useRecordIds = () => {
+  const columns = useAppSelector(columnsSelector);
+
+  const hasPrimaryKey = useMemo(
+    () =>
+      getPrimaryKeyColumnNames(columns).every((name) =>
+        columns.some((column) => column.name === name)
+      ),
+    [columns]
+  );
+
+  const getIdForRecord = useCallback(
+    (record: BasetoolRecord) => getRecordId(record, columns),
+    [columns]
+  );
+
+  return {
+    hasPrimaryKey,
+    getRecordId: getIdForRecord,
+  };
+};
+
 export const useSelectRecords = () => {
   const dispatch = useAppDispatch();
   const selectedRecords = useAppSelector(selectedRecordsSelector);
@@ -111,11 +138,11 @@ export const useSelectRecords = () => {
   const selectAllIsIndeterminate =
     selectedRecords.length > 0 && !allColumnsChecked;
 
-  const toggleRecordSelection = (value: number) => {
+  const toggleRecordSelection = (value: string) => {
     dispatch(toggleRecordSelectionInState(value));
   };
 
-  const setRecordsSelected = (values: number[]) => {
+  const setRecordsSelected = (values: string[]) => {
     dispatch(setRecordsSelectedInState(values));
   };
 
@@ -371,6 +398,12 @@ export const useCursorPagination = () => {
   const firstRecordId = useAppSelector(firstRecordIdSelector);
   const lastRecordId = useAppSelector(lastRecordIdSelector);
   const hasMore = useMemo(() => meta?.hasMore === true, [meta?.hasMore]);
+  // Some data sources (Redis' SCAN) give us a cursor that can only move forward.
+  const nextCursor = useMemo(() => {
+    const cursor = meta?.nextCursor;
+
+    return isString(cursor) ? cursor : undefined;
+  }, [meta?.nextCursor]);
 
   const [canNextPage, canPreviousPage] = useMemo(() => {
     let canNext = hasMore;
@@ -392,22 +425,29 @@ export const useCursorPagination = () => {
   const nextPageLink = useMemo(() => {
     const uri = URI(router.asPath);
     uri.setQuery({
-      startingAfter: lastRecordId,
+      startingAfter: nextCursor || lastRecordId,
     });
     uri.removeQuery("endingBefore");
 
     return uri.toString();
-  }, [router.query, lastRecordId]);
+  }, [router.query, lastRecordId, nextCursor]);
 
   const previousPageLink = useMemo(() => {
     const uri = URI(router.asPath);
+    // A forward-only cursor can't go back a page so we go back to the first one.
+    if (nextCursor) {
+      uri.removeQuery("startingAfter");
+
+      return uri.toString();
+    }
+
     uri.setQuery({
       endingBefore: firstRecordId,
     });
     uri.removeQuery("startingAfter");
 
     return uri.toString();
-  }, [router.query, firstRecordId]);
+  }, [router.query, firstRecordId, nextCursor]);
 
   return {
     nextPageLink,
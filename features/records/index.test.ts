@@ -0,0 +1,213 @@
+import { Column } from "@/features/fields/types";
+import {
+  filterOutRecordColumns,
+  getRecordConflicts,
+  getRestrictedColumnNames,
+  getUpdateConditions,
+  prepareImportedRecords,
+  restrictColumns,
+} from ".";
+
+jest.mock("@/plugins/data-sources/serverHelpers", () => ({
+  runQuery: jest.fn(),
+}));
+
+const makeColumn = (
+  name: string,
+  attributes: Partial<Column> = {},
+  baseOptions: Partial<Column["baseOptions"]> = {}
+) =>
+  ({
+    name,
+    label: name,
+    fieldType: "Text",
+    fieldOptions: {},
+    ...attributes,
+    baseOptions: {
+      nullable: false,
+      nullValues: [],
+      required: false,
+      readonly: false,
+      disconnected: false,
+      computed: false,
+      ...baseOptions,
+    },
+  } as Column);
+
+describe("column permissions", () => {
+  const columns = [
+    makeColumn("id", { primaryKey: true, fieldType: "Id" }),
+    makeColumn("email"),
+    makeColumn("salary"),
+  ];
+  const columnPermissions = {
+    email: "readonly" as const,
+    salary: "hidden" as const,
+  };
+
+  it("removes the hidden columns and locks the read-only ones", () => {
+    const restricted = restrictColumns(columns, columnPermissions);
+
+    expect(restricted.map(({ name }) => name)).toEqual(["id", "email"]);
+    expect(restricted[1].baseOptions.readonly).toBe(true);
+    expect(restricted[0].baseOptions.readonly).toBe(false);
+  });
+
+  it("removes the hidden columns from the records", () => {
+    expect(
+      filterOutRecordColumns(
+        [{ id: 1, email: "jane@example.com", salary: 100 }],
+        columns,
+        columnPermissions
+      )
+    ).toEqual([{ id: 1, email: "jane@example.com" }]);
+  });
+
+  it("doesn't let the role write hidden or read-only columns", () => {
+    expect(
+      getRestrictedColumnNames(
+        { id: 2, email: "john@example.com", salary: 200 },
+        columnPermissions
+      )
+    ).toEqual(["email", "salary"]);
+  });
+});
+
+describe("prepareImportedRecords", () => {
+  const makeKeyColumn = (name: string, type: string) =>
+    makeColumn(name, {
+      fieldType: "Id",
+      dataSourceInfo: { type, nullable: true } as Column["dataSourceInfo"],
+    });
+
+  it("converts the keys of integer columns to numbers", async () => {
+    const { records, errors } = await prepareImportedRecords(
+      [{ id: "42" }],
+      [makeKeyColumn("id", "integer")]
+    );
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([{ id: 42 }]);
+  });
+
+  it("keeps the integer keys that don't fit in a number as text", async () => {
+    const { records } = await prepareImportedRecords(
+      [{ id: "9007199254740993" }],
+      [makeKeyColumn("id", "bigint")]
+    );
+
+    expect(records).toEqual([{ id: "9007199254740993" }]);
+  });
+
+  it("keeps the keys of text columns as they are", async () => {
+    const { records } = await prepareImportedRecords(
+      [{ code: "00123" }],
+      [makeKeyColumn("code", "varchar")]
+    );
+
+    expect(records).toEqual([{ code: "00123" }]);
+  });
+
+  it("reports the keys that aren't integers", async () => {
+    const { errors } = await prepareImportedRecords(
+      [{ id: "1.5" }],
+      [makeKeyColumn("id", "int4")]
+    );
+
+    expect(errors).toEqual([
+      { row: 1, messages: ['"1.5" is not a valid Id value for id.'] },
+    ]);
+  });
+});
+
+describe("getRecordConflicts", () => {
+  const original = {
+    id: 1,
+    name: "Jane",
+    email: "jane@example.com",
+    updated_at: "2021-12-20T10:00:00.000Z",
+  };
+
+  it("isn't stale when nothing changed since the record was loaded", () => {
+    expect(
+      getRecordConflicts({
+        original,
+        current: {
+          ...original,
+          id: "1",
+          updated_at: new Date("2021-12-20T10:00:00.000Z"),
+        },
+        changedColumnNames: ["name"],
+        updatedAtColumn: "updated_at",
+      })
+    ).toEqual({ isStale: false, conflicts: [] });
+  });
+
+  it("reports the columns someone else changed", () => {
+    const current = {
+      ...original,
+      name: "Janet",
+      updated_at: "2021-12-20T11:00:00.000Z",
+    };
+
+    expect(
+      getRecordConflicts({
+        original,
+        current,
+        changedColumnNames: ["email"],
+        updatedAtColumn: "updated_at",
+      })
+    ).toEqual({
+      isStale: true,
+      conflicts: [{ column: "name", original: "Jane", current: "Janet" }],
+    });
+  });
+
+  it("only compares the changed columns without an updated at column", () => {
+    const current = { ...original, name: "Janet" };
+
+    expect(
+      getRecordConflicts({ original, current, changedColumnNames: ["email"] })
+        .isStale
+    ).toBe(false);
+    expect(
+      getRecordConflicts({ original, current, changedColumnNames: ["name"] })
+        .isStale
+    ).toBe(true);
+  });
+});
+
+describe("getUpdateConditions", () => {
+  it("keeps the values that compare reliably in the database and sends the dates as ISO strings", () => {
+    expect(
+      getUpdateConditions(
+        {
+          name: "Jane",
+          age: 30,
+          score: 1.5,
+          active: true,
+          deleted_at: null,
+          updated_at: new Date("2021-03-04T05:06:07.089Z"),
+          meta: { plan: "pro" },
+          email: "jane@example.com",
+        },
+        [
+          "name",
+          "age",
+          "score",
+          "active",
+          "deleted_at",
+          "updated_at",
+          "meta",
+          "missing",
+        ]
+      )
+    ).toEqual({
+      name: "Jane",
+      age: 30,
+      active: true,
+      deleted_at: null,
+      updated_at: "2021-03-04T05:06:07.089Z",
+    });
+  });
+});
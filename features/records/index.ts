@@ -1,26 +1,58 @@
-import { BasetoolRecord, PossibleRecordValues } from "./types";
-import { Column } from "@/features/fields/types";
+import {
+  BasetoolRecord,
+  ImportError,
+  PossibleRecordValues,
+  RecordConflict,
+} from "./types";
+import { Column, ColumnRolePermission } from "@/features/fields/types";
 import { DataSource } from "@prisma/client";
 import {
   LinkToValueFieldOptions,
   LinkToValueItem,
 } from "@/plugins/fields/LinkTo/types";
 import { TableMetaData } from "../data-sources/types";
-import { filtersForHasMany, getPrettyName } from "./clientHelpers";
-import { getConnectedColumns } from "@/features/fields";
-import { isArray, isEmpty, isString, merge, uniq } from "lodash";
+import {
+  encodeRecordId,
+  filtersForHasMany,
+  getPrettyName,
+  getPrimaryKeyColumnNames,
+  getRecordId,
+  makeSchema,
+} from "./clientHelpers";
+import { getConnectedColumns, isIntegerColumn } from "@/features/fields";
+import {
+  isArray,
+  isBoolean,
+  isDate,
+  isEmpty,
+  isNil,
+  isNumber,
+  isObjectLike,
+  isPlainObject,
+  isString,
+  mapValues,
+  merge,
+  pick,
+  pickBy,
+  uniq,
+} from "lodash";
 import { runQuery } from "@/plugins/data-sources/serverHelpers";
 import Handlebars from "handlebars";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
 
 /**
- * This method will filter out record fields that are disconnected.
+ * This method will filter out record fields that are disconnected or hidden for the user's role.
  */
-export const filterOutRecordColumns = (records: any, columns: Column[]) => {
+export const filterOutRecordColumns = (
+  records: any,
+  columns: Column[],
+  columnPermissions: Record<string, ColumnRolePermission> = {}
+) => {
   return records.map((record: Record<string, unknown>) => {
     // Get the filtered column names.
-    const filteredColumnNames = getConnectedColumns(columns).map(
-      ({ name }) => name
-    );
+    const filteredColumnNames = getConnectedColumns(
+      restrictColumns(columns, columnPermissions)
+    ).map(({ name }) => name);
 
     // Filter out the columns that were hidden
     // Go into each record and remove the filtered out columns.
@@ -34,6 +66,250 @@ export const filterOutRecordColumns = (records: any, columns: Column[]) => {
   });
 };
 
+/**
+ * Removes the columns hidden for the user's role and marks the read-only ones.
+ */
+export const restrictColumns = (
+  columns: Column[],
+  columnPermissions: Record<string, ColumnRolePermission> = {}
+): Column[] =>
+  columns
+    .filter(({ name }) => columnPermissions[name] !== "hidden")
+    .map((column) =>
+      columnPermissions[column.name] === "readonly"
+        ? {
+            ...column,
+            baseOptions: { ...column.baseOptions, readonly: true },
+          }
+        : column
+    );
+
+/**
+ * Returns the names of the columns the user's role is not allowed to write.
+ */
+export const getRestrictedColumnNames = (
+  data: Record<string, unknown>,
+  columnPermissions: Record<string, ColumnRolePermission> = {}
+): string[] =>
+  Object.keys(data).filter((columnName) =>
+    ["hidden", "readonly"].includes(columnPermissions[columnName])
+  );
+
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+const INTEGER_REGEX = /^-?\d+$/;
+const TRUE_VALUES = ["true", "t", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "f", "no", "n", "0"];
+
+/**
+ * Converts a value read from an imported file to the type of the column.
+ * Returns `undefined` when the value can't be converted.
+ */
+const coerceImportedValue = (value: unknown, column: Column): unknown => {
+  if (isNil(value) || value === "") {
+    // Text columns that aren't nullable keep the empty value.
+    return ["Text", "Textarea"].includes(column.fieldType) &&
+      !column.dataSourceInfo?.nullable
+      ? ""
+      : null;
+  }
+
+  const text = String(value).trim();
+
+  switch (column.fieldType) {
+    case "Number":
+    case "ProgressBar":
+      if (isNumber(value)) return value;
+
+      return NUMBER_REGEX.test(text) ? Number(text) : undefined;
+    case "Id":
+    case "Association":
+      // Only integer keys become numbers so `00123` and big ids stay intact.
+      if (!isIntegerColumn(column)) return text;
+      if (!INTEGER_REGEX.test(text)) return undefined;
+
+      return Number.isSafeInteger(Number(text)) ? Number(text) : text;
+    case "Boolean":
+      if (isBoolean(value)) return value;
+      if (TRUE_VALUES.includes(text.toLowerCase())) return true;
+      if (FALSE_VALUES.includes(text.toLowerCase())) return false;
+
+      return undefined;
+    case "DateTime": {
+      const date = new Date(text);
+
+      return isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+    case "Json":
+      if (!isString(value)) return value;
+
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        return undefined;
+      }
+    default:
+      return isString(value) ? value : JSON.stringify(value);
+  }
+};
+
+/**
+ * Converts the imported records to the types of the columns and validates them with the schemas of the fields.
+ * The records are expected to be keyed by column name already.
+ */
+export const prepareImportedRecords = async (
+  rawRecords: Record<string, unknown>[],
+  columns: Column[]
+): Promise<{ records: Record<string, unknown>[]; errors: ImportError[] }> => {
+  const errors: ImportError[] = [];
+  const records: Record<string, unknown>[] = [];
+
+  const columnNames = uniq(rawRecords.flatMap((record) => Object.keys(record)));
+  const importedColumns = columns.filter(({ name }) =>
+    columnNames.includes(name)
+  );
+  const schema = await makeSchema({}, importedColumns);
+
+  rawRecords.forEach((rawRecord, idx) => {
+    const messages: string[] = [];
+    const record: Record<string, unknown> = {};
+
+    for (const column of importedColumns) {
+      if (!(column.name in rawRecord)) continue;
+
+      const value = coerceImportedValue(rawRecord[column.name], column);
+
+      if (value === undefined) {
+        messages.push(
+          `"${rawRecord[column.name]}" is not a valid ${
+            column.fieldType
+          } value for ${column.label}.`
+        );
+      } else {
+        record[column.name] = value;
+      }
+    }
+
+    const { error } = schema.validate(record, {
+      abortEarly: false,
+      allowUnknown: true,
+    });
+
+    if (error) messages.push(...error.details.map(({ message }) => message));
+    if (!isEmpty(messages)) errors.push({ row: idx + 1, messages });
+
+    records.push(record);
+  });
+
+  return { records, errors };
+};
+
+/**
+ * Returns the value users see in the records table for the column. Used for exports.
+ */
+export const getDisplayValue = (value: unknown, column: Column): unknown => {
+  if (isNil(value)) return null;
+  if (isDate(value)) return value.toISOString();
+
+  switch (column.fieldType) {
+    case "Association":
+      return isPlainObject(value) ? (value as { value: unknown }).value : value;
+    case "LinkTo":
+      return isArray(value)
+        ? (value as LinkToValueItem[]).map(({ label }) => label).join(", ")
+        : value;
+    default:
+      return value;
+  }
+};
+
+// The values come as JSON from the client so dates are strings and association ids may be strings too.
+const normalizeComparedValue = (value: unknown) => {
+  if (isNil(value)) return null;
+  if (isDate(value)) return value.toISOString();
+  if (isObjectLike(value)) return JSON.stringify(value);
+
+  return String(value);
+};
+
+/**
+ * Tells if the records of the table can't be written, either because the data source is read-only or the table is a database view.
+ */
+export const isReadOnlyTable = async (
+  dataSource: DataSource,
+  tableName: string
+): Promise<boolean> => {
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+  const options = dataSource.options as { allowEdits?: boolean } | null;
+
+  if (dataSourceInfo?.readOnly && !options?.allowEdits) return true;
+
+  const tables: { name: string; readOnly?: boolean }[] = await runQuery(
+    dataSource,
+    "getTables"
+  );
+
+  return Boolean(tables.find(({ name }) => name === tableName)?.readOnly);
+};
+
+/**
+ * Compares the values the user loaded with the stored ones to find out if someone else changed the record in the meantime.
+ * When the table has an `updatedAtColumn` any save in between makes the update stale, otherwise only the changed columns are compared.
+ */
+export const getRecordConflicts = ({
+  original,
+  current,
+  changedColumnNames,
+  updatedAtColumn,
+}: {
+  original: Record<string, unknown>;
+  current: Record<string, unknown>;
+  changedColumnNames: string[];
+  updatedAtColumn?: string;
+}): { isStale: boolean; conflicts: RecordConflict[] } => {
+  const hasChanged = (columnName: string) =>
+    columnName in original &&
+    columnName in current &&
+    normalizeComparedValue(original[columnName]) !==
+      normalizeComparedValue(current[columnName]);
+
+  // Not every database bumps the timestamp on its own so the changed columns are compared too.
+  const isStale =
+    (!isNil(updatedAtColumn) && hasChanged(updatedAtColumn)) ||
+    changedColumnNames.some(hasChanged);
+
+  const conflicts = Object.keys(original)
+    .filter((columnName) => columnName !== updatedAtColumn)
+    .filter(hasChanged)
+    .map((columnName) => ({
+      column: columnName,
+      original: original[columnName],
+      current: current[columnName],
+    }));
+
+  return { isStale, conflicts };
+};
+
+/**
+ * Picks the stored values an update can be conditioned on so it doesn't overwrite a save made in the meantime.
+ * Dates are sent as ISO strings. JSON and fractional numbers are left out because they don't compare reliably once they went through the database drivers.
+ */
+export const getUpdateConditions = (
+  record: Record<string, unknown>,
+  columnNames: string[]
+): Record<string, unknown> =>
+  mapValues(
+    pickBy(
+      pick(record, columnNames),
+      (value) =>
+        value === null ||
+        isString(value) ||
+        isBoolean(value) ||
+        isDate(value) ||
+        Number.isSafeInteger(value)
+    ),
+    (value) => (isDate(value) ? value.toISOString() : value)
+  );
+
 /**
  * This method will hydrate the records with the computed fields and associations.
  */
@@ -63,10 +339,18 @@ export const hydrateRecords = async (
     (column: Column) => column.fieldType === "LinkTo"
   ) as Column<Record<string, unknown>, LinkToValueFieldOptions>[];
 
+  // The linked records point to the primary key of this table.
+  // Composite keys can't be referenced by a single column so we assume the `id` part of the key is used.
+  const primaryKeys = getPrimaryKeyColumnNames(columns);
+  const localKey = primaryKeys.length === 1 ? primaryKeys[0] : "id";
+
   // Extrct all LinkTo columns
   const linkToAssociationsByColumnName: {
     [columnName: string]: BasetoolRecord[];
   } = {};
+  const linkToPrimaryKeysByColumnName: {
+    [columnName: string]: string[];
+  } = {};
 
   for (const column of linkToColumns) {
     const { tableName, columnName } = column.fieldOptions;
@@ -76,6 +360,7 @@ export const hydrateRecords = async (
       hydratedRecords,
       tableName,
       columnName,
+      localKey,
       dataSource
     );
 
@@ -84,6 +369,10 @@ export const hydrateRecords = async (
     linkedRecords.map((record) =>
       linkToAssociationsByColumnName[columnName].push(record)
     );
+    linkToPrimaryKeysByColumnName[columnName] = await getPrimaryKeyColumns(
+      dataSource,
+      tableName
+    );
   }
 
   // Add them to the records
@@ -107,15 +396,24 @@ export const hydrateRecords = async (
 
           const associations = linkToAssociationsByColumnName[
             column.fieldOptions.columnName
-          ]?.filter((rec) => rec[column.fieldOptions.columnName] === record.id);
+          ]?.filter(
+            (rec) => rec[column.fieldOptions.columnName] === record[localKey]
+          );
+          const foreignPrimaryKeys =
+            linkToPrimaryKeysByColumnName[column.fieldOptions.columnName];
 
           record[column.name] = associations.map((association) => {
             const label = getPrettyName(association, nameColumn);
 
             return {
-              id: parseInt(association.id as string),
+              id: encodeRecordId(
+                foreignPrimaryKeys.map((name) => association[name])
+              ),
               label,
-              foreignId: parseInt(record.id as string),
+              foreignId: getRecordId(
+                record as BasetoolRecord,
+                columns
+              ) as string,
               foreignTable: tableName,
               dataSourceId: dataSource.id,
               foreignColumnName: column.fieldOptions.columnName,
@@ -153,10 +451,10 @@ const getLinkedRecords = async (
   records: BasetoolRecord[],
   tableName: string,
   columnName: string,
+  localKey: string,
   dataSource: DataSource
 ): Promise<BasetoolRecord[]> => {
-  // @todo: support custom localKey not just id
-  const foreignIds = records.map((record: any) => record.id);
+  const foreignIds = records.map((record: any) => record[localKey]);
 
   const filters = filtersForHasMany(
     columnName,
@@ -183,10 +481,15 @@ const hydrateAssociations = async (
   for (const column of associationColumns) {
     const foreignIds = records.map((record: any) => record[column.name]);
     const foreignTableName = column.foreignKeyInfo.foreignTableName as string;
+    const foreignColumnName = column.foreignKeyInfo.foreignColumnName || "id";
+    const foreignPrimaryKeys = await getPrimaryKeyColumns(
+      dataSource,
+      foreignTableName
+    );
 
     const filters: Record<string, any> = [
       {
-        columnName: "id",
+        columnName: foreignColumnName,
         condition: "is_in",
         value: uniq(foreignIds).filter(Boolean).toString(),
         verb: "and",
@@ -205,7 +508,8 @@ const hydrateAssociations = async (
     hydratedRecordsAssociation = hydratedRecordsAssociation.map(
       (record: any) => {
         const foreignRecordComputed = foreignRecords.find(
-          (foreignRecord: any) => foreignRecord?.id === record[column.name]
+          (foreignRecord: any) =>
+            foreignRecord?.[foreignColumnName] === record[column.name]
         );
 
         if (!foreignRecordComputed) return record;
@@ -217,7 +521,9 @@ const hydrateAssociations = async (
 
         record[column.name] = {
           value: foreignNameColumn,
-          foreignId: parseInt(foreignRecordComputed.id),
+          foreignId: encodeRecordId(
+            foreignPrimaryKeys.map((name) => foreignRecordComputed[name])
+          ),
           foreignTable: foreignTableName,
           dataSourceId: dataSource.id,
         };
@@ -230,6 +536,24 @@ const hydrateAssociations = async (
   return hydratedRecordsAssociation;
 };
 
+/**
+ * Returns the primary key columns of a table. The data sources that can't tell us use `id`.
+ */
+const getPrimaryKeyColumns = async (
+  dataSource: DataSource,
+  tableName: string
+): Promise<string[]> => {
+  try {
+    const primaryKeys = await runQuery(dataSource, "getPrimaryKeyColumns", {
+      tableName,
+    });
+
+    if (isArray(primaryKeys) && !isEmpty(primaryKeys)) return primaryKeys;
+  } catch (error) {}
+
+  return ["id"];
+};
+
 const addComputedField = async (
   record: any,
   editorData: string,
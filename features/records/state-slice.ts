@@ -17,7 +17,7 @@ interface AppState {
   orderBy: string;
   orderDirection: OrderDirection;
   filtersPanelVisible: boolean;
-  selectedRecords: number[];
+  selectedRecords: string[];
   columnWidths: Record<string, number>;
   activeWidgetId: number | null;
 }
@@ -85,13 +85,13 @@ const recordsStateSlice = createSlice({
     /**
      * Records selection
      */
-    setRecordsSelected(state, action: PayloadAction<number[]>) {
+    setRecordsSelected(state, action: PayloadAction<string[]>) {
       state.selectedRecords = action.payload;
     },
     resetRecordsSelection(state) {
       state.selectedRecords = [];
     },
-    toggleRecordSelection(state, action: PayloadAction<number>) {
+    toggleRecordSelection(state, action: PayloadAction<string>) {
       const index = state.selectedRecords.indexOf(action.payload);
       if (index >= 0) {
         state.selectedRecords.splice(index, 1);
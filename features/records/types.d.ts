@@ -1,3 +1,21 @@
 export type PossibleRecordValues = string | number | boolean | null | undefined;
 
 export type BasetoolRecord<T = PossibleRecordValues> = Record<string, T>
+
+// A row of an imported file that can't be saved.
+export type ImportError = {
+  // The row number in the file, the header row not included.
+  row: number;
+  messages: string[];
+};
+
+export type ExportFormat = "csv" | "jsonl" | "xlsx";
+
+// A column that was changed by someone else after the user loaded the record.
+export type RecordConflict = {
+  column: string;
+  // The value the user loaded.
+  original: unknown;
+  // The value stored now.
+  current: unknown;
+};
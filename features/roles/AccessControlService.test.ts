@@ -0,0 +1,59 @@
+import AccessControlService, { Role } from "./AccessControlService";
+
+const role: Role = {
+  name: "Support",
+  options: {
+    abilities: [],
+    permissions: [
+      { dataSourceId: 1, abilities: ["can_read"] },
+      {
+        dataSourceId: 1,
+        tableName: "users",
+        abilities: ["can_read", "can_update"],
+      },
+      {
+        dataSourceId: 2,
+        tableName: "orders",
+        viewId: 10,
+        abilities: ["can_read"],
+      },
+    ],
+  },
+};
+
+describe("AccessControlService", () => {
+  const ac = new AccessControlService(role);
+
+  it("falls back to the role abilities when no permission matches", () => {
+    expect(ac.readAny("record", { dataSourceId: 3 }).granted).toBe(false);
+  });
+
+  it("uses the data source permission for its tables", () => {
+    expect(
+      ac.readAny("record", { dataSourceId: 1, tableName: "posts" }).granted
+    ).toBe(true);
+    expect(
+      ac.updateAny("record", { dataSourceId: 1, tableName: "posts" }).granted
+    ).toBe(false);
+  });
+
+  it("prefers the table permission over the data source one", () => {
+    expect(
+      ac.updateAny("record", { dataSourceId: 1, tableName: "users" }).granted
+    ).toBe(true);
+  });
+
+  it("uses the view permission for its own data source", () => {
+    expect(
+      ac.readAny("record", { dataSourceId: 2, tableName: "orders", viewId: 10 })
+        .granted
+    ).toBe(true);
+  });
+
+  it("ignores the view permission for other data sources", () => {
+    expect(
+      ac.readAny("record", { dataSourceId: 3, tableName: "orders", viewId: 10 })
+        .granted
+    ).toBe(false);
+  });
+});
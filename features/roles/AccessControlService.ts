@@ -1,10 +1,30 @@
 import { AccessControl, Permission } from "accesscontrol";
-import { isEmpty } from "lodash";
+import { isEmpty, isNil } from "lodash";
+
+export type PermissionScope = {
+  dataSourceId?: number | string;
+  tableName?: string;
+  viewId?: number | string;
+};
+
+export type ScopedPermission = {
+  dataSourceId: number;
+  tableName?: string;
+  viewId?: number;
+  abilities: string[];
+};
+
+export type RoleAttribute = {
+  name: string;
+  value: string;
+};
 
 export type Role = {
   name: string;
   options: {
     abilities?: string[];
+    permissions?: ScopedPermission[];
+    attributes?: RoleAttribute[];
   };
 };
 
@@ -22,6 +42,7 @@ export default class AccessControlService {
       this.ac.grant(this.roleName);
 
       this.setPermissionsForRecord();
+      this.setScopedPermissionsForRecord();
     }
   }
 
@@ -31,34 +52,69 @@ export default class AccessControlService {
     return this.role?.name;
   }
 
+  get scopedPermissions(): ScopedPermission[] {
+    return this.role?.options?.permissions || [];
+  }
+
   public hasRole(roleName: string): boolean {
     if (!this.role) return false;
 
     return this.roleName === roleName;
   }
 
-  public createAny(record: string): Permission {
+  public createAny(record: string, scope?: PermissionScope): Permission {
     if (!this.role) return this.falsePermission;
 
-    return this.ac.can(this.roleName).createAny(record);
+    return this.ac
+      .can(this.roleName)
+      .createAny(this.resourceFor(record, scope));
   }
 
-  public readAny(record: string): Permission {
+  public readAny(record: string, scope?: PermissionScope): Permission {
     if (!this.role) return this.falsePermission;
 
-    return this.ac.can(this.roleName).readAny(record);
+    return this.ac.can(this.roleName).readAny(this.resourceFor(record, scope));
   }
 
-  public updateAny(record: string): Permission {
+  public updateAny(record: string, scope?: PermissionScope): Permission {
     if (!this.role) return this.falsePermission;
 
-    return this.ac.can(this.roleName).updateAny(record);
+    return this.ac
+      .can(this.roleName)
+      .updateAny(this.resourceFor(record, scope));
   }
 
-  public deleteAny(record: string): Permission {
+  public deleteAny(record: string, scope?: PermissionScope): Permission {
     if (!this.role) return this.falsePermission;
 
-    return this.ac.can(this.roleName).deleteAny(record);
+    return this.ac
+      .can(this.roleName)
+      .deleteAny(this.resourceFor(record, scope));
+  }
+
+  /**
+   * A data source is visible if the role can read it or one of its tables or views.
+   */
+  public canAccessDataSource(dataSourceId: number | string): boolean {
+    if (this.readAny("record", { dataSourceId }).granted) return true;
+
+    return this.scopedPermissions.some(
+      (permission) =>
+        permission.dataSourceId.toString() === dataSourceId.toString() &&
+        permission.abilities.includes("can_read")
+    );
+  }
+
+  /**
+   * Returns true if the role has permissions set on specific tables from that data source.
+   */
+  public hasTablePermissions(dataSourceId: number | string): boolean {
+    return this.scopedPermissions.some(
+      (permission) =>
+        permission.dataSourceId.toString() === dataSourceId.toString() &&
+        !isNil(permission.tableName) &&
+        isNil(permission.viewId)
+    );
   }
 
   private getRoleAbilityLogic(ability: string): boolean | undefined {
@@ -81,4 +137,80 @@ export default class AccessControlService {
     if (this.getRoleAbilityLogic("can_delete"))
       this.ac.grant(this.roleName).deleteAny("record");
   }
+
+  // Each scoped permission is granted on its own resource (ex: `record:dataSource:1:table:customers`).
+  private setScopedPermissionsForRecord(): void {
+    this.scopedPermissions.forEach((permission) => {
+      const resource = resourceName("record", permission);
+
+      if (permission.abilities.includes("can_create"))
+        this.ac.grant(this.roleName).createAny(resource);
+      if (permission.abilities.includes("can_read"))
+        this.ac.grant(this.roleName).readAny(resource);
+      if (permission.abilities.includes("can_update"))
+        this.ac.grant(this.roleName).updateAny(resource);
+      if (permission.abilities.includes("can_delete"))
+        this.ac.grant(this.roleName).deleteAny(resource);
+    });
+  }
+
+  /**
+   * Returns the resource of the most specific permission that matches the scope (view, then table, then data source).
+   * When none matches we fall back to the role's abilities.
+   */
+  private resourceFor(record: string, scope?: PermissionScope): string {
+    if (!scope || isEmpty(this.scopedPermissions)) return record;
+
+    const permission = findScopedPermission(this.scopedPermissions, scope);
+
+    if (!permission) return record;
+
+    return resourceName(record, permission);
+  }
 }
+
+const isSame = (a?: number | string, b?: number | string) =>
+  !isNil(a) && !isNil(b) && a.toString() === b.toString();
+
+const findScopedPermission = (
+  permissions: ScopedPermission[],
+  { dataSourceId, tableName, viewId }: PermissionScope
+): ScopedPermission | undefined => {
+  let permission;
+
+  if (!isNil(viewId)) {
+    permission = permissions.find(
+      (p) => isSame(p.viewId, viewId) && isSame(p.dataSourceId, dataSourceId)
+    );
+  }
+
+  if (!permission && tableName) {
+    permission = permissions.find(
+      (p) =>
+        isNil(p.viewId) &&
+        isSame(p.dataSourceId, dataSourceId) &&
+        p.tableName === tableName
+    );
+  }
+
+  if (!permission) {
+    permission = permissions.find(
+      (p) =>
+        isNil(p.viewId) &&
+        isNil(p.tableName) &&
+        isSame(p.dataSourceId, dataSourceId)
+    );
+  }
+
+  return permission;
+};
+
+const resourceName = (record: string, permission: ScopedPermission) =>
+  [
+    record,
+    `dataSource:${permission.dataSourceId}`,
+    permission.tableName && `table:${permission.tableName}`,
+    permission.viewId && `view:${permission.viewId}`,
+  ]
+    .filter(Boolean)
+    .join(":");
@@ -0,0 +1,71 @@
+import { Button, Input } from "@chakra-ui/react";
+import { PlusIcon, TrashIcon } from "@heroicons/react/outline";
+import { RoleAttribute } from "@/features/roles/AccessControlService";
+import React, { memo } from "react";
+
+const RoleAttributesEditor = ({
+  attributes = [],
+  isDisabled = false,
+  onChange,
+}: {
+  attributes?: RoleAttribute[];
+  isDisabled?: boolean;
+  onChange: (attributes: RoleAttribute[]) => void;
+}) => {
+  const updateAttribute = (idx: number, attribute: RoleAttribute) =>
+    onChange(attributes.map((a, index) => (index === idx ? attribute : a)));
+
+  return (
+    <div className="space-y-2">
+      {attributes.map((attribute, idx) => (
+        <div className="flex space-x-2 items-center" key={idx}>
+          <Input
+            size="xs"
+            placeholder="regions"
+            value={attribute.name}
+            isDisabled={isDisabled}
+            onChange={(e) =>
+              updateAttribute(idx, {
+                ...attribute,
+                name: e.currentTarget.value,
+              })
+            }
+          />
+          <Input
+            size="xs"
+            placeholder="north, east"
+            value={attribute.value}
+            isDisabled={isDisabled}
+            onChange={(e) =>
+              updateAttribute(idx, {
+                ...attribute,
+                value: e.currentTarget.value,
+              })
+            }
+          />
+          {isDisabled || (
+            <a
+              className="cursor-pointer"
+              onClick={() =>
+                onChange(attributes.filter((a, index) => index !== idx))
+              }
+            >
+              <TrashIcon className="h-4 text-red-600" />
+            </a>
+          )}
+        </div>
+      ))}
+      {isDisabled || (
+        <Button
+          size="xs"
+          leftIcon={<PlusIcon className="h-3" />}
+          onClick={() => onChange([...attributes, { name: "", value: "" }])}
+        >
+          Add attribute
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default memo(RoleAttributesEditor);
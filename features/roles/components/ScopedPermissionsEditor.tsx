@@ -0,0 +1,202 @@
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Select,
+  Stack,
+} from "@chakra-ui/react";
+import { DataSource, View } from "@prisma/client";
+import { ListTable } from "@/plugins/data-sources/abstract-sql-query-service/types";
+import { PlusIcon, TrashIcon } from "@heroicons/react/outline";
+import { ScopedPermission } from "@/features/roles/AccessControlService";
+import { defaultAbilities } from "@/features/roles";
+import { isUndefined, omit } from "lodash";
+import { useGetTablesQuery } from "@/features/tables/api-slice";
+import { useGetViewsQuery } from "@/features/views/api-slice";
+import React, { memo, useMemo } from "react";
+
+const ScopedPermissionItem = ({
+  permission,
+  dataSources,
+  views,
+  isDisabled,
+  onChange,
+  onRemove,
+}: {
+  permission: ScopedPermission;
+  dataSources: Pick<DataSource, "id" | "name">[];
+  views: View[];
+  isDisabled: boolean;
+  onChange: (permission: ScopedPermission) => void;
+  onRemove: () => void;
+}) => {
+  const { data: tablesResponse } = useGetTablesQuery(
+    { dataSourceId: permission.dataSourceId?.toString() },
+    { skip: !permission.dataSourceId }
+  );
+
+  const tables = useMemo<ListTable[]>(
+    () => (tablesResponse?.ok ? tablesResponse.data : []),
+    [tablesResponse]
+  );
+
+  const dataSourceViews = useMemo(
+    () =>
+      views.filter(
+        (view) =>
+          view.dataSourceId === permission.dataSourceId &&
+          (isUndefined(permission.tableName) ||
+            view.tableName === permission.tableName)
+      ),
+    [views, permission]
+  );
+
+  return (
+    <div className="flex space-x-2 items-start border rounded p-2">
+      <div className="flex-1 space-y-1">
+        <div className="flex space-x-1">
+          <Select
+            size="xs"
+            value={permission.dataSourceId}
+            isDisabled={isDisabled}
+            onChange={(e) =>
+              onChange({
+                dataSourceId: parseInt(e.currentTarget.value),
+                abilities: permission.abilities,
+              })
+            }
+          >
+            {dataSources.map((dataSource) => (
+              <option key={dataSource.id} value={dataSource.id}>
+                {dataSource.name}
+              </option>
+            ))}
+          </Select>
+          <Select
+            size="xs"
+            value={permission.tableName || ""}
+            isDisabled={isDisabled}
+            onChange={(e) =>
+              onChange({
+                ...omit(permission, ["tableName", "viewId"]),
+                ...(e.currentTarget.value
+                  ? { tableName: e.currentTarget.value }
+                  : {}),
+              })
+            }
+          >
+            <option value="">All tables</option>
+            {tables.map((table) => (
+              <option key={table.name} value={table.name}>
+                {table.name}
+              </option>
+            ))}
+          </Select>
+          <Select
+            size="xs"
+            value={permission.viewId || ""}
+            isDisabled={isDisabled}
+            onChange={(e) =>
+              onChange({
+                ...omit(permission, ["viewId"]),
+                ...(e.currentTarget.value
+                  ? { viewId: parseInt(e.currentTarget.value) }
+                  : {}),
+              })
+            }
+          >
+            <option value="">All views</option>
+            {dataSourceViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <CheckboxGroup
+          value={permission.abilities}
+          onChange={(value) =>
+            onChange({ ...permission, abilities: value as string[] })
+          }
+        >
+          <Stack direction="row">
+            {defaultAbilities.map(({ id, label }) => (
+              <Checkbox key={id} size="sm" isDisabled={isDisabled} value={id}>
+                {label}
+              </Checkbox>
+            ))}
+          </Stack>
+        </CheckboxGroup>
+      </div>
+      {isDisabled || (
+        <a className="cursor-pointer" onClick={onRemove}>
+          <TrashIcon className="h-4 text-red-600" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+const ScopedPermissionsEditor = ({
+  permissions = [],
+  dataSources = [],
+  isDisabled = false,
+  onChange,
+}: {
+  permissions?: ScopedPermission[];
+  dataSources?: Pick<DataSource, "id" | "name">[];
+  isDisabled?: boolean;
+  onChange: (permissions: ScopedPermission[]) => void;
+}) => {
+  const { data: viewsResponse } = useGetViewsQuery();
+  const views = useMemo<View[]>(
+    () => (viewsResponse?.ok ? viewsResponse.data : []),
+    [viewsResponse]
+  );
+
+  const addPermission = () => {
+    if (dataSources.length === 0) return;
+
+    onChange([
+      ...permissions,
+      {
+        dataSourceId: dataSources[0].id,
+        abilities: [],
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {permissions.map((permission, idx) => (
+        <ScopedPermissionItem
+          key={idx}
+          permission={permission}
+          dataSources={dataSources}
+          views={views}
+          isDisabled={isDisabled}
+          onChange={(newPermission) =>
+            onChange(
+              permissions.map((p, index) => (index === idx ? newPermission : p))
+            )
+          }
+          onRemove={() =>
+            onChange(permissions.filter((p, index) => index !== idx))
+          }
+        />
+      ))}
+      {isDisabled || (
+        <Button
+          size="xs"
+          leftIcon={<PlusIcon className="h-3" />}
+          onClick={addPermission}
+          disabled={dataSources.length === 0}
+        >
+          Add permission
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default memo(ScopedPermissionsEditor);
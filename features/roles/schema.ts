@@ -3,9 +3,25 @@ import Joi from "joi";
 
 const abilities = defaultAbilities.map(({id}) => id)
 
+const abilitiesSchema = Joi.array().items(...abilities.map((ability) => Joi.string().valid(ability)))
+
 export const schema = Joi.object({
   name: Joi.string().min(3).required(),
   options: Joi.object({
-    abilities: Joi.array().items(...abilities.map((ability) => Joi.string().valid(ability))),
+    abilities: abilitiesSchema,
+    permissions: Joi.array().items(
+      Joi.object({
+        dataSourceId: Joi.number().required(),
+        tableName: Joi.string(),
+        viewId: Joi.number(),
+        abilities: abilitiesSchema.required(),
+      })
+    ),
+    attributes: Joi.array().items(
+      Joi.object({
+        name: Joi.string().required(),
+        value: Joi.string().allow(""),
+      })
+    ),
   }),
 });
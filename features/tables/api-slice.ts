@@ -1,5 +1,7 @@
 import { apiUrl } from "../api/urls";
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { api as fieldsApiSlice } from "@/features/fields/api-slice";
+import { recordsApiSlice } from "@/features/records/api-slice";
 import ApiResponse from "../api/ApiResponse";
 
 export const tablesApiSlice = createApi({
@@ -18,11 +20,60 @@ export const tablesApiSlice = createApi({
           { type: "Table", id: dataSourceId },
         ],
       }),
+      setPrimaryKeyColumn: builder.mutation<
+        ApiResponse,
+        Partial<{
+          dataSourceId: string;
+          tableName: string;
+          body: { columnName: string };
+        }>
+      >({
+        query: ({ dataSourceId, tableName, body }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/primary-key`,
+          method: "PUT",
+          body,
+        }),
+        async onQueryStarted({ tableName }, { dispatch, queryFulfilled }) {
+          try {
+            await queryFulfilled;
+            // The columns carry the primary key flag.
+            dispatch(
+              fieldsApiSlice.util.invalidateTags([
+                { type: "TableColumns", id: tableName },
+              ])
+            );
+          } catch (error) {}
+        },
+      }),
+      refreshMaterializedView: builder.mutation<
+        ApiResponse,
+        Partial<{
+          dataSourceId: string;
+          tableName: string;
+        }>
+      >({
+        query: ({ dataSourceId, tableName }) => ({
+          url: `${apiUrl}/data-sources/${dataSourceId}/tables/${tableName}/refresh`,
+          method: "POST",
+        }),
+        async onQueryStarted(args, { dispatch, queryFulfilled }) {
+          try {
+            await queryFulfilled;
+            dispatch(
+              recordsApiSlice.util.invalidateTags([
+                { type: "Record", id: "LIST" },
+              ])
+            );
+          } catch (error) {}
+        },
+      }),
     };
   },
 });
 
 export const {
   useGetTablesQuery,
+  useRefreshMaterializedViewMutation,
+  useSetPrimaryKeyColumnMutation,
   usePrefetch,
 } = tablesApiSlice;
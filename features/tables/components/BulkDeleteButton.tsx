@@ -25,7 +25,7 @@ function BulkDeleteButton() {
       await deleteBulkRecords({
         dataSourceId,
         tableName,
-        recordIds: selectedRecords as number[],
+        recordIds: selectedRecords,
       });
     }
   };
@@ -0,0 +1,227 @@
+import {
+  Button,
+  IconButton,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+  useDisclosure,
+} from "@chakra-ui/react";
+import { PencilIcon, PlusIcon, XIcon } from "@heroicons/react/outline";
+import { columnsSelector, metaSelector } from "@/features/records/state-slice";
+import { getConnectedColumns, getVisibleColumns } from "@/features/fields";
+import { useAppSelector, useDataSourceContext } from "@/hooks";
+import { useFilters, useSelectRecords } from "@/features/records/hooks";
+import { useUpdateBulkRecordsMutation } from "@/features/records/api-slice";
+import React, { useMemo, useState } from "react";
+import pluralize from "pluralize";
+
+type Change = {
+  columnName: string;
+  value: string;
+};
+
+type Scope = "selected" | "all";
+
+function BulkEditButton() {
+  const { selectedRecords, resetRecordsSelection } = useSelectRecords();
+  const { encodedFilters } = useFilters();
+  const { tableName, dataSourceId, viewId } = useDataSourceContext();
+  const rawColumns = useAppSelector(columnsSelector);
+  const meta = useAppSelector(metaSelector);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [scope, setScope] = useState<Scope>("selected");
+  const [changes, setChanges] = useState<Change[]>([]);
+  const [updateBulkRecords, { isLoading: isUpdating }] =
+    useUpdateBulkRecordsMutation();
+
+  // Only the columns the user can edit by hand can be changed in bulk.
+  const columns = useMemo(
+    () =>
+      getConnectedColumns(getVisibleColumns(rawColumns, "edit")).filter(
+        (column) =>
+          !column.primaryKey &&
+          !column.baseOptions.readonly &&
+          !column.baseOptions.computed
+      ),
+    [rawColumns]
+  );
+
+  const recordsCount = useMemo(
+    () =>
+      scope === "selected"
+        ? selectedRecords.length
+        : (meta?.count as number) || 0,
+    [scope, selectedRecords.length, meta?.count]
+  );
+
+  const openModal = () => {
+    setScope(selectedRecords.length > 0 ? "selected" : "all");
+    setChanges([{ columnName: columns[0]?.name || "", value: "" }]);
+    onOpen();
+  };
+
+  const updateChange = (index: number, change: Partial<Change>) =>
+    setChanges(
+      changes.map((item, idx) =>
+        idx === index ? { ...item, ...change } : item
+      )
+    );
+
+  const handleUpdate = async () => {
+    const data = Object.fromEntries(
+      changes
+        .filter(({ columnName }) => columnName)
+        .map(({ columnName, value }) => {
+          const column = columns.find(({ name }) => name === columnName);
+
+          // An empty value clears nullable columns.
+          if (column?.baseOptions.nullable && value === "")
+            return [columnName, null];
+
+          return [columnName, value];
+        })
+    );
+
+    const response = await updateBulkRecords({
+      dataSourceId,
+      tableName,
+      viewId,
+      body:
+        scope === "selected"
+          ? { changes: data, recordIds: selectedRecords }
+          : { changes: data, allRecords: true, filters: encodedFilters },
+    }).unwrap();
+
+    if (response?.ok) {
+      resetRecordsSelection();
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <Button
+        className="text-sm cursor-pointer"
+        variant="link"
+        colorScheme="blue"
+        leftIcon={<PencilIcon className="h-4" />}
+        isDisabled={columns.length === 0}
+        onClick={openModal}
+      >
+        Bulk edit
+      </Button>
+      <Modal isOpen={isOpen} onClose={onClose} size="lg">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Bulk edit</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody className="space-y-4">
+            <RadioGroup
+              value={scope}
+              onChange={(value) => setScope(value as Scope)}
+            >
+              <Stack>
+                <Radio
+                  value="selected"
+                  isDisabled={selectedRecords.length === 0}
+                >
+                  Selected records ({selectedRecords.length})
+                </Radio>
+                <Radio value="all">
+                  All records matching the current filters
+                  {meta?.count ? ` (${meta.count})` : ""}
+                </Radio>
+              </Stack>
+            </RadioGroup>
+            <div className="space-y-2">
+              {changes.map((change, idx) => (
+                <div key={idx} className="flex space-x-2">
+                  <Select
+                    size="sm"
+                    value={change.columnName}
+                    onChange={(e) =>
+                      updateChange(idx, { columnName: e.currentTarget.value })
+                    }
+                  >
+                    {columns.map((column) => (
+                      <option key={column.name} value={column.name}>
+                        {column.label}
+                      </option>
+                    ))}
+                  </Select>
+                  <Input
+                    size="sm"
+                    placeholder="New value"
+                    value={change.value}
+                    onChange={(e) =>
+                      updateChange(idx, { value: e.currentTarget.value })
+                    }
+                  />
+                  <IconButton
+                    size="sm"
+                    variant="ghost"
+                    aria-label="Remove column"
+                    icon={<XIcon className="h-4" />}
+                    isDisabled={changes.length === 1}
+                    onClick={() =>
+                      setChanges(changes.filter((item, i) => i !== idx))
+                    }
+                  />
+                </div>
+              ))}
+              <Button
+                size="xs"
+                variant="ghost"
+                leftIcon={<PlusIcon className="h-4" />}
+                onClick={() =>
+                  setChanges([
+                    ...changes,
+                    { columnName: columns[0]?.name || "", value: "" },
+                  ])
+                }
+              >
+                Add column
+              </Button>
+            </div>
+            <div className="text-sm text-gray-600">
+              {recordsCount} {pluralize("record", recordsCount)} will be updated
+              in a single transaction.
+            </div>
+          </ModalBody>
+
+          <ModalFooter>
+            <Button
+              colorScheme="gray"
+              size="sm"
+              variant="outline"
+              mr={3}
+              onClick={onClose}
+            >
+              Cancel
+            </Button>
+            <Button
+              colorScheme="blue"
+              size="sm"
+              onClick={handleUpdate}
+              isLoading={isUpdating}
+              isDisabled={recordsCount === 0}
+            >
+              Update {recordsCount} {pluralize("record", recordsCount)}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+}
+
+export default BulkEditButton;
@@ -1,28 +1,56 @@
+import { BasetoolRecord } from "@/features/records/types";
 import { Column } from "@/features/fields/types";
-import { Row } from "react-table";
+import { EditableCellsOptions, Row } from "react-table";
 import { getField } from "@/features/fields/factory";
 import { makeField } from "@/features/fields";
-
+import DummyField from "@/features/fields/components/DummyField";
+import EditableCell from "./EditableCell";
 import React, { memo } from "react";
 
+// Primary keys identify the record so they're changed only from the edit page.
+const isInlineEditable = (column: Column) =>
+  !column.primaryKey &&
+  !column.baseOptions.readonly &&
+  !column.baseOptions.computed &&
+  getField(column, "edit") !== DummyField;
+
 const Cell = memo(
   ({
     row,
     column,
     tableName,
+    canEditCells = false,
+    rawRecords = [],
+    getRecordId,
   }: {
     row: Row;
-    column: { meta: Column };
+    column: { id: string; meta: Column };
     tableName: string;
-  }) => {
+  } & EditableCellsOptions) => {
     const field = makeField({
-      record: row.original,
+      record: row.original as BasetoolRecord,
       column: column?.meta,
       tableName,
     });
     const Element = getField(column.meta, "index");
 
-    return <Element field={field} />;
+    // The table shows the records stringified, the editor needs the values as they are.
+    const record = rawRecords[row.index] || (row.original as BasetoolRecord);
+
+    return (
+      <EditableCell
+        record={record}
+        column={column.meta}
+        recordId={getRecordId && getRecordId(record)}
+        rowIndex={row.index}
+        columnIndex={row.cells.findIndex(
+          (cell) => cell.column.id === column.id
+        )}
+        isEditable={canEditCells && isInlineEditable(column.meta)}
+      >
+        <Element field={field} />
+      </EditableCell>
+    );
   }
 );
 
@@ -1,10 +1,13 @@
+import { BasetoolRecord } from "@/features/records/types";
 import { Checkbox } from "@chakra-ui/react";
 import { isUndefined } from "lodash";
-import { useSelectRecords } from "@/features/records/hooks";
+import { useRecordIds, useSelectRecords } from "@/features/records/hooks";
 import React, { memo } from "react";
 
-const CheckboxColumnCell = ({ id }: { id: number }) => {
+const CheckboxColumnCell = ({ record }: { record: BasetoolRecord }) => {
   const { selectedRecords, toggleRecordSelection } = useSelectRecords();
+  const { getRecordId } = useRecordIds();
+  const id = record && getRecordId(record);
 
   if (isUndefined(id)) return null;
 
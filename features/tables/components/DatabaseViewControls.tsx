@@ -0,0 +1,78 @@
+import { Button, Select, Tooltip } from "@chakra-ui/react";
+import { RefreshIcon } from "@heroicons/react/outline";
+import { useColumnsResponse } from "@/features/fields/hooks";
+import {
+  useRefreshMaterializedViewMutation,
+  useSetPrimaryKeyColumnMutation,
+} from "../api-slice";
+import { useTablesResponse } from "../hooks";
+import React, { memo, useMemo } from "react";
+
+/**
+ * Database views don't have a primary key, so we let the owner pick the column we should find the records by.
+ */
+function DatabaseViewControls({
+  dataSourceId,
+  tableName,
+}: {
+  dataSourceId: string;
+  tableName: string;
+}) {
+  const { tables } = useTablesResponse({ dataSourceId });
+  const table = useMemo(
+    () => tables.find(({ name }) => name === tableName),
+    [tables, tableName]
+  );
+  const { columns } = useColumnsResponse({ dataSourceId, tableName });
+  const primaryKeyColumn = useMemo(
+    () => columns.find(({ primaryKey }) => primaryKey)?.name || "",
+    [columns]
+  );
+
+  const [setPrimaryKeyColumn, { isLoading: isSettingPrimaryKey }] =
+    useSetPrimaryKeyColumnMutation();
+  const [refreshMaterializedView, { isLoading: isRefreshing }] =
+    useRefreshMaterializedViewMutation();
+
+  if (!table?.type || table.type === "table") return null;
+
+  return (
+    <>
+      <Tooltip label="The column used to identify the records of this view">
+        <Select
+          size="xs"
+          width="auto"
+          placeholder="Primary key column"
+          value={primaryKeyColumn}
+          isDisabled={isSettingPrimaryKey}
+          onChange={(e) =>
+            setPrimaryKeyColumn({
+              dataSourceId,
+              tableName,
+              body: { columnName: e.currentTarget.value },
+            })
+          }
+        >
+          {columns.map(({ name }) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </Select>
+      </Tooltip>
+      {table.type === "materialized_view" && (
+        <Button
+          colorScheme="blue"
+          variant="ghost"
+          isLoading={isRefreshing}
+          leftIcon={<RefreshIcon className="h-4" />}
+          onClick={() => refreshMaterializedView({ dataSourceId, tableName })}
+        >
+          Refresh materialized view
+        </Button>
+      )}
+    </>
+  );
+}
+
+export default memo(DatabaseViewControls);
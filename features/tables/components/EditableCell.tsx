@@ -0,0 +1,291 @@
+import { BasetoolRecord } from "@/features/records/types";
+import {
+  Button,
+  Popover,
+  PopoverBody,
+  PopoverContent,
+  PopoverFooter,
+  PopoverTrigger,
+  Portal,
+  useDisclosure,
+} from "@chakra-ui/react";
+import { Column } from "@/features/fields/types";
+import { getField } from "@/features/fields/factory";
+import { isEqual, isPlainObject, isUndefined, last } from "lodash";
+import { joiResolver } from "@hookform/resolvers/joi/dist/joi";
+import { makeField } from "@/features/fields";
+import { makeSchema } from "@/features/records/clientHelpers";
+import { toast } from "react-toastify";
+import { useDataSourceContext } from "@/hooks";
+import { useForm } from "react-hook-form";
+import { useUpdateRecordValueMutation } from "@/features/records/api-slice";
+import Joi, { ObjectSchema } from "joi";
+import React, {
+  KeyboardEvent,
+  ReactNode,
+  memo,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+type Direction = "up" | "down" | "left" | "right" | "next" | "previous";
+
+const getRowCells = (rowIndex: number) =>
+  Array.from(
+    document.querySelectorAll<HTMLElement>(
+      `[data-row-index="${rowIndex}"][data-column-index]`
+    )
+  );
+
+const getCell = (rowIndex: number, columnIndex: number) =>
+  getRowCells(rowIndex).find(
+    (cell) => Number(cell.dataset.columnIndex) === columnIndex
+  );
+
+/**
+ * Moves the focus to the neighbouring cell. `next` and `previous` wrap around to the next and previous rows like Tab does.
+ */
+export const focusCell = (
+  rowIndex: number,
+  columnIndex: number,
+  direction: Direction
+): boolean => {
+  let cell: HTMLElement | undefined;
+
+  switch (direction) {
+    case "up":
+      cell = getCell(rowIndex - 1, columnIndex);
+      break;
+    case "down":
+      cell = getCell(rowIndex + 1, columnIndex);
+      break;
+    case "left":
+      cell = getCell(rowIndex, columnIndex - 1);
+      break;
+    case "right":
+      cell = getCell(rowIndex, columnIndex + 1);
+      break;
+    case "next":
+      cell = getCell(rowIndex, columnIndex + 1) || getRowCells(rowIndex + 1)[0];
+      break;
+    case "previous":
+      cell =
+        getCell(rowIndex, columnIndex - 1) || last(getRowCells(rowIndex - 1));
+      break;
+  }
+
+  cell?.focus();
+
+  return Boolean(cell);
+};
+
+const keyDirections: Record<string, Direction> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+};
+
+const EditForm = ({
+  record,
+  column,
+  recordId,
+  onDone,
+}: {
+  record: BasetoolRecord;
+  column: Column;
+  recordId: string;
+  onDone: (direction?: Direction) => void;
+}) => {
+  const { dataSourceId, tableName } = useDataSourceContext();
+  const [schema, setSchema] = useState<ObjectSchema>(Joi.object());
+
+  useEffect(() => {
+    makeSchema(record, [column]).then(setSchema);
+  }, [record, column]);
+
+  // Associations are edited by their foreign id.
+  const defaultValue = useMemo(() => {
+    const value = record[column.name];
+
+    return isPlainObject(value) ? (value as any)?.foreignId : value;
+  }, [record, column]);
+
+  const { register, handleSubmit, formState, setValue } = useForm({
+    defaultValues: { [column.name]: defaultValue },
+    resolver: joiResolver(schema),
+  });
+
+  const [updateRecordValue, { isLoading }] = useUpdateRecordValueMutation();
+
+  const save = (direction?: Direction) =>
+    handleSubmit(async (formData) => {
+      let value = formData[column.name];
+
+      if (isEqual(value, defaultValue)) return onDone(direction);
+
+      if (
+        column.baseOptions.nullable === true &&
+        Object.values(column.baseOptions.nullValues).includes(value)
+      )
+        value = null;
+
+      try {
+        const response = await updateRecordValue({
+          dataSourceId,
+          tableName,
+          recordId,
+          body: {
+            changes: { [column.name]: value },
+            original: { [column.name]: defaultValue },
+          },
+        }).unwrap();
+
+        if (response?.ok) onDone(direction);
+      } catch (error: any) {
+        toast.error(
+          error?.data?.meta?.errorMessage || error?.data?.messages?.[0]
+        );
+      }
+    })();
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLFormElement>) => {
+    // Tab saves the value and moves on to the next cell.
+    if (e.key === "Tab") {
+      e.preventDefault();
+      save(e.shiftKey ? "previous" : "next");
+    }
+  };
+
+  const field = makeField({ record, column, tableName });
+  let schemaForColumn;
+  try {
+    schemaForColumn = schema.extract(column.name);
+  } catch (error) {}
+
+  const Element = getField(column, "edit");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        save();
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      <PopoverBody className="p-0">
+        <Element
+          field={field}
+          formState={formState}
+          register={register}
+          setValue={setValue}
+          schema={schemaForColumn}
+          view="edit"
+        />
+        <input type="submit" value="Submit" className="hidden" />
+      </PopoverBody>
+      <PopoverFooter className="flex justify-end space-x-2">
+        <Button size="xs" variant="ghost" onClick={() => onDone()}>
+          Cancel
+        </Button>
+        <Button
+          size="xs"
+          colorScheme="blue"
+          type="submit"
+          isLoading={isLoading}
+        >
+          Save
+        </Button>
+      </PopoverFooter>
+    </form>
+  );
+};
+
+/**
+ * A records table cell that can be focused with the keyboard and edited in place.
+ * Enter or double click opens the editor, Esc closes it, arrows and Tab move between cells.
+ */
+const EditableCell = ({
+  record,
+  column,
+  recordId,
+  rowIndex,
+  columnIndex,
+  isEditable,
+  children,
+}: {
+  record: BasetoolRecord;
+  column: Column;
+  recordId?: string;
+  rowIndex: number;
+  columnIndex: number;
+  isEditable: boolean;
+  children: ReactNode;
+}) => {
+  const { isOpen, onOpen, onClose } = useDisclosure();
+
+  const canOpen = isEditable && !isUndefined(recordId);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Ignore the keys pressed inside the editor.
+    if (isOpen || e.target !== e.currentTarget) return;
+
+    if (e.key === "Enter" && canOpen) {
+      e.preventDefault();
+      onOpen();
+    } else if (e.key === "Tab") {
+      if (focusCell(rowIndex, columnIndex, e.shiftKey ? "previous" : "next"))
+        e.preventDefault();
+    } else if (keyDirections[e.key]) {
+      e.preventDefault();
+      focusCell(rowIndex, columnIndex, keyDirections[e.key]);
+    }
+  };
+
+  const handleDone = (direction?: Direction) => {
+    onClose();
+    if (direction) {
+      // Wait for the popover to give the focus back to the cell.
+      setTimeout(() => focusCell(rowIndex, columnIndex, direction));
+    }
+  };
+
+  return (
+    <Popover
+      isOpen={isOpen}
+      onClose={onClose}
+      placement="bottom-start"
+      isLazy
+      returnFocusOnClose
+    >
+      <PopoverTrigger>
+        <div
+          tabIndex={0}
+          data-row-index={rowIndex}
+          data-column-index={columnIndex}
+          className="h-full w-full outline-none focus:ring-2 focus:ring-inset focus:ring-blue-400"
+          onKeyDown={handleKeyDown}
+          onDoubleClick={() => canOpen && onOpen()}
+        >
+          {children}
+        </div>
+      </PopoverTrigger>
+      {canOpen && (
+        // The table scrolls so the editor is rendered outside of it.
+        <Portal>
+          <PopoverContent className="w-[28rem]">
+            <EditForm
+              record={record}
+              column={column}
+              recordId={recordId as string}
+              onDone={handleDone}
+            />
+          </PopoverContent>
+        </Portal>
+      )}
+    </Popover>
+  );
+};
+
+export default memo(EditableCell);
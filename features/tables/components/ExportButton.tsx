@@ -0,0 +1,58 @@
+import { Button, Menu, MenuButton, MenuItem, MenuList } from "@chakra-ui/react";
+import { DownloadIcon } from "@heroicons/react/outline";
+import { ExportFormat } from "@/features/records/types";
+import { apiUrl } from "@/features/api/urls";
+import { useDataSourceContext } from "@/hooks";
+import { useFilters, useOrderRecords } from "@/features/records/hooks";
+import React, { memo } from "react";
+import URI from "urijs";
+
+const formats: Array<{ format: ExportFormat; label: string }> = [
+  { format: "csv", label: "CSV" },
+  { format: "jsonl", label: "JSON lines" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+];
+
+/**
+ * Downloads the records with the filters and order the user is looking at.
+ */
+function ExportButton() {
+  const { tableName, dataSourceId, viewId } = useDataSourceContext();
+  const { encodedFilters } = useFilters();
+  const { orderBy, orderDirection } = useOrderRecords();
+
+  const exportUrl = (format: ExportFormat) =>
+    URI(`${apiUrl}/records/export`)
+      .query({
+        viewId,
+        tableName,
+        dataSourceId,
+        filters: encodedFilters,
+        orderBy,
+        orderDirection,
+        format,
+      })
+      .toString();
+
+  return (
+    <Menu>
+      <MenuButton
+        as={Button}
+        colorScheme="blue"
+        variant="ghost"
+        leftIcon={<DownloadIcon className="h-4" />}
+      >
+        Export
+      </MenuButton>
+      <MenuList>
+        {formats.map(({ format, label }) => (
+          <MenuItem key={format} as="a" href={exportUrl(format)} download>
+            {label}
+          </MenuItem>
+        ))}
+      </MenuList>
+    </Menu>
+  );
+}
+
+export default memo(ExportButton);
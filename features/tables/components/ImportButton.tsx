@@ -0,0 +1,317 @@
+import {
+  Button,
+  Checkbox,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  useDisclosure,
+} from "@chakra-ui/react";
+import { ImportError } from "@/features/records/types";
+import { MAX_IMPORT_BYTES } from "@/features/records/clientHelpers";
+import { UploadIcon } from "@heroicons/react/outline";
+import { columnsSelector } from "@/features/records/state-slice";
+import { getColumnLabel } from "@/plugins/data-sources";
+import { getConnectedColumns } from "@/features/fields";
+import { isArray, isEmpty, isPlainObject, uniq } from "lodash";
+import { parseCsv } from "@/lib/csv";
+import { useAppSelector, useDataSourceContext } from "@/hooks";
+import { useImportRecordsMutation } from "@/features/records/api-slice";
+import React, { useMemo, useState } from "react";
+import pluralize from "pluralize";
+
+type FileRow = Record<string, unknown>;
+
+// We show only the first rows with errors so the modal stays readable.
+const MAX_VISIBLE_ERRORS = 20;
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const parseFile = async (file: File): Promise<FileRow[]> => {
+  const text = await file.text();
+
+  if (/\.json$/i.test(file.name)) {
+    const rows = JSON.parse(text);
+
+    if (!isArray(rows) || !rows.every(isPlainObject))
+      throw new Error("The JSON file should contain an array of objects.");
+
+    return rows;
+  }
+
+  const [headerRow = [], ...valueRows] = parseCsv(text);
+
+  return valueRows
+    .filter((row) => row.some((value) => value !== ""))
+    .map((row) =>
+      Object.fromEntries(headerRow.map((name, idx) => [name, row[idx]]))
+    );
+};
+
+function ImportButton({ canUpsert = false }: { canUpsert?: boolean }) {
+  const { tableName, dataSourceId, viewId } = useDataSourceContext();
+  const rawColumns = useAppSelector(columnsSelector);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [rows, setRows] = useState<FileRow[]>([]);
+  const [fileError, setFileError] = useState<string>();
+  // File column name -> table column name.
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [upsert, setUpsert] = useState(false);
+  const [errors, setErrors] = useState<ImportError[]>();
+  const [importRecords, { isLoading }] = useImportRecordsMutation();
+
+  // Computed and read-only columns can't be written.
+  const columns = useMemo(
+    () =>
+      getConnectedColumns(rawColumns).filter(
+        (column) => !column.baseOptions.readonly && !column.baseOptions.computed
+      ),
+    [rawColumns]
+  );
+
+  const fileColumnNames = useMemo(
+    () => uniq(rows.flatMap((row) => Object.keys(row))),
+    [rows]
+  );
+
+  const records = useMemo(
+    () =>
+      rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(mapping)
+            .filter(([, columnName]) => columnName)
+            .map(([fileColumnName, columnName]) => [
+              columnName,
+              row[fileColumnName],
+            ])
+        )
+      ),
+    [rows, mapping]
+  );
+
+  const resetState = () => {
+    setRows([]);
+    setFileError(undefined);
+    setMapping({});
+    setUpsert(false);
+    setErrors(undefined);
+  };
+
+  const openModal = () => {
+    resetState();
+    onOpen();
+  };
+
+  const handleFile = async (file?: File) => {
+    resetState();
+    if (!file) return;
+
+    let fileRows: FileRow[];
+    try {
+      fileRows = await parseFile(file);
+    } catch (error: any) {
+      setFileError(error.message);
+
+      return;
+    }
+
+    // Match the file columns to the table columns by name or label.
+    const fileColumns = uniq(fileRows.flatMap((row) => Object.keys(row)));
+    const autoMapping = Object.fromEntries(
+      fileColumns.map((fileColumnName) => {
+        const column = columns.find((column) =>
+          [column.name, column.label, getColumnLabel(column)]
+            .filter(Boolean)
+            .map(normalizeName)
+            .includes(normalizeName(fileColumnName))
+        );
+
+        return [fileColumnName, column?.name || ""];
+      })
+    );
+
+    setRows(fileRows);
+    setMapping(autoMapping);
+  };
+
+  const updateMapping = (fileColumnName: string, columnName: string) => {
+    setMapping({ ...mapping, [fileColumnName]: columnName });
+    // The records changed so they have to be validated again.
+    setErrors(undefined);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    const body = { records, upsert, dryRun };
+
+    if (new Blob([JSON.stringify(body)]).size > MAX_IMPORT_BYTES) {
+      setFileError(
+        `The file is too big to import at once. Split it into files smaller than ${
+          MAX_IMPORT_BYTES / 1024 / 1024
+        }MB.`
+      );
+
+      return;
+    }
+
+    const response = await importRecords({
+      dataSourceId,
+      tableName,
+      viewId,
+      body,
+    }).unwrap();
+
+    if (dryRun && response?.ok) {
+      setErrors(response.data.errors);
+    } else if (response?.ok) {
+      onClose();
+    } else if (response?.data?.errors) {
+      setErrors(response.data.errors);
+    }
+  };
+
+  const hasMappedColumns = Object.values(mapping).some(Boolean);
+
+  return (
+    <>
+      <Button
+        colorScheme="blue"
+        variant="ghost"
+        leftIcon={<UploadIcon className="h-4" />}
+        onClick={openModal}
+      >
+        Import
+      </Button>
+      <Modal isOpen={isOpen} onClose={onClose} size="xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Import records into {tableName}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody className="space-y-4">
+            <Input
+              type="file"
+              size="sm"
+              accept=".csv,.json"
+              onChange={(e) => handleFile(e.currentTarget.files?.[0])}
+            />
+            {fileError && (
+              <div className="text-sm text-red-600">{fileError}</div>
+            )}
+            {!isEmpty(fileColumnNames) && (
+              <div className="space-y-2">
+                <div className="text-sm text-gray-600">
+                  {rows.length} {pluralize("row", rows.length)} found. Pick the
+                  column each file column goes into.
+                </div>
+                {fileColumnNames.map((fileColumnName) => (
+                  <div
+                    key={fileColumnName}
+                    className="flex items-center space-x-2"
+                  >
+                    <div className="w-1/2 text-sm truncate">
+                      {fileColumnName}
+                    </div>
+                    <Select
+                      size="sm"
+                      className="w-1/2"
+                      placeholder="Don't import"
+                      value={mapping[fileColumnName] || ""}
+                      onChange={(e) =>
+                        updateMapping(fileColumnName, e.currentTarget.value)
+                      }
+                    >
+                      {columns.map((column) => (
+                        <option key={column.name} value={column.name}>
+                          {column.label}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                ))}
+                {canUpsert && (
+                  <Checkbox
+                    size="sm"
+                    isChecked={upsert}
+                    onChange={(e) => {
+                      setUpsert(e.currentTarget.checked);
+                      setErrors(undefined);
+                    }}
+                  >
+                    Update the records that already exist (matched by primary
+                    key)
+                  </Checkbox>
+                )}
+              </div>
+            )}
+            {errors && isEmpty(errors) && (
+              <div className="text-sm text-green-600">
+                All {rows.length} {pluralize("row", rows.length)} are valid.
+              </div>
+            )}
+            {errors && !isEmpty(errors) && (
+              <div className="text-sm text-red-600 space-y-1">
+                <div>
+                  {errors.length} {pluralize("row", errors.length)} with errors:
+                </div>
+                <ul className="list-disc pl-4">
+                  {errors
+                    .slice(0, MAX_VISIBLE_ERRORS)
+                    .map(({ row, messages }) => (
+                      <li key={row}>
+                        Row {row}: {messages.join(" ")}
+                      </li>
+                    ))}
+                </ul>
+                {errors.length > MAX_VISIBLE_ERRORS && (
+                  <div>
+                    and {errors.length - MAX_VISIBLE_ERRORS} more{" "}
+                    {pluralize("row", errors.length - MAX_VISIBLE_ERRORS)}.
+                  </div>
+                )}
+              </div>
+            )}
+          </ModalBody>
+
+          <ModalFooter>
+            <Button
+              colorScheme="gray"
+              size="sm"
+              variant="outline"
+              mr={3}
+              onClick={onClose}
+            >
+              Cancel
+            </Button>
+            <Button
+              colorScheme="blue"
+              size="sm"
+              variant="outline"
+              mr={3}
+              onClick={() => runImport(true)}
+              isLoading={isLoading}
+              isDisabled={!hasMappedColumns}
+            >
+              Validate
+            </Button>
+            <Button
+              colorScheme="blue"
+              size="sm"
+              onClick={() => runImport(false)}
+              isLoading={isLoading}
+              isDisabled={!errors || !isEmpty(errors)}
+            >
+              Import {rows.length} {pluralize("record", rows.length)}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+}
+
+export default ImportButton;
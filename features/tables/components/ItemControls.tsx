@@ -9,11 +9,15 @@ import React, { memo } from "react";
 
 function ItemControls({ recordId }: { recordId: string }) {
   const { isMd } = useResponsive();
-  const { dataSourceId, tableName, recordsPath } = useDataSourceContext();
+  const { dataSourceId, tableName, viewId, recordsPath } =
+    useDataSourceContext();
   const [deleteRecord] = useDeleteRecordMutation();
   const { info } = useDataSourceResponse(dataSourceId);
   const { canView, canEdit, canDelete } = useACLHelpers({
     dataSourceInfo: info,
+    dataSourceId,
+    tableName,
+    viewId,
   });
 
   const handleDelete = async () => {
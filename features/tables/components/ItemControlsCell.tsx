@@ -1,13 +1,17 @@
 import { Row } from "react-table";
 import { isUndefined } from "lodash";
+import { useRecordIds } from "@/features/records/hooks";
 import ItemControls from "./ItemControls";
 import React, { memo } from "react";
 
 const ItemControlsCell = ({ row }: { row: Row<any> }) => {
-  if (isUndefined(row?.original?.id)) return null;
+  const { getRecordId } = useRecordIds();
+  const recordId = row?.original && getRecordId(row.original);
+
+  if (isUndefined(recordId)) return null;
 
   return <div className="flex items-center justify-center h-full">
-    <ItemControls recordId={row?.original?.id} />
+    <ItemControls recordId={recordId} />
   </div>
 };
 
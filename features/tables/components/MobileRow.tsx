@@ -1,7 +1,7 @@
 import { Checkbox } from "@chakra-ui/react";
 import { Row } from "react-table";
 import { iconForField } from "@/features/fields";
-import { useSelectRecords } from "@/features/records/hooks";
+import { useRecordIds, useSelectRecords } from "@/features/records/hooks";
 import ItemControls from "./ItemControls";
 import React, { memo, useMemo } from "react";
 import classNames from "classnames";
@@ -24,21 +24,23 @@ const MobileIndexFieldWrapper = ({ cell }: { cell: any }) => {
 
 const MobileRow = ({ row }: { row: Row<any> }) => {
   const { selectedRecords, toggleRecordSelection } = useSelectRecords();
+  const { getRecordId } = useRecordIds();
+  const recordId = row?.original && getRecordId(row.original);
 
   return (
     <div
       className={classNames("flex flex-col w-full hover:bg-gray-100 bg-white")}
     >
       <div className="td px-6 py-2 whitespace-nowrap text-sm truncate flex justify-between">
-        {row?.original?.id && (
+        {recordId && (
           <>
             <Checkbox
               size="lg"
               colorScheme="gray"
-              isChecked={selectedRecords.includes(row?.original?.id)}
-              onChange={(e) => toggleRecordSelection(row?.original?.id)}
+              isChecked={selectedRecords.includes(recordId)}
+              onChange={(e) => toggleRecordSelection(recordId)}
             />
-            <ItemControls recordId={row?.original?.id} />
+            <ItemControls recordId={recordId} />
           </>
         )}
       </div>
@@ -21,11 +21,14 @@ import {
   iconForField,
   stringifyData,
 } from "@/features/fields";
+import { isUndefined, sortBy } from "lodash";
 import { parseColumns } from "..";
-import { sortBy } from "lodash";
+import { useACLHelpers } from "@/features/authorization/hooks";
 import { useAppSelector, useDataSourceContext, useResponsive } from "@/hooks";
+import { useDataSourceResponse } from "@/features/data-sources/hooks";
 import {
   useOrderRecords,
+  useRecordIds,
   useResizableColumns,
   useSelectRecords,
 } from "@/features/records/hooks";
@@ -42,7 +45,7 @@ const checkboxColumn = {
   Header: "selector_column",
   accessor: (row: any, i: number) => `selector_column_${i}`,
   // eslint-disable-next-line react/display-name
-  Cell: (row: any) => <CheckboxColumnCell id={row?.row?.original?.id} />,
+  Cell: (row: any) => <CheckboxColumnCell record={row?.row?.original} />,
   width: 50,
   minWidth: 50,
   maxWidth: 50,
@@ -66,7 +69,14 @@ const RecordsTable = ({
   isFetching?: boolean;
 }) => {
   const { isMd } = useResponsive();
-  const { dataSourceId, tableName } = useDataSourceContext();
+  const { dataSourceId, tableName, viewId } = useDataSourceContext();
+  const { info } = useDataSourceResponse(dataSourceId);
+  const { canEdit } = useACLHelpers({
+    dataSourceInfo: info,
+    dataSourceId,
+    tableName,
+    viewId,
+  });
 
   // Display desktop or mobile record row
   const RowComponent = useMemo(() => (isMd ? RecordRow : MobileRow), [isMd]);
@@ -77,10 +87,7 @@ const RecordsTable = ({
 
   const hasRecords = useMemo(() => rawRecords.length > 0, [rawRecords]);
 
-  const hasIdColumn = useMemo(
-    () => rawColumns.find((col) => col.name === "id"),
-    [rawColumns]
-  );
+  const { hasPrimaryKey, getRecordId } = useRecordIds();
 
   const columnWidths = useAppSelector(columnWidthsSelector);
 
@@ -101,8 +108,8 @@ const RecordsTable = ({
   }, [rawColumns, columnWidths]);
 
   const columns = useMemo(() => {
-    // This check is made to ensure columns have id column for the checkbox column and item controls.
-    if (hasIdColumn) {
+    // This check is made to ensure columns have the primary key columns for the checkbox column and item controls.
+    if (hasPrimaryKey) {
       return [checkboxColumn, ...orderedColumns, controlsColumn];
     } else {
       return [...orderedColumns];
@@ -124,6 +131,9 @@ const RecordsTable = ({
       defaultColumn: {
         Cell,
       },
+      canEditCells: canEdit && hasPrimaryKey,
+      rawRecords,
+      getRecordId,
     },
     useColumnOrder,
     useBlockLayout,
@@ -144,7 +154,9 @@ const RecordsTable = ({
 
   const setCheckedItems = (checked: boolean) => {
     if (checked) {
-      const ids = records.map((record) => record?.id);
+      const ids = records
+        .map((record) => getRecordId(record))
+        .filter((id): id is string => !isUndefined(id));
       setRecordsSelected(ids);
     } else {
       resetRecordsSelection();
@@ -2,6 +2,7 @@ import { ChevronDownIcon, ChevronLeftIcon } from "@heroicons/react/outline";
 import { Collapse, useDisclosure } from "@chakra-ui/react";
 import { ListTable } from "@/plugins/data-sources/abstract-sql-query-service/types";
 import { first, isUndefined } from "lodash";
+import { useAccessControl } from "@/features/authorization/hooks";
 import { useDataSourceContext, useProfile } from "@/hooks";
 import { useDataSourceResponse } from "@/features/data-sources/hooks";
 import { useGetTablesQuery } from "@/features/tables/api-slice";
@@ -14,8 +15,9 @@ const TablesSidebarSection = () => {
   const { dataSourceId, tableName, viewId } = useDataSourceContext();
 
   const { isLoading: sessionIsLoading } = useProfile();
+  const ac = useAccessControl();
 
-  const { dataSource, info } = useDataSourceResponse(dataSourceId);
+  const { info } = useDataSourceResponse(dataSourceId);
 
   const {
     data: tablesResponse,
@@ -48,7 +50,7 @@ const TablesSidebarSection = () => {
         >
           Tables{" "}
           <span className="text-xs text-gray-500">
-            (visible only to owners)
+            (visible only to owners and roles with table permissions)
           </span>
           {isTablesOpen ? (
             <ChevronDownIcon className="h-3 inline" />
@@ -74,10 +76,12 @@ const TablesSidebarSection = () => {
             {!tablesLoading &&
               tablesResponse?.ok &&
               tablesResponse.data
-                .filter((table: ListTable) =>
-                  dataSource?.type === "postgresql" && table.schema
-                    ? table.schema === "public"
-                    : true
+                .filter(
+                  (table: ListTable) =>
+                    ac.readAny("record", {
+                      dataSourceId,
+                      tableName: table.name,
+                    }).granted
                 )
                 .map((table: ListTable, idx: number) => (
                   <SidebarItem
@@ -1,4 +1,5 @@
 import type { Column } from "@/features/fields/types";
+import type { TableType } from "@/plugins/data-sources/abstract-sql-query-service/types";
 
 export type Table = {
   columns?: {
@@ -12,6 +13,8 @@ export type Tables = {
 
 export type TableResponse = {
   name: string;
+  type?: TableType;
+  readOnly?: boolean;
 };
 
 export type OrderDirection = "" | "asc" | "desc";
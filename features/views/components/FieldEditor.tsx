@@ -9,6 +9,7 @@ import GenericCodeOption from "./GenericCodeOption"
 import GenericTextOption from "@/features/views/components/GenericTextOption";
 import NullableOption from "@/features/views/components/NullableOption";
 import React, { useMemo } from "react";
+import RolePermissionsOption from "@/features/views/components/RolePermissionsOption";
 import VisibilityOption from "@/features/views/components/VisibilityOption";
 import dynamic from "next/dynamic";
 
@@ -160,6 +161,8 @@ function FieldEditor() {
 
         <VisibilityOption />
 
+        <RolePermissionsOption />
+
         {isComputed && (
           <div className="flex justify-end px-2">
             <Button
@@ -0,0 +1,83 @@
+import { ColumnRolePermission } from "@/features/fields/types";
+import { OWNER_ROLE } from "@/features/roles";
+import { Role } from "@prisma/client";
+import { Select } from "@chakra-ui/react";
+import { useDataSourceContext, useSegment } from "@/hooks";
+import { useDataSourceResponse } from "@/features/data-sources/hooks";
+import { useGetRolesQuery } from "@/features/roles/api-slice";
+import { useUpdateColumn } from "../hooks";
+import OptionWrapper from "@/features/views/components/OptionWrapper";
+import React, { useMemo } from "react";
+
+function RolePermissionsOption() {
+  const track = useSegment();
+  const { dataSourceId } = useDataSourceContext();
+  const { dataSource } = useDataSourceResponse(dataSourceId);
+  const { column, setColumnOptions } = useUpdateColumn();
+
+  const { data: rolesResponse } = useGetRolesQuery(
+    { organizationId: dataSource?.organizationId?.toString() },
+    { skip: !dataSource?.organizationId }
+  );
+
+  // The owners always have access to all the fields.
+  const roles: Role[] = useMemo(
+    () =>
+      rolesResponse?.ok
+        ? rolesResponse.data.filter(({ name }: Role) => name !== OWNER_ROLE)
+        : [],
+    [rolesResponse]
+  );
+
+  const handleOnChange = (roleId: number, permission: ColumnRolePermission) => {
+    if (!column) return;
+
+    track("Updated column option.", {
+      id: "role_permissions",
+      type: "select",
+    });
+
+    setColumnOptions(column.name, {
+      baseOptions: {
+        rolePermissions: {
+          [roleId]: permission,
+        },
+      },
+    });
+  };
+
+  if (!column || roles.length === 0) return null;
+
+  return (
+    <OptionWrapper
+      helpText="Hide this field or make it read-only for some roles. A restricted field is never sent to or accepted from those users."
+      label="Role permissions"
+      id="role_permissions"
+    >
+      {roles.map((role) => (
+        <div className="flex justify-between items-center" key={role.id}>
+          <div>{role.name}</div>
+          <Select
+            size="xs"
+            className="!w-28"
+            value={
+              column?.baseOptions?.rolePermissions?.[role.id] || "editable"
+            }
+            onChange={(e) =>
+              handleOnChange(
+                role.id,
+                e.currentTarget.value as ColumnRolePermission
+              )
+            }
+          >
+            <option value="editable">Editable</option>
+            <option value="readonly">Read-only</option>
+            <option value="hidden">Hidden</option>
+          </Select>
+        </div>
+      ))}
+    </OptionWrapper>
+  );
+}
+
+export default RolePermissionsOption;
@@ -81,6 +81,11 @@ const ViewEditFilters = ({
       </div>
       <Collapse in={isFiltersOpen}>
         <CompactFiltersView filters={appliedFilters} />
+        <div className="text-xs text-gray-500 mt-1">
+          Use <code>{"{{ currentUser.email }}"}</code> or{" "}
+          <code>{"{{ currentUser.role.<attribute> }}"}</code> in a filter value
+          to show each user only their records.
+        </div>
       </Collapse>
     </div>
   );
@@ -6,6 +6,7 @@ import {
 import { Collapse, Tooltip, useDisclosure } from "@chakra-ui/react";
 import { View } from "@prisma/client";
 import { first } from "lodash";
+import { useAccessControl } from "@/features/authorization/hooks";
 import { useDataSourceContext, useProfile } from "@/hooks";
 import { useGetViewsQuery } from "@/features/views/api-slice";
 import DashedCreateBox from "@/components/DashedCreateBox";
@@ -17,6 +18,7 @@ import SidebarItem from "@/components/SidebarItem";
 const ViewsSidebarSection = () => {
   const { dataSourceId, viewId } = useDataSourceContext();
   const { user, isLoading: sessionIsLoading } = useProfile();
+  const ac = useAccessControl();
 
   const {
     data: viewsResponse,
@@ -38,9 +40,14 @@ const ViewsSidebarSection = () => {
       views.filter(
         (view: View) =>
           (view.createdBy === user.id || view.public === true) &&
-          view.dataSourceId === parseInt(dataSourceId)
+          view.dataSourceId === parseInt(dataSourceId) &&
+          ac.readAny("record", {
+            dataSourceId: view.dataSourceId,
+            tableName: view.tableName,
+            viewId: view.id,
+          }).granted
       ),
-    [views, dataSourceId]
+    [views, dataSourceId, ac]
   );
 
   const viewsLoading = useMemo(
@@ -0,0 +1,108 @@
+import { FilterOrFilterGroup } from "@/features/tables/types";
+import { resolveFilterPlaceholders, scopeFilters } from ".";
+
+const makeFilter = (
+  columnName: string,
+  verb: string,
+  value: string,
+  condition = "is"
+) =>
+  ({
+    columnName,
+    verb,
+    condition,
+    value,
+  } as unknown as FilterOrFilterGroup);
+
+describe("scopeFilters", () => {
+  it("keeps the base filters and the user's filters in separate groups", () => {
+    const baseFilters = [
+      makeFilter("account_manager_email", "and", "me@example.com"),
+    ];
+    const filters = [makeFilter("id", "or", "1")];
+
+    expect(scopeFilters(baseFilters, filters)).toEqual([
+      { isGroup: true, verb: "and", filters: baseFilters },
+      { isGroup: true, verb: "and", filters },
+    ]);
+  });
+
+  it("leaves out the empty lists", () => {
+    const filters = [makeFilter("id", "and", "1")];
+
+    expect(scopeFilters(undefined, filters)).toEqual([
+      { isGroup: true, verb: "and", filters },
+    ]);
+    expect(scopeFilters([], [])).toEqual([]);
+  });
+});
+
+describe("resolveFilterPlaceholders", () => {
+  const currentUser = {
+    id: 1,
+    email: "jane@example.com",
+    role: { name: "Sales", regions: "EU,US" },
+  };
+
+  it("replaces the placeholders with the values of the user", () => {
+    expect(
+      resolveFilterPlaceholders(
+        [
+          makeFilter("email", "and", "{{ currentUser.email }}"),
+          makeFilter(
+            "region",
+            "and",
+            "{{ currentUser.role.regions }}",
+            "is_in"
+          ),
+        ],
+        currentUser
+      )
+    ).toEqual([
+      makeFilter("email", "and", "jane@example.com"),
+      makeFilter("region", "and", "EU,US", "is_in"),
+    ]);
+  });
+
+  it("makes the filters without a value match nothing", () => {
+    const matchNothing = (columnName: string, verb: string) => ({
+      isGroup: true,
+      verb,
+      filters: [
+        makeFilter(
+          columnName,
+          "and",
+          undefined as unknown as string,
+          "is_null"
+        ),
+        makeFilter(
+          columnName,
+          "and",
+          undefined as unknown as string,
+          "is_not_null"
+        ),
+      ],
+    });
+
+    expect(
+      resolveFilterPlaceholders(
+        [
+          makeFilter(
+            "region",
+            "and",
+            "%{{ currentUser.role.countries }}%",
+            "contains"
+          ),
+          makeFilter("email", "or", "{{ currentUser.email", "is_not"),
+        ],
+        currentUser
+      )
+    ).toEqual([matchNothing("region", "and"), matchNothing("email", "or")]);
+    expect(
+      resolveFilterPlaceholders(
+        [makeFilter("email", "and", "{{ currentUser.email }}")],
+        { role: {} }
+      )
+    ).toEqual([matchNothing("email", "and")]);
+  });
+});
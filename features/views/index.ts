@@ -0,0 +1,136 @@
+import {
+  FilterOrFilterGroup,
+  IFilter,
+  IFilterGroup,
+} from "@/features/tables/types";
+import { FilterVerbs, StringFilterConditions } from "@/features/tables";
+import { Role } from "@/features/roles/AccessControlService";
+import { User } from "@prisma/client";
+import { isArray, isEmpty, isString, isUndefined } from "lodash";
+import Handlebars from "handlebars";
+
+export type CurrentUserContext = {
+  id?: number;
+  email?: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  role: Record<string, unknown>;
+};
+
+/**
+ * Builds the `currentUser` variable available in the view filter placeholders.
+ * The role attributes are added next to the role name (`{{ currentUser.role.regions }}`).
+ */
+export const getCurrentUserContext = (
+  user?: Pick<User, "id" | "email" | "firstName" | "lastName"> | null,
+  role?: Role | null
+): CurrentUserContext => {
+  const attributes = Object.fromEntries(
+    (role?.options?.attributes || []).map(({ name, value }) => [name, value])
+  );
+
+  return {
+    id: user?.id,
+    email: user?.email,
+    firstName: user?.firstName,
+    lastName: user?.lastName,
+    role: {
+      ...attributes,
+      name: role?.name,
+    },
+  };
+};
+
+// Matches the `{{ }}` and `{{{ }}}` placeholders.
+const PLACEHOLDER_REGEX = /{{{?[^}]*}}}?/g;
+
+/**
+ * Returns `undefined` when a placeholder has no value (missing role attribute, no user or a broken placeholder).
+ * An empty value would widen filters like `contains` or `is_not` instead of narrowing them.
+ */
+const resolveValue = (
+  value: string,
+  currentUser: CurrentUserContext
+): string | undefined => {
+  if (!value.includes("{{")) return value;
+
+  const render = (template: string) =>
+    Handlebars.compile(template, { noEscape: true })({ currentUser });
+
+  try {
+    const placeholders = value.match(PLACEHOLDER_REGEX) || [];
+
+    if (placeholders.some((placeholder) => render(placeholder).trim() === ""))
+      return;
+
+    return render(value);
+  } catch (error) {
+    return;
+  }
+};
+
+// Can't match any record because the column can't be null and not null at once.
+const matchNothing = (filter: IFilter): IFilterGroup => ({
+  isGroup: true,
+  verb: filter.verb,
+  isBase: filter.isBase,
+  filters: [
+    StringFilterConditions.is_null,
+    StringFilterConditions.is_not_null,
+  ].map((condition) => ({
+    ...filter,
+    verb: FilterVerbs.and,
+    condition,
+    value: undefined,
+  })),
+});
+
+/**
+ * Replaces the `{{ currentUser.* }}` placeholders in the view filters with the values of the signed in user.
+ * The filters whose placeholders have no value match no records.
+ */
+export const resolveFilterPlaceholders = (
+  filters: FilterOrFilterGroup[] | null | undefined,
+  currentUser: CurrentUserContext
+): FilterOrFilterGroup[] => {
+  if (!isArray(filters)) return [];
+
+  return filters.map((filter) => {
+    if ("isGroup" in filter && filter.isGroup) {
+      return {
+        ...filter,
+        filters: resolveFilterPlaceholders(
+          (filter as IFilterGroup).filters,
+          currentUser
+        ) as IFilter[],
+      };
+    }
+
+    const { value } = filter as IFilter;
+
+    if (!isString(value)) return filter;
+
+    const resolvedValue = resolveValue(value, currentUser);
+
+    if (isUndefined(resolvedValue)) return matchNothing(filter as IFilter);
+
+    return { ...filter, value: resolvedValue };
+  });
+};
+
+/**
+ * Combines the base filters of a view with the user's filters.
+ * Each list goes in its own group so the user's `or` filters can't match records outside the base filters.
+ */
+export const scopeFilters = (
+  baseFilters: FilterOrFilterGroup[] | undefined,
+  filters: FilterOrFilterGroup[] | undefined
+): FilterOrFilterGroup[] =>
+  [baseFilters, filters]
+    .filter((list): list is FilterOrFilterGroup[] => !isEmpty(list))
+    .map((list) => ({
+      isGroup: true,
+      verb: FilterVerbs.and,
+      // The query services nest the groups as deep as they go.
+      filters: list as IFilter[],
+    }));
@@ -0,0 +1,95 @@
+import { apiUrl } from "@/features/api/urls";
+import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import ApiResponse from "@/features/api/ApiResponse";
+
+export const webhooksApiSlice = createApi({
+  reducerPath: "webhooksApi",
+  baseQuery: fetchBaseQuery({
+    baseUrl: apiUrl,
+  }),
+  tagTypes: ["Webhook", "WebhookDelivery"],
+  endpoints(builder) {
+    return {
+      getWebhooks: builder.query<
+        ApiResponse,
+        Partial<{ organizationId: string }>
+      >({
+        query: ({ organizationId }) =>
+          `/organizations/${organizationId}/webhooks`,
+        providesTags: [{ type: "Webhook", id: "LIST" }],
+      }),
+      createWebhook: builder.mutation<
+        ApiResponse,
+        Partial<{ organizationId: string; body: Record<string, unknown> }>
+      >({
+        query: ({ organizationId, body }) => ({
+          url: `/organizations/${organizationId}/webhooks`,
+          method: "POST",
+          body,
+        }),
+        invalidatesTags: [{ type: "Webhook", id: "LIST" }],
+      }),
+      updateWebhook: builder.mutation<
+        ApiResponse,
+        Partial<{
+          organizationId: string;
+          webhookId: string;
+          body: Record<string, unknown>;
+        }>
+      >({
+        query: ({ organizationId, webhookId, body }) => ({
+          url: `/organizations/${organizationId}/webhooks/${webhookId}`,
+          method: "PUT",
+          body,
+        }),
+        invalidatesTags: [{ type: "Webhook", id: "LIST" }],
+      }),
+      deleteWebhook: builder.mutation<
+        ApiResponse,
+        Partial<{ organizationId: string; webhookId: string }>
+      >({
+        query: ({ organizationId, webhookId }) => ({
+          url: `/organizations/${organizationId}/webhooks/${webhookId}`,
+          method: "DELETE",
+        }),
+        invalidatesTags: [{ type: "Webhook", id: "LIST" }],
+      }),
+      getWebhookDeliveries: builder.query<
+        ApiResponse,
+        Partial<{ organizationId: string; webhookId: string }>
+      >({
+        query: ({ organizationId, webhookId }) =>
+          `/organizations/${organizationId}/webhooks/${webhookId}/deliveries`,
+        providesTags: (result, error, { webhookId }) => [
+          { type: "WebhookDelivery", id: webhookId },
+        ],
+      }),
+      redeliverWebhook: builder.mutation<
+        ApiResponse,
+        Partial<{
+          organizationId: string;
+          webhookId: string;
+          deliveryId: string;
+        }>
+      >({
+        query: ({ organizationId, webhookId, deliveryId }) => ({
+          url: `/organizations/${organizationId}/webhooks/${webhookId}/deliveries`,
+          method: "POST",
+          body: { deliveryId },
+        }),
+        invalidatesTags: (result, error, { webhookId }) => [
+          { type: "WebhookDelivery", id: webhookId },
+        ],
+      }),
+    };
+  },
+});
+
+export const {
+  useGetWebhooksQuery,
+  useCreateWebhookMutation,
+  useUpdateWebhookMutation,
+  useDeleteWebhookMutation,
+  useGetWebhookDeliveriesQuery,
+  useRedeliverWebhookMutation,
+} = webhooksApiSlice;
@@ -0,0 +1,89 @@
+import { Button } from "@chakra-ui/react";
+import { WebhookDelivery } from "@prisma/client";
+import { isEmpty } from "lodash";
+import {
+  useGetWebhookDeliveriesQuery,
+  useRedeliverWebhookMutation,
+} from "@/features/webhooks/api-slice";
+import React, { memo, useMemo } from "react";
+import classNames from "classnames";
+
+const WebhookDeliveries = ({
+  organizationId,
+  webhookId,
+}: {
+  organizationId: string;
+  webhookId: string;
+}) => {
+  const { data: deliveriesResponse, isFetching } = useGetWebhookDeliveriesQuery(
+    { organizationId, webhookId }
+  );
+  const [redeliver, { isLoading: isRedelivering }] =
+    useRedeliverWebhookMutation();
+
+  const deliveries: WebhookDelivery[] = useMemo(
+    () => (deliveriesResponse?.ok ? deliveriesResponse.data : []),
+    [deliveriesResponse]
+  );
+
+  if (isEmpty(deliveries)) {
+    return (
+      <div className="text-sm text-gray-600">
+        {isFetching ? "Loading..." : "No deliveries yet."}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y text-sm">
+      {deliveries.map((delivery) => (
+        <li
+          key={delivery.id}
+          className="py-1 flex justify-between items-center space-x-2"
+        >
+          <div className="flex-1">
+            <span
+              className={classNames("font-semibold uppercase text-xs", {
+                "text-green-600": delivery.status === "success",
+                "text-yellow-600": delivery.status === "pending",
+                "text-red-600": delivery.status === "failed",
+              })}
+            >
+              {delivery.status}
+            </span>{" "}
+            {delivery.event} · {delivery.attempts}{" "}
+            {delivery.attempts === 1 ? "attempt" : "attempts"}
+            {delivery.responseStatus && ` · HTTP ${delivery.responseStatus}`}
+            <div className="text-xs text-gray-600">
+              {new Date(delivery.createdAt).toLocaleString()}
+              {delivery.nextAttemptAt &&
+                ` · next attempt ${new Date(
+                  delivery.nextAttemptAt
+                ).toLocaleString()}`}
+            </div>
+            {delivery.status !== "success" && delivery.responseBody && (
+              <div className="text-xs text-gray-500 truncate">
+                {delivery.responseBody}
+              </div>
+            )}
+          </div>
+          <Button
+            size="xs"
+            isLoading={isRedelivering}
+            onClick={() =>
+              redeliver({
+                organizationId,
+                webhookId,
+                deliveryId: delivery.id.toString(),
+              })
+            }
+          >
+            Redeliver
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default memo(WebhookDeliveries);
@@ -0,0 +1,303 @@
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Code,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Select,
+  Stack,
+  Switch,
+} from "@chakra-ui/react";
+import { DataSource, View } from "@prisma/client";
+import { ListTable } from "@/plugins/data-sources/abstract-sql-query-service/types";
+import { WEBHOOK_EVENTS } from "@/features/webhooks/constants";
+import { isEmpty, pick } from "lodash";
+import {
+  useCreateWebhookMutation,
+  useDeleteWebhookMutation,
+  useUpdateWebhookMutation,
+} from "@/features/webhooks/api-slice";
+import { useGetTablesQuery } from "@/features/tables/api-slice";
+import { useGetViewsQuery } from "@/features/views/api-slice";
+import OptionWrapper from "@/features/views/components/OptionWrapper";
+import React, { useEffect, useMemo, useState } from "react";
+import WebhookDeliveries from "./WebhookDeliveries";
+
+export type WebhookItem = {
+  id?: number;
+  name: string;
+  url: string;
+  events: string[];
+  enabled: boolean;
+  dataSourceId: number | null;
+  tableName: string | null;
+  viewId: number | null;
+  secret?: string;
+};
+
+const emptyWebhook: WebhookItem = {
+  name: "",
+  url: "",
+  events: [...WEBHOOK_EVENTS],
+  enabled: true,
+  dataSourceId: null,
+  tableName: null,
+  viewId: null,
+};
+
+const WebhookEditor = ({
+  organizationId,
+  dataSources,
+  currentWebhook = emptyWebhook,
+  onSaved,
+}: {
+  organizationId: string;
+  dataSources: Pick<DataSource, "id" | "name">[];
+  currentWebhook?: WebhookItem;
+  onSaved: (webhookId?: number) => void;
+}) => {
+  const isCreateForm = !currentWebhook.id;
+  const [webhook, setWebhook] = useState<WebhookItem>(currentWebhook);
+
+  useEffect(() => setWebhook(currentWebhook), [currentWebhook]);
+
+  const { data: tablesResponse } = useGetTablesQuery(
+    { dataSourceId: webhook.dataSourceId?.toString() || "" },
+    { skip: !webhook.dataSourceId }
+  );
+  const tables = useMemo<ListTable[]>(
+    () => (tablesResponse?.ok ? tablesResponse.data : []),
+    [tablesResponse]
+  );
+  const { data: viewsResponse } = useGetViewsQuery();
+  const views = useMemo<View[]>(
+    () =>
+      (viewsResponse?.ok ? viewsResponse.data : []).filter(
+        (view: View) =>
+          view.dataSourceId === webhook.dataSourceId &&
+          (!webhook.tableName || view.tableName === webhook.tableName)
+      ),
+    [viewsResponse, webhook.dataSourceId, webhook.tableName]
+  );
+
+  const [createWebhook, { isLoading: isCreating }] = useCreateWebhookMutation();
+  const [updateWebhook, { isLoading: isUpdating }] = useUpdateWebhookMutation();
+  const [deleteWebhook, { isLoading: isDeleting }] = useDeleteWebhookMutation();
+
+  const body = pick(webhook, [
+    "name",
+    "url",
+    "events",
+    "enabled",
+    "dataSourceId",
+    "tableName",
+    "viewId",
+  ]);
+
+  const handleSubmit = async (e: any) => {
+    e.preventDefault();
+
+    const response = isCreateForm
+      ? await createWebhook({ organizationId, body }).unwrap()
+      : await updateWebhook({
+          organizationId,
+          webhookId: currentWebhook.id?.toString(),
+          body,
+        }).unwrap();
+
+    if (response?.ok) onSaved(response.data.id);
+  };
+
+  const handleDelete = async () => {
+    if (confirm("Are you sure you want to remove this webhook?")) {
+      await deleteWebhook({
+        organizationId,
+        webhookId: currentWebhook.id?.toString(),
+      });
+      onSaved();
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col justify-between">
+      <form onSubmit={handleSubmit} className="divide-y">
+        <h3 className="uppercase text-md font-semibold">
+          {isCreateForm ? "Add a new webhook" : currentWebhook.name}
+        </h3>
+        <OptionWrapper helpText="Give this webhook a name to remember">
+          <FormControl id="name">
+            <FormLabel>Name</FormLabel>
+            <Input
+              value={webhook.name}
+              placeholder="Sync to the CRM"
+              onChange={(e) =>
+                setWebhook({ ...webhook, name: e.currentTarget.value })
+              }
+            />
+          </FormControl>
+        </OptionWrapper>
+        <OptionWrapper helpText="We'll POST a JSON payload with the activity, the changes and the user who made them to this URL.">
+          <FormControl id="url">
+            <FormLabel>Payload URL</FormLabel>
+            <Input
+              type="url"
+              value={webhook.url}
+              placeholder="https://example.com/basetool-webhook"
+              onChange={(e) =>
+                setWebhook({ ...webhook, url: e.currentTarget.value })
+              }
+            />
+          </FormControl>
+        </OptionWrapper>
+        <OptionWrapper helpText="Which record events should trigger this webhook?">
+          <FormControl id="events">
+            <FormLabel>Events</FormLabel>
+            <CheckboxGroup
+              value={webhook.events}
+              onChange={(value) =>
+                setWebhook({ ...webhook, events: value as string[] })
+              }
+            >
+              <Stack direction="row">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <Checkbox key={event} value={event}>
+                    {event}
+                  </Checkbox>
+                ))}
+              </Stack>
+            </CheckboxGroup>
+          </FormControl>
+        </OptionWrapper>
+        <OptionWrapper helpText="Only send the events of a data source, a table or a view.">
+          <FormControl id="filters">
+            <FormLabel>Filters</FormLabel>
+            <div className="flex space-x-1">
+              <Select
+                size="sm"
+                value={webhook.dataSourceId || ""}
+                onChange={(e) =>
+                  setWebhook({
+                    ...webhook,
+                    dataSourceId: e.currentTarget.value
+                      ? parseInt(e.currentTarget.value)
+                      : null,
+                    tableName: null,
+                    viewId: null,
+                  })
+                }
+              >
+                <option value="">All data sources</option>
+                {dataSources.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+              <Select
+                size="sm"
+                value={webhook.tableName || ""}
+                isDisabled={!webhook.dataSourceId}
+                onChange={(e) =>
+                  setWebhook({
+                    ...webhook,
+                    tableName: e.currentTarget.value || null,
+                    viewId: null,
+                  })
+                }
+              >
+                <option value="">All tables</option>
+                {tables.map(({ name }) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+              <Select
+                size="sm"
+                value={webhook.viewId || ""}
+                isDisabled={!webhook.dataSourceId}
+                onChange={(e) =>
+                  setWebhook({
+                    ...webhook,
+                    viewId: e.currentTarget.value
+                      ? parseInt(e.currentTarget.value)
+                      : null,
+                  })
+                }
+              >
+                <option value="">All views</option>
+                {views.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </FormControl>
+        </OptionWrapper>
+        <OptionWrapper helpText="Disabled webhooks don't receive any events.">
+          <FormControl id="enabled" display="flex" alignItems="center">
+            <FormLabel mb="0">Enabled</FormLabel>
+            <Switch
+              isChecked={webhook.enabled}
+              onChange={(e) =>
+                setWebhook({ ...webhook, enabled: e.currentTarget.checked })
+              }
+            />
+          </FormControl>
+        </OptionWrapper>
+        {webhook.secret && (
+          <OptionWrapper helpText="Verify the requests by computing the HMAC SHA256 of the raw body with this secret.">
+            <FormControl id="secret">
+              <FormLabel>Signing secret</FormLabel>
+              <Code className="break-all">{webhook.secret}</Code>
+              <FormHelperText>
+                Compare it with the <Code>X-Basetool-Signature</Code> header (
+                <Code>sha256=&lt;hex digest&gt;</Code>).
+              </FormHelperText>
+            </FormControl>
+          </OptionWrapper>
+        )}
+        {!isCreateForm && currentWebhook.id && (
+          <OptionWrapper helpText="The last 50 deliveries. Failed deliveries are retried up to 6 times with an increasing delay.">
+            <FormControl id="deliveries">
+              <FormLabel>Recent deliveries</FormLabel>
+              <WebhookDeliveries
+                organizationId={organizationId}
+                webhookId={currentWebhook.id.toString()}
+              />
+            </FormControl>
+          </OptionWrapper>
+        )}
+      </form>
+      <div className="grid grid-cols-3 mt-4">
+        <div>
+          {!isCreateForm && (
+            <a
+              className="text-red-600 text-sm cursor-pointer"
+              onClick={() => !isDeleting && handleDelete()}
+            >
+              Remove webhook
+            </a>
+          )}
+        </div>
+        <Button
+          colorScheme="blue"
+          size="sm"
+          width="300px"
+          onClick={handleSubmit}
+          disabled={isEmpty(webhook.name) || isEmpty(webhook.url)}
+          isLoading={isCreating || isUpdating}
+        >
+          {isCreateForm ? "Create" : "Save"}
+        </Button>
+        <div></div>
+      </div>
+    </div>
+  );
+};
+
+export default WebhookEditor;
@@ -0,0 +1 @@
+export const WEBHOOK_EVENTS = ["create", "update", "delete"] as const;
@@ -0,0 +1,55 @@
+import { isPrivateAddress, isPublicUrl, retryDueDeliveries } from ".";
+import prisma from "@/prisma";
+
+jest.mock("@/prisma", () => ({
+  webhookDelivery: {
+    findMany: jest.fn(async () => []),
+  },
+}));
+
+describe("isPrivateAddress", () => {
+  it("flags the loopback, private and link-local addresses", () => {
+    [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ].forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+  });
+
+  it("lets public addresses through", () => {
+    ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:1.1.1.1"].forEach(
+      (address) => expect(isPrivateAddress(address)).toBe(false)
+    );
+  });
+});
+
+describe("isPublicUrl", () => {
+  it("checks the IP literals without resolving them", async () => {
+    expect(await isPublicUrl("http://169.254.169.254/latest")).toBe(false);
+    expect(await isPublicUrl("http://[::1]:8080/hook")).toBe(false);
+    expect(await isPublicUrl("https://1.1.1.1/hook")).toBe(true);
+    expect(await isPublicUrl("not a url")).toBe(false);
+  });
+});
+
+describe("retryDueDeliveries", () => {
+  it("only retries the deliveries of enabled webhooks", async () => {
+    expect(await retryDueDeliveries()).toBe(0);
+    expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          status: "pending",
+          webhook: { enabled: true },
+        }),
+      })
+    );
+  });
+});
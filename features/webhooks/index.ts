@@ -0,0 +1,349 @@
+import {
+  Activity,
+  Prisma,
+  User,
+  Webhook,
+  WebhookDelivery,
+} from "@prisma/client";
+import { WEBHOOK_EVENTS } from "@/features/webhooks/constants";
+import { decrypt } from "@/lib/crypto";
+import { isEmpty, isNil, omit } from "lodash";
+import axios from "axios";
+import crypto from "crypto";
+import dns, { LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import logger from "@/lib/logger";
+import net from "net";
+import prisma from "@/prisma";
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookDeliveryStatus = "pending" | "success" | "failed";
+
+export const SIGNATURE_HEADER = "X-Basetool-Signature";
+
+// After this many attempts the delivery is marked as failed.
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const DELIVERY_TIMEOUT = 5000;
+
+export type WebhookData = Pick<
+  Prisma.WebhookUncheckedCreateInput,
+  | "name"
+  | "url"
+  | "events"
+  | "enabled"
+  | "dataSourceId"
+  | "tableName"
+  | "viewId"
+>;
+
+export const WEBHOOK_FIELDS = [
+  "name",
+  "url",
+  "events",
+  "enabled",
+  "dataSourceId",
+  "tableName",
+  "viewId",
+];
+
+// Bulk deletes are sent as `delete` events, restores as `create` events and reverts as `update` events.
+const eventsByAction: Record<string, WebhookEvent> = {
+  create: "create",
+  restore: "create",
+  update: "update",
+  delete: "delete",
+  bulkDelete: "delete",
+  revert: "update",
+};
+
+/**
+ * Signs the raw JSON body with the webhook secret so receivers can verify the request came from us.
+ */
+export const signPayload = (secret: string, body: string): string =>
+  `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+
+/**
+ * Replaces the encrypted secret with the plain one so owners can configure their receivers.
+ */
+export const serializeWebhook = (webhook: Webhook) => ({
+  ...omit(webhook, ["encryptedSecret"]),
+  secret: decrypt(webhook.encryptedSecret),
+});
+
+export const generateWebhookSecret = (): string =>
+  `whsec_${crypto.randomBytes(24).toString("hex")}`;
+
+/**
+ * Exponential backoff: 1, 2, 4, 8 and 16 minutes after the failed attempts.
+ */
+export const getNextAttemptAt = (attempts: number): Date | null => {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+
+  return new Date(Date.now() + 2 ** (attempts - 1) * 60 * 1000);
+};
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split(".").map((part) => parseInt(part, 10));
+
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+};
+
+/**
+ * Tells if the IP address points to a loopback, private, link-local or reserved network.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  if (!net.isIPv6(address)) return true;
+
+  const normalized = address.toLowerCase();
+  const mappedIPv4 = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedIPv4) return isPrivateIPv4(mappedIPv4[1]);
+
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // unique local
+    /^fe[89ab]/.test(normalized) || // link-local
+    /^ff/.test(normalized) // multicast
+  );
+};
+
+/**
+ * Resolves the host and checks that none of its addresses are private, so webhooks can't be used to reach our internal network.
+ */
+export const isPublicUrl = async (url: string): Promise<boolean> => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch (error) {
+    return false;
+  }
+
+  if (net.isIP(hostname)) return !isPrivateAddress(hostname);
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+
+    return addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch (error) {
+    return false;
+  }
+};
+
+// Checks the addresses at connection time too, so a host can't pass the check and later resolve to a private address.
+const publicLookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    const addresses = Array.isArray(address)
+      ? address.map((item: LookupAddress) => item.address)
+      : [address];
+
+    if (!error && addresses.some(isPrivateAddress)) {
+      return callback(
+        new Error(`${hostname} resolves to a private address.`),
+        address,
+        family
+      );
+    }
+
+    callback(error, address, family);
+  });
+}) as typeof dns.lookup;
+
+const httpAgent = new http.Agent({ lookup: publicLookup } as http.AgentOptions);
+const httpsAgent = new https.Agent({
+  lookup: publicLookup,
+} as https.AgentOptions);
+
+const webhookMatchesActivity = (webhook: Webhook, activity: Activity) => {
+  const event = eventsByAction[activity.action];
+  const events = (webhook.events as string[]) || [];
+
+  if (!event || (!isEmpty(events) && !events.includes(event))) return false;
+  if (
+    !isNil(webhook.dataSourceId) &&
+    webhook.dataSourceId !== activity.dataSourceId
+  )
+    return false;
+  if (!isNil(webhook.tableName) && webhook.tableName !== activity.tableName)
+    return false;
+  if (!isNil(webhook.viewId) && webhook.viewId !== activity.viewId)
+    return false;
+
+  return true;
+};
+
+/**
+ * Sends the delivery once and stores the outcome. Failed deliveries are scheduled for a retry.
+ */
+export const attemptDelivery = async (
+  delivery: WebhookDelivery & { webhook: Webhook }
+): Promise<WebhookDelivery> => {
+  const body = JSON.stringify(delivery.payload);
+  const secret = decrypt(delivery.webhook.encryptedSecret) || "";
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody = "";
+
+  try {
+    // The agents only check the resolved addresses, IP literals skip the lookup.
+    if (!(await isPublicUrl(delivery.webhook.url))) {
+      throw new Error("The webhook URL points to a private address.");
+    }
+
+    const response = await axios.post(delivery.webhook.url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        [SIGNATURE_HEADER]: signPayload(secret, body),
+        "X-Basetool-Event": delivery.event,
+        "X-Basetool-Delivery": delivery.id.toString(),
+      },
+      timeout: DELIVERY_TIMEOUT,
+      httpAgent,
+      httpsAgent,
+      // A redirect could point to a private address.
+      maxRedirects: 0,
+      // We store the status ourselves so we don't want axios to throw on it.
+      validateStatus: () => true,
+    });
+
+    responseStatus = response.status;
+    responseBody = JSON.stringify(response.data);
+  } catch (error: any) {
+    responseBody = error.message;
+  }
+
+  const succeeded =
+    !isNil(responseStatus) && responseStatus >= 200 && responseStatus < 300;
+  const nextAttemptAt = succeeded ? null : getNextAttemptAt(attempts);
+  let status: WebhookDeliveryStatus = "success";
+  if (!succeeded) status = nextAttemptAt ? "pending" : "failed";
+
+  return prisma.webhookDelivery.update({
+    where: {
+      id: delivery.id,
+    },
+    data: {
+      attempts,
+      status,
+      responseStatus,
+      // Don't let a chatty endpoint fill up the database.
+      responseBody: responseBody?.substring(0, 1000),
+      nextAttemptAt,
+    },
+  });
+};
+
+/**
+ * Stores a delivery for each webhook of the organization listening to the activity and sends them in the background.
+ * The deliveries are stored as due in a minute, so the retry job sends them if this process goes away before they're sent.
+ */
+export const triggerWebhooks = async (
+  activity: Activity,
+  {
+    actor,
+    record,
+  }: {
+    actor?: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+    record?: Record<string, unknown>;
+  } = {}
+): Promise<void> => {
+  const event = eventsByAction[activity.action];
+
+  if (!event) return;
+
+  const webhooks = await prisma.webhook.findMany({
+    where: {
+      organizationId: activity.organizationId,
+      enabled: true,
+    },
+  });
+
+  const payload = {
+    event,
+    activity,
+    changes: activity.changes,
+    record,
+    actor: actor
+      ? {
+          id: actor.id,
+          email: actor.email,
+          firstName: actor.firstName,
+          lastName: actor.lastName,
+        }
+      : null,
+    sentAt: new Date().toISOString(),
+  };
+
+  const deliveries = await Promise.all(
+    webhooks
+      .filter((webhook: Webhook) => webhookMatchesActivity(webhook, activity))
+      .map(async (webhook: Webhook) => {
+        const delivery = await prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            activityId: activity.id,
+            event,
+            payload: JSON.parse(JSON.stringify(payload)),
+            nextAttemptAt: getNextAttemptAt(1),
+          },
+        });
+
+        return { ...delivery, webhook };
+      })
+  );
+
+  // Don't keep the record write waiting on slow receivers.
+  deliveries.forEach((delivery) =>
+    attemptDelivery(delivery).catch((error) =>
+      logger.warn(`Failed to deliver webhook ${delivery.webhookId}.`, error)
+    )
+  );
+};
+
+/**
+ * Retries the pending deliveries that are due. It's meant to be called periodically.
+ */
+export const retryDueDeliveries = async (): Promise<number> => {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      status: "pending",
+      nextAttemptAt: {
+        lte: new Date(),
+      },
+      // The deliveries of disabled webhooks wait until they're enabled again.
+      webhook: {
+        enabled: true,
+      },
+    },
+    include: {
+      webhook: true,
+    },
+    take: 50,
+  });
+
+  for (const delivery of deliveries) {
+    await attemptDelivery(delivery);
+  }
+
+  return deliveries.length;
+};
@@ -0,0 +1,17 @@
+import { WEBHOOK_EVENTS } from "@/features/webhooks/constants";
+import Joi from "joi";
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).max(255).required(),
+  url: Joi.string()
+    .uri({ scheme: ["http", "https"] })
+    .required(),
+  events: Joi.array()
+    .items(Joi.string().valid(...WEBHOOK_EVENTS))
+    .min(1)
+    .required(),
+  enabled: Joi.boolean(),
+  dataSourceId: Joi.number().allow(null),
+  tableName: Joi.string().allow(null),
+  viewId: Joi.number().allow(null),
+});
@@ -70,6 +70,7 @@ export const useOrganizationFromProfile = ({
 }):
   | (Organization & {
       users: Array<OrganizationUser & { user: User }>;
+      dataSources: DataSource[];
     })
   | undefined => {
   const { organizations } = useProfile();
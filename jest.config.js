@@ -0,0 +1,11 @@
+// Tests are compiled with Babel so `jest.mock` calls are hoisted above the imports.
+module.exports = {
+  testEnvironment: "node",
+  transform: {
+    "^.+\\.(js|jsx|ts|tsx)$": ["babel-jest", { presets: ["next/babel"] }],
+  },
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+  testPathIgnorePatterns: ["<rootDir>/node_modules/", "<rootDir>/cypress/"],
+};
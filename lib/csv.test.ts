@@ -0,0 +1,22 @@
+import { parseCsv, toCsvRow } from "./csv";
+
+describe("toCsvRow", () => {
+  it("quotes the values that would break the row", () => {
+    expect(toCsvRow(["a,b", 'say "hi"', null, 2])).toBe(
+      '"a,b","say ""hi""",,2'
+    );
+  });
+
+  it("escapes the values spreadsheet apps would run as formulas", () => {
+    expect(toCsvRow(["=1+1", "+1", "-cmd", "@SUM(A1)", -5])).toBe(
+      "'=1+1,'+1,'-cmd,'@SUM(A1),-5"
+    );
+    expect(toCsvRow(["=1+1"], { escapeFormulas: false })).toBe("=1+1");
+  });
+
+  it("round trips through the parser", () => {
+    expect(parseCsv(toCsvRow(["a,b", 'say "hi"', "line\nbreak"]))).toEqual([
+      ["a,b", 'say "hi"', "line\nbreak"],
+    ]);
+  });
+});
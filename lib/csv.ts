@@ -0,0 +1,112 @@
+import { isNil } from "lodash";
+
+// Spreadsheet apps run the cells starting with these as formulas.
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: unknown, escapeFormulas: boolean): string => {
+  if (isNil(value)) return "";
+
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  // Prefix with a quote so the cell is shown as text. Numbers are left as they are so negative ones stay numbers.
+  if (
+    escapeFormulas &&
+    typeof value !== "number" &&
+    FORMULA_PREFIX_REGEX.test(text)
+  ) {
+    text = `'${text}`;
+  }
+
+  // Quote the values that would break the row and double the quotes inside them.
+  if (/[",\r\n]/.test(text)) return `"${text.replace(/"/g, '""')}"`;
+
+  return text;
+};
+
+/**
+ * Serializes one row of values to a CSV line, without the line break.
+ * Values that spreadsheet apps would run as formulas are escaped unless `escapeFormulas` is off.
+ */
+export const toCsvRow = (
+  values: unknown[],
+  { escapeFormulas = true }: { escapeFormulas?: boolean } = {}
+): string =>
+  values.map((value) => escapeCsvValue(value, escapeFormulas)).join(",");
+
+/**
+ * Serializes the rows to CSV with a header row made of the column names.
+ */
+export const toCsv = (
+  rows: Record<string, unknown>[],
+  columns: string[],
+  options: { escapeFormulas?: boolean } = {}
+): string =>
+  [
+    toCsvRow(columns, options),
+    ...rows.map((row) =>
+      toCsvRow(
+        columns.map((column) => row[column]),
+        options
+      )
+    ),
+  ].join("\r\n");
+
+// The delimiter that shows up the most in the header row wins.
+const detectDelimiter = (text: string): string => {
+  const headerRow = text.split(/\r?\n/)[0] || "";
+  const counts = [",", ";", "\t"].map(
+    (delimiter) => [delimiter, headerRow.split(delimiter).length] as const
+  );
+
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Parses CSV text into rows of values. Handles quoted values with delimiters, quotes and new lines inside them.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  // Remove the byte order mark Excel adds to the files it exports.
+  const content = text.replace(/^\uFEFF/, "");
+
+  for (let idx = 0; idx < content.length; idx++) {
+    const char = content[idx];
+
+    if (inQuotes) {
+      if (char === '"' && content[idx + 1] === '"') {
+        value += '"';
+        idx++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[idx + 1] === "\n") idx++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+
+  // The last row might not end with a new line.
+  if (value !== "" || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+};
@@ -10,6 +10,7 @@ import { recordsApiSlice } from "@/features/records/api-slice";
 import { rolesApiSlice } from "@/features/roles/api-slice";
 import { tablesApiSlice } from "@/features/tables/api-slice";
 import { api as viewsApiSlice } from "@/features/views/api-slice";
+import { webhooksApiSlice } from "@/features/webhooks/api-slice";
 import appState from "@/features/app/state-slice";
 import recordsReducer from "@/features/records/state-slice";
 
@@ -49,6 +50,7 @@ const store = configureStore({
     [viewsApiSlice.reducerPath]: viewsApiSlice.reducer,
     [fieldsApiSlice.reducerPath]: fieldsApiSlice.reducer,
     [dashboardsApiSlice.reducerPath]: dashboardsApiSlice.reducer,
+    [webhooksApiSlice.reducerPath]: webhooksApiSlice.reducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware().concat(
@@ -61,6 +63,7 @@ const store = configureStore({
       viewsApiSlice.middleware,
       fieldsApiSlice.middleware,
       dashboardsApiSlice.middleware,
+      webhooksApiSlice.middleware,
       rtkQueryErrorLogger
     ),
   devTools: process.env.NODE_ENV !== "production",
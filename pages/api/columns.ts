@@ -1,6 +1,11 @@
 import { get } from "lodash";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getViewFromRequest,
+} from "@/features/api";
 import { getColumns } from "@/features/fields/getColumns";
-import { getDataSourceFromRequest, getViewFromRequest } from "@/features/api";
+import { restrictColumns } from "@/features/records";
 import { withMiddlewares } from "@/features/api/middleware";
 import ApiResponse from "@/features/api/ApiResponse";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
@@ -35,8 +40,13 @@ const columnsForTable = async (req: NextApiRequest, res: NextApiResponse) => {
   ]);
 
   const columns = await getColumns({ dataSource, tableName, storedColumns });
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    tableName
+  );
 
-  res.json(ApiResponse.withData(columns));
+  res.json(ApiResponse.withData(restrictColumns(columns, columnPermissions)));
 };
 
 const columnsForView = async (req: NextApiRequest, res: NextApiResponse) => {
@@ -54,8 +64,13 @@ const columnsForView = async (req: NextApiRequest, res: NextApiResponse) => {
   const storedColumns = view.columns as [] || [];
 
   const columns = await getColumns({ dataSource, tableName, storedColumns });
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    tableName
+  );
 
-  res.json(ApiResponse.withData(columns));
+  res.json(ApiResponse.withData(restrictColumns(columns, columnPermissions)));
 };
 
 async function handleGET(req: NextApiRequest, res: NextApiResponse) {
@@ -1,4 +1,8 @@
+import { Prisma } from "@prisma/client";
 import { getDataSourceFromRequest, getUserFromRequest } from "@/features/api";
+import { isEmpty, isPlainObject, isUndefined } from "lodash";
+import { parseSchemas } from "@/features/data-sources";
+import { removeStoredFile } from "@/plugins/data-sources/csv/storage";
 import { serverSegment } from "@/lib/track";
 import { withMiddlewares } from "@/features/api/middleware";
 import ApiResponse from "@/features/api/ApiResponse";
@@ -39,14 +43,22 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
   if (!dataSource) return res.status(404).send("");
 
   const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+  const options = dataSource.options as {
+    pagination?: { type?: string };
+    allowEdits?: boolean;
+  } | null;
+  // Some data sources (Swagger) let the user pick how the API paginates.
+  const paginationType = options?.pagination?.type;
 
   res.json(
     ApiResponse.withData(dataSource, {
       meta: {
         dataSourceInfo: {
-          readOnly: dataSourceInfo?.readOnly || false,
+          // Read-only data sources (Redshift) can be opened up for edits by the user.
+          readOnly: (dataSourceInfo?.readOnly && !options?.allowEdits) || false,
           supports: dataSourceInfo?.supports || {},
-          pagination: dataSourceInfo?.pagination,
+          pagination:
+            paginationType === "cursor" ? "cursor" : dataSourceInfo?.pagination,
         },
       },
     })
@@ -67,6 +79,7 @@ async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
     },
     data: {
       name: req.body.name,
+      options: getUpdatedOptions(dataSource.options, req.body.options),
     },
   });
 
@@ -92,6 +105,10 @@ async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
     },
   });
 
+  if (dataSource?.type === "csv") {
+    await removeStoredFile(dataSource.id);
+  }
+
   serverSegment().track({
     userId: user ? user.id : "",
     email: user ? user?.email : "",
@@ -104,6 +121,31 @@ async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
   return res.json(ApiResponse.withMessage("Data source removed."));
 }
 
+/**
+ * Only the Postgres schemas and the database views toggle can be changed after the data source was created.
+ */
+const getUpdatedOptions = (
+  options: Prisma.JsonValue,
+  changes?: Record<string, unknown>
+): Prisma.InputJsonObject | undefined => {
+  if (!changes) return;
+
+  const updatedOptions: Record<string, string[] | boolean> = {};
+  if (changes.schemas) {
+    updatedOptions.schemas = parseSchemas(changes.schemas as string | string[]);
+  }
+  if (!isUndefined(changes.includeViews)) {
+    updatedOptions.includeViews = changes.includeViews === true;
+  }
+
+  if (isEmpty(updatedOptions)) return;
+
+  return {
+    ...(isPlainObject(options) ? (options as Prisma.JsonObject) : {}),
+    ...updatedOptions,
+  };
+};
+
 export default withMiddlewares(handler, {
   middlewares: [
     [IsSignedIn, {}],
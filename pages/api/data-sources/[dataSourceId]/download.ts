@@ -0,0 +1,103 @@
+import { DataSource } from "@prisma/client";
+import { Role } from "@/features/roles/AccessControlService";
+import { StoredFile } from "@/plugins/data-sources/csv/types";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getOrganizationUserFromRequest,
+} from "@/features/api";
+import { omit } from "lodash";
+import { readStoredFile } from "@/plugins/data-sources/csv/storage";
+import { serializeFile } from "@/plugins/data-sources/csv/files";
+import { withMiddlewares } from "@/features/api/middleware";
+import AccessControlService from "@/features/roles/AccessControlService";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/* Sends back the uploaded file with the edits made in Basetool. */
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource || dataSource.type !== "csv") return res.status(404).send("");
+
+  const file = await getReadableFile(
+    req,
+    dataSource,
+    await readStoredFile(dataSource.id)
+  );
+
+  if (Object.keys(file.tables).length === 0) return res.status(403).send("");
+
+  const { contents, contentType } = await serializeFile(file);
+
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${file.filename.replace(/"/g, "")}"`
+  );
+  res.setHeader("Content-Type", contentType);
+
+  return res.send(contents);
+}
+
+/* Leaves out the tables the role can't read and the columns hidden from it. */
+const getReadableFile = async (
+  req: NextApiRequest,
+  dataSource: DataSource,
+  file: StoredFile
+): Promise<StoredFile> => {
+  const organizationUser = dataSource.organizationId
+    ? await getOrganizationUserFromRequest(req, dataSource.organizationId)
+    : null;
+  const ac = new AccessControlService(
+    organizationUser?.role as unknown as Role
+  );
+  const tables: StoredFile["tables"] = {};
+
+  for (const [tableName, table] of Object.entries(file.tables)) {
+    if (
+      !ac.readAny("record", { dataSourceId: dataSource.id, tableName }).granted
+    )
+      continue;
+
+    const permissions = await getColumnPermissionsFromRequest(
+      req,
+      dataSource,
+      tableName
+    );
+    const hiddenColumnNames = Object.keys(permissions).filter(
+      (name) => permissions[name] === "hidden"
+    );
+
+    tables[tableName] = {
+      ...table,
+      columns: table.columns.filter(
+        ({ name }) => !hiddenColumnNames.includes(name)
+      ),
+      records: table.records.map((record) => omit(record, hiddenColumnNames)),
+    };
+  }
+
+  return { ...file, tables };
+};
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+    [HasAbility, {}],
+  ],
+});
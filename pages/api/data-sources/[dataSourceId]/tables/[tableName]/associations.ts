@@ -0,0 +1,85 @@
+import { TableMetaData } from "@/features/data-sources/types";
+import { getDataSourceFromRequest } from "@/features/api";
+import { schema } from "@/features/data-sources/associationsSchema";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    case "PUT":
+      return handlePUT(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const tableMetaData = (
+    (dataSource.tablesMetaData as TableMetaData[] | null) || []
+  ).find(({ name }) => name === req.query.tableName);
+
+  res.json(ApiResponse.withData(tableMetaData?.associations || []));
+}
+
+/**
+ * Stores the associations of a table for the data sources that don't enforce foreign keys (Redshift).
+ */
+async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
+  const validator = schema.validate(req.body, { abortEarly: false });
+
+  if (validator.error) {
+    return res.json(ApiResponse.withValidation(validator));
+  }
+
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const tableName = req.query.tableName as string;
+  const tablesMetaData =
+    (dataSource.tablesMetaData as TableMetaData[] | null) || [];
+  const tableMetaData = tablesMetaData.find(({ name }) => name === tableName);
+  const { associations } = req.body;
+
+  await prisma.dataSource.update({
+    where: {
+      id: dataSource.id,
+    },
+    data: {
+      tablesMetaData: tableMetaData
+        ? tablesMetaData.map((metaData) =>
+            metaData === tableMetaData
+              ? { ...metaData, associations }
+              : metaData
+          )
+        : [
+            ...tablesMetaData,
+            { name: tableName, idColumn: "id", nameColumn: "id", associations },
+          ],
+    },
+  });
+
+  return res.json(
+    ApiResponse.withData(associations, { message: "Associations updated" })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+  ],
+});
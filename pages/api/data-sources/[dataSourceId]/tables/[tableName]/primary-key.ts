@@ -0,0 +1,82 @@
+import { TableMetaData } from "@/features/data-sources/types";
+import { getDataSourceFromRequest } from "@/features/api";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import Joi from "joi";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const schema = Joi.object({
+  columnName: Joi.string().required(),
+});
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "PUT":
+      return handlePUT(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/**
+ * Stores the column we use to find records on tables that don't have a primary key (database views).
+ */
+async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
+  const validator = schema.validate(req.body, { abortEarly: false });
+
+  if (validator.error) {
+    return res.json(ApiResponse.withValidation(validator));
+  }
+
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const tableName = req.query.tableName as string;
+  const tablesMetaData =
+    (dataSource.tablesMetaData as TableMetaData[] | null) || [];
+  const tableMetaData = tablesMetaData.find(({ name }) => name === tableName);
+  const primaryKeyColumn = req.body.columnName as string;
+
+  await prisma.dataSource.update({
+    where: {
+      id: dataSource.id,
+    },
+    data: {
+      tablesMetaData: tableMetaData
+        ? tablesMetaData.map((metaData) =>
+            metaData === tableMetaData
+              ? { ...metaData, primaryKeyColumn }
+              : metaData
+          )
+        : [
+            ...tablesMetaData,
+            {
+              name: tableName,
+              idColumn: "id",
+              nameColumn: "id",
+              primaryKeyColumn,
+            },
+          ],
+    },
+  });
+
+  return res.json(
+    ApiResponse.withData(primaryKeyColumn, {
+      message: "Primary key column updated",
+    })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+  ],
+});
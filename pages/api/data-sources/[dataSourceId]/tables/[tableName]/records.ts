@@ -1,14 +1,20 @@
-import { getDataSourceFromRequest, getUserFromRequest } from "@/features/api";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getUserFromRequest,
+} from "@/features/api";
+import { getRestrictedColumnNames } from "@/features/records";
+import { logActivity } from "@/features/activity";
 import { runQuery } from "@/plugins/data-sources/serverHelpers";
 import { serverSegment } from "@/lib/track";
 import { withMiddlewares } from "@/features/api/middleware";
 import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
-import prisma from "@/prisma";
 import type { NextApiRequest, NextApiResponse } from "next";
 
-const handler = async (
+export const handler = async (
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> => {
@@ -31,6 +37,27 @@ async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
 
   const { record } = req.body;
 
+  const restrictedColumnNames = getRestrictedColumnNames(
+    record,
+    await getColumnPermissionsFromRequest(
+      req,
+      dataSource,
+      req.query.tableName as string
+    )
+  );
+
+  if (restrictedColumnNames.length > 0) {
+    return res
+      .status(403)
+      .send(
+        ApiResponse.withError(
+          `You don't have permission to set ${restrictedColumnNames.join(
+            ", "
+          )}.`
+        )
+      );
+  }
+
   const data = await runQuery(dataSource, "createRecord", {
     tableName: req.query.tableName as string,
     data: record,
@@ -59,9 +86,7 @@ async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
     changes: {},
   };
 
-  await prisma.activity.create({
-    data: activityData,
-  });
+  await logActivity(activityData, { actor: user, record });
 
   res.json(ApiResponse.withData({ id: data }, { message: "Record added" }));
 }
@@ -70,5 +95,6 @@ export default withMiddlewares(handler, {
   middlewares: [
     [IsSignedIn, {}],
     [OwnsDataSource, {}],
+    [HasAbility, {}],
   ],
 });
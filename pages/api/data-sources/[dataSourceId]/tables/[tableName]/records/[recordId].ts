@@ -1,14 +1,28 @@
-import { getDataSourceFromRequest, getUserFromRequest } from "@/features/api";
-import { runQueries, runQuery } from "@/plugins/data-sources/serverHelpers";
+import { TableMetaData } from "@/features/data-sources/types";
+import { compact, isPlainObject, omitBy } from "lodash";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getUserFromRequest,
+  getViewBaseFiltersFromRequest,
+} from "@/features/api";
+import {
+  getRecordConflicts,
+  getRestrictedColumnNames,
+  getUpdateConditions,
+} from "@/features/records";
+import { logActivity } from "@/features/activity";
+import { runQuery } from "@/plugins/data-sources/serverHelpers";
 import { serverSegment } from "@/lib/track";
 import { withMiddlewares } from "@/features/api/middleware";
 import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
-import prisma from "@/prisma";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
 import type { NextApiRequest, NextApiResponse } from "next";
 
-const handler = async (
+export const handler = async (
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> => {
@@ -29,26 +43,119 @@ async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
 
   if (!dataSource) return res.status(404).send("");
 
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    req.query.tableName as string
+  );
+  const restrictedColumnNames = getRestrictedColumnNames(
+    req.body.changes,
+    columnPermissions
+  );
+
+  if (restrictedColumnNames.length > 0) {
+    return res
+      .status(403)
+      .send(
+        ApiResponse.withError(
+          `You don't have permission to change ${restrictedColumnNames.join(
+            ", "
+          )}.`
+        )
+      );
+  }
+
   const user = await getUserFromRequest(req);
 
-  const [{record}, data]: [Record<string, unknown>, Promise<unknown>] =
-    await runQueries(dataSource, [
-      {
-        name: "getRecord",
-        payload: {
-          tableName: req.query.tableName as string,
-          recordId: req.query.recordId as string,
-        },
-      },
-      {
-        name: "updateRecord",
-        payload: {
-          tableName: req.query.tableName as string,
-          recordId: req.query.recordId as string,
-          data: req.body.changes,
-        },
-      },
-    ]);
+  const tableName = req.query.tableName as string;
+  const recordId = req.query.recordId as string;
+
+  // Records outside of the requested view can't be changed through it.
+  const { record } = await runQuery(dataSource, "getRecord", {
+    tableName,
+    recordId,
+    filters: await getViewBaseFiltersFromRequest(req),
+  });
+
+  if (!record) return res.status(404).send("");
+
+  // The values the user loaded. Reject the update if someone else saved the record since then.
+  const original: Record<string, unknown> | undefined = isPlainObject(
+    req.body.original
+  )
+    ? req.body.original
+    : undefined;
+  const changedColumnNames = Object.keys(req.body.changes);
+  const updatedAtColumn = (
+    (dataSource.tablesMetaData as TableMetaData[] | null) || []
+  ).find(({ name }) => name === tableName)?.updatedAtColumn;
+
+  const rejectStaleUpdate = (current: Record<string, unknown>) => {
+    const { conflicts } = getRecordConflicts({
+      original: original || {},
+      current,
+      changedColumnNames,
+      updatedAtColumn,
+    });
+    // Don't send back the columns hidden for the user's role.
+    const isHidden = (columnName: string) =>
+      columnPermissions[columnName] === "hidden";
+
+    return res.status(409).send(
+      ApiResponse.withError(
+        "This record was changed by someone else since you opened it.",
+        {
+          data: {
+            conflicts: conflicts.filter(({ column }) => !isHidden(column)),
+            record: omitBy(current, (value, columnName) =>
+              isHidden(columnName)
+            ),
+          },
+        }
+      )
+    );
+  };
+
+  if (
+    original &&
+    getRecordConflicts({
+      original,
+      current: record,
+      changedColumnNames,
+      updatedAtColumn,
+    }).isStale
+  ) {
+    return rejectStaleUpdate(record);
+  }
+
+  // Someone could still save the record after the check so the update only goes through if the checked values didn't change.
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+  const isConditional = Boolean(
+    original && dataSourceInfo?.supports?.conditionalUpdate
+  );
+
+  const data = await runQuery(dataSource, "updateRecord", {
+    tableName,
+    recordId,
+    data: req.body.changes,
+    original: isConditional
+      ? getUpdateConditions(
+          record,
+          compact([...changedColumnNames, updatedAtColumn])
+        )
+      : undefined,
+  });
+
+  if (isConditional && data === 0) {
+    const { record: current } = await runQuery(dataSource, "getRecord", {
+      tableName,
+      recordId,
+    });
+
+    if (!current) return res.status(404).send("");
+
+    return rejectStaleUpdate(current);
+  }
 
   const changes = Object.keys(req?.body?.changes).map((columnName: string) => ({
     column: columnName,
@@ -70,9 +177,7 @@ async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
     changes: changes,
   };
 
-  await prisma.activity.create({
-    data: activityData as any,
-  });
+  await logActivity(activityData as any, { actor: user });
 
   serverSegment().track({
     userId: user ? user.id : "",
@@ -96,9 +201,22 @@ async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
 
   if (!dataSource) return res.status(404).send("");
 
+  const tableName = req.query.tableName as string;
+  const recordId = req.query.recordId as string;
+
+  // Keep a snapshot of the record so the delete can be undone.
+  // Records outside of the requested view can't be deleted through it.
+  const { record } = await runQuery(dataSource, "getRecord", {
+    tableName,
+    recordId,
+    filters: await getViewBaseFiltersFromRequest(req),
+  });
+
+  if (!record) return res.status(404).send("");
+
   const data = await runQuery(dataSource, "deleteRecord", {
-    tableName: req.query.tableName as string,
-    recordId: req.query.recordId as string,
+    tableName,
+    recordId,
   });
 
   serverSegment().track({
@@ -121,11 +239,12 @@ async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
     dataSourceId: dataSource ? (dataSource.id as number) : undefined,
     viewId: req.query.viewId ? parseInt(req.query.viewId as string) : undefined,
     action: "delete",
-    changes: {},
+    changes: { records: record ? [record] : [] },
   };
 
-  await prisma.activity.create({
-    data: activityData,
+  await logActivity(activityData, {
+    actor: user,
+    record: record as Record<string, unknown> | undefined,
   });
 
   res.json(
@@ -139,5 +258,6 @@ export default withMiddlewares(handler, {
   middlewares: [
     [IsSignedIn, {}],
     [OwnsDataSource, {}],
+    [HasAbility, {}],
   ],
 });
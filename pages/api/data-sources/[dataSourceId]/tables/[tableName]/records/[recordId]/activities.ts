@@ -0,0 +1,82 @@
+import { getActivityChanges } from "@/features/activity";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+} from "@/features/api";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    req.query.tableName as string
+  );
+
+  const activities = await prisma.activity.findMany({
+    where: {
+      dataSourceId: dataSource.id,
+      tableName: req.query.tableName as string,
+      recordId: req.query.recordId as string,
+    },
+    select: {
+      id: true,
+      recordId: true,
+      tableName: true,
+      viewId: true,
+      action: true,
+      changes: true,
+      createdAt: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+
+  // Don't leak the values of the columns hidden from the user's role.
+  const data = activities.map((activity) => ({
+    ...activity,
+    changes: getActivityChanges(activity).filter(
+      ({ column }) => columnPermissions[column] !== "hidden"
+    ),
+  }));
+
+  res.json(ApiResponse.withData(data));
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+    [HasAbility, {}],
+  ],
+});
@@ -0,0 +1,215 @@
+import { Prisma } from "@prisma/client";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getUserFromRequest,
+  getViewBaseFiltersFromRequest,
+} from "@/features/api";
+import {
+  getLatestValues,
+  getRestoreData,
+  getRevertData,
+  logActivity,
+} from "@/features/activity";
+import {
+  getRecordConflicts,
+  getRestrictedColumnNames,
+  getUpdateConditions,
+} from "@/features/records";
+import { isEmpty } from "lodash";
+import { runQuery } from "@/plugins/data-sources/serverHelpers";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "PUT":
+      return handlePUT(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/**
+ * Reverts an activity (or only one of its column changes) when `column` is sent.
+ * With `restore` set it brings the record back to how it was right after the activity.
+ */
+async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const tableName = req.query.tableName as string;
+  const recordId = req.query.recordId as string;
+
+  const activity = await prisma.activity.findFirst({
+    where: {
+      id: parseInt(req.body.activityId as string, 10),
+      dataSourceId: dataSource.id,
+      tableName,
+      recordId,
+    },
+  });
+
+  if (!activity) return res.status(404).send("");
+
+  let data: Record<string, Prisma.JsonValue>;
+  // The values the record should hold if nobody changed it outside of the logged activities.
+  let expected: Record<string, Prisma.JsonValue>;
+  if (req.body.restore) {
+    const laterActivities = await prisma.activity.findMany({
+      where: {
+        dataSourceId: dataSource.id,
+        tableName,
+        recordId,
+        id: {
+          gt: activity.id,
+        },
+      },
+      orderBy: {
+        id: "asc",
+      },
+    });
+
+    data = getRestoreData(laterActivities);
+    expected = getLatestValues(laterActivities);
+  } else {
+    data = getRevertData(activity, req.body.column as string | undefined);
+    expected = getLatestValues(
+      [activity],
+      req.body.column as string | undefined
+    );
+  }
+
+  if (isEmpty(data))
+    return res.send(ApiResponse.withError("Nothing to revert."));
+
+  const restrictedColumnNames = getRestrictedColumnNames(
+    data,
+    await getColumnPermissionsFromRequest(req, dataSource, tableName)
+  );
+
+  if (restrictedColumnNames.length > 0) {
+    return res
+      .status(403)
+      .send(
+        ApiResponse.withError(
+          `You don't have permission to change ${restrictedColumnNames.join(
+            ", "
+          )}.`
+        )
+      );
+  }
+
+  const user = await getUserFromRequest(req);
+
+  // Records outside of the requested view can't be reverted through it.
+  const baseFilters = await getViewBaseFiltersFromRequest(req);
+  if (req.query.viewId && !baseFilters) return res.status(404).send("");
+
+  const { record }: { record?: Record<string, Prisma.JsonValue> } =
+    await runQuery(dataSource, "getRecord", {
+      tableName,
+      recordId,
+      filters: baseFilters,
+    });
+
+  if (!record) return res.status(404).send("");
+
+  const { conflicts } = getRecordConflicts({
+    original: expected,
+    current: record,
+    changedColumnNames: Object.keys(data),
+  });
+
+  if (conflicts.length > 0) {
+    return res
+      .status(409)
+      .send(
+        ApiResponse.withError(
+          `${conflicts
+            .map(({ column }) => column)
+            .join(", ")} changed since. Revert the later changes first.`,
+          { data: { conflicts } }
+        )
+      );
+  }
+
+  // The record could change after the check so the revert only goes through if the checked values didn't change.
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+  const isConditional = Boolean(dataSourceInfo?.supports?.conditionalUpdate);
+
+  const response = await runQuery(dataSource, "updateRecord", {
+    tableName,
+    recordId,
+    data,
+    original: isConditional
+      ? getUpdateConditions(record, Object.keys(data))
+      : undefined,
+  });
+
+  if (isConditional && response === 0) {
+    return res
+      .status(409)
+      .send(
+        ApiResponse.withError(
+          "The record changed in the meantime. Reload it and try again."
+        )
+      );
+  }
+
+  const changes = Object.keys(data).map((columnName: string) => ({
+    column: columnName,
+    before: record[columnName],
+    after: data[columnName],
+  }));
+
+  const activityData = {
+    recordId,
+    userId: user ? user.id : 0,
+    organizationId: dataSource.organizationId as number,
+    tableName,
+    dataSourceId: dataSource.id,
+    viewId: req.query.viewId ? parseInt(req.query.viewId as string) : undefined,
+    action: "revert",
+    changes,
+  };
+
+  await logActivity(activityData, { actor: user });
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Reverted record",
+    properties: {
+      id: dataSource.type,
+      restore: Boolean(req.body.restore),
+    },
+  });
+
+  res.json(
+    ApiResponse.withData(response, {
+      message: req.body.restore
+        ? "Record restored."
+        : `Reverted -> ${JSON.stringify(data)}`,
+    })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+    [HasAbility, {}],
+  ],
+});
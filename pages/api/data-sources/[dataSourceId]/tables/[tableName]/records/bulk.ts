@@ -1,12 +1,25 @@
-import { getDataSourceFromRequest, getUserFromRequest } from "@/features/api";
-import { runQuery } from "@/plugins/data-sources/serverHelpers";
+import { FilterOrFilterGroup } from "@/features/tables/types";
+import { UpdatedRecord } from "@/plugins/data-sources/types";
+import { decodeObject } from "@/lib/encoding";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getUserFromRequest,
+  getViewBaseFiltersFromRequest,
+} from "@/features/api";
+import { getRestrictedColumnNames } from "@/features/records";
+import { isArray, isEmpty } from "lodash";
+import { logActivity } from "@/features/activity";
+import { runQueries, runQuery } from "@/plugins/data-sources/serverHelpers";
+import { scopeFilters } from "@/features/views";
 import { serverSegment } from "@/lib/track";
 import { withMiddlewares } from "@/features/api/middleware";
 import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
 import pluralize from "pluralize";
-import prisma from "@/prisma";
 import type { NextApiRequest, NextApiResponse } from "next";
 
 const handler = async (
@@ -14,6 +27,8 @@ const handler = async (
   res: NextApiResponse
 ): Promise<void> => {
   switch (req.method) {
+    case "PUT":
+      return handlePUT(req, res);
     case "DELETE":
       return handleDELETE(req, res);
     default:
@@ -21,15 +36,160 @@ const handler = async (
   }
 };
 
+/**
+ * Sets the same values on the selected records or on all the records matching the filters.
+ */
+async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
+  const { changes, recordIds, allRecords } = req.body || {};
+
+  if (!changes || Object.keys(changes).length === 0)
+    return res.send(ApiResponse.withError("No changes sent."));
+  if (!allRecords && (!isArray(recordIds) || isEmpty(recordIds)))
+    return res.send(ApiResponse.withError("No records selected."));
+
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+
+  if (!dataSourceInfo?.supports?.bulkUpdate) {
+    return res.send(
+      ApiResponse.withError("This data source doesn't support bulk updates.")
+    );
+  }
+
+  const tableName = req.query.tableName as string;
+
+  const restrictedColumnNames = getRestrictedColumnNames(
+    changes,
+    await getColumnPermissionsFromRequest(req, dataSource, tableName)
+  );
+
+  if (restrictedColumnNames.length > 0) {
+    return res
+      .status(403)
+      .send(
+        ApiResponse.withError(
+          `You don't have permission to change ${restrictedColumnNames.join(
+            ", "
+          )}.`
+        )
+      );
+  }
+
+  // The base filters are always taken from the view so the update can't reach records outside of it.
+  const baseFilters = await getViewBaseFiltersFromRequest(req);
+  if (req.query.viewId && !baseFilters) return res.status(404).send("");
+
+  let filters = baseFilters;
+  if (allRecords) {
+    const requestFilters = (decodeObject(req.body.filters) ||
+      []) as FilterOrFilterGroup[];
+
+    // Grouped apart so the `or` filters of the request can't reach past the base filters.
+    filters = baseFilters
+      ? scopeFilters(
+          baseFilters,
+          requestFilters.filter(({ isBase }) => !isBase)
+        )
+      : requestFilters;
+  }
+
+  const user = await getUserFromRequest(req);
+
+  const updatedRecords: UpdatedRecord[] = await runQuery(
+    dataSource,
+    "updateRecords",
+    {
+      tableName,
+      recordIds: allRecords ? undefined : recordIds,
+      filters,
+      data: changes,
+    }
+  );
+
+  for (const { recordId, record } of updatedRecords) {
+    await logActivity(
+      {
+        recordId,
+        userId: user ? user.id : 0,
+        organizationId: dataSource.organizationId as number,
+        tableName,
+        dataSourceId: dataSource.id,
+        viewId: req.query.viewId
+          ? parseInt(req.query.viewId as string)
+          : undefined,
+        action: "update",
+        changes: Object.keys(changes).map((columnName: string) => ({
+          column: columnName,
+          before: record[columnName],
+          after: changes[columnName],
+        })),
+      } as any,
+      { actor: user }
+    );
+  }
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Bulk Update",
+    properties: {
+      id: dataSource.type,
+    },
+  });
+
+  res.json(
+    ApiResponse.withData(
+      { count: updatedRecords.length },
+      {
+        message: `Updated ${updatedRecords.length} ${pluralize(
+          "record",
+          updatedRecords.length
+        )} from ${tableName}`,
+      }
+    )
+  );
+}
+
 async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
   const user = await getUserFromRequest(req);
   const dataSource = await getDataSourceFromRequest(req);
 
   if (!dataSource) return res.status(404).send("");
 
+  // Records outside of the requested view can't be deleted through it.
+  const baseFilters = await getViewBaseFiltersFromRequest(req);
+  if (req.query.viewId && !baseFilters) return res.status(404).send("");
+
+  const requestedRecordIds = req.body as string[];
+
+  // Keep a snapshot of the records so the delete can be undone. It has to be read before the delete starts.
+  const results = await runQueries(
+    dataSource,
+    requestedRecordIds.map((recordId) => ({
+      name: "getRecord",
+      payload: {
+        tableName: req.query.tableName as string,
+        recordId,
+        filters: baseFilters,
+      },
+    }))
+  );
+  const records = results
+    .map((result: { record?: Record<string, unknown> }) => result?.record)
+    .filter(Boolean);
+  const recordIds = baseFilters
+    ? requestedRecordIds.filter((recordId, idx) => results[idx]?.record)
+    : requestedRecordIds;
+
+  if (isEmpty(recordIds)) return res.status(404).send("");
+
   const data = await runQuery(dataSource, "deleteRecords", {
     tableName: req.query.tableName as string,
-    recordIds: req.body as number[],
+    recordIds,
+    filters: baseFilters,
   });
 
   serverSegment().track({
@@ -43,7 +203,7 @@ async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
 
   // todo - find a way to pass viewId in the request
   const activityData = {
-    recordId: req.body.toString(),
+    recordId: recordIds.toString(),
     userId: user ? user.id : 0,
     organizationId: dataSource ? (dataSource.organizationId as number) : 0,
     tableName: req.query.tableName
@@ -52,18 +212,16 @@ async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
     dataSourceId: dataSource ? (dataSource.id as number) : undefined,
     viewId: req.query.viewId ? parseInt(req.query.viewId as string) : undefined,
     action: "bulkDelete",
-    changes: {},
+    changes: { records },
   };
 
-  await prisma.activity.create({
-    data: activityData,
-  });
+  await logActivity(activityData, { actor: user });
 
   res.json(
     ApiResponse.withData(data, {
-      message: `Deleted ${req.body.length} ${pluralize(
+      message: `Deleted ${recordIds.length} ${pluralize(
         "record",
-        req.body.length
+        recordIds.length
       )} from ${req.query.tableName}`,
     })
   );
@@ -73,5 +231,6 @@ export default withMiddlewares(handler, {
   middlewares: [
     [IsSignedIn, {}],
     [OwnsDataSource, {}],
+    [HasAbility, {}],
   ],
 });
@@ -0,0 +1,276 @@
+import { BasetoolRecord } from "@/features/records/types";
+import { Column } from "@/features/fields/types";
+import { DataSource } from "@prisma/client";
+import {
+  MAX_IMPORT_BYTES,
+  getRecordId,
+} from "@/features/records/clientHelpers";
+import { Role } from "@/features/roles/AccessControlService";
+import { compact, get, isArray, isEmpty, uniq } from "lodash";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getOrganizationUserFromRequest,
+  getUserFromRequest,
+} from "@/features/api";
+import { getColumns } from "@/features/fields/getColumns";
+import {
+  getRestrictedColumnNames,
+  prepareImportedRecords,
+} from "@/features/records";
+import { logActivity } from "@/features/activity";
+import { runQueries, runQuery } from "@/plugins/data-sources/serverHelpers";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import AccessControlService from "@/features/roles/AccessControlService";
+import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
+import pluralize from "pluralize";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: MAX_IMPORT_BYTES,
+    },
+  },
+};
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "POST":
+      return handlePOST(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/**
+ * Imports the records from a file. The records come already mapped to the table columns.
+ * With `dryRun` the records are only validated and the errors are sent back for each row.
+ */
+async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
+  const {
+    records: rawRecords,
+    upsert = false,
+    dryRun = false,
+  } = req.body || {};
+
+  if (!isArray(rawRecords) || isEmpty(rawRecords))
+    return res.send(ApiResponse.withError("No records sent."));
+
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+
+  if (!dataSourceInfo?.supports?.bulkCreate) {
+    return res.send(
+      ApiResponse.withError("This data source doesn't support imports.")
+    );
+  }
+  if (upsert && !dataSourceInfo?.supports?.upsert) {
+    return res.send(
+      ApiResponse.withError("This data source doesn't support upserts.")
+    );
+  }
+
+  // The rows an upsert would overwrite might not be part of the view.
+  if (upsert && req.query.viewId) {
+    return res.send(
+      ApiResponse.withError("Upserts can't be done through a view.")
+    );
+  }
+
+  const tableName = req.query.tableName as string;
+
+  // Upserts change the existing records so the role needs to be able to edit them too.
+  if (upsert) {
+    const organizationUser = dataSource.organizationId
+      ? await getOrganizationUserFromRequest(req, dataSource.organizationId)
+      : null;
+    const ac = new AccessControlService(
+      organizationUser?.role as unknown as Role
+    );
+
+    if (
+      !ac.updateAny("record", {
+        dataSourceId: dataSource.id,
+        tableName,
+        viewId: req.query.viewId
+          ? parseInt(req.query.viewId as string)
+          : undefined,
+      }).granted
+    ) {
+      return res
+        .status(403)
+        .send(
+          ApiResponse.withError("You don't have permission to edit records.")
+        );
+    }
+  }
+
+  const columnNames = uniq(
+    rawRecords.flatMap((record: Record<string, unknown>) => Object.keys(record))
+  );
+  const restrictedColumnNames = getRestrictedColumnNames(
+    Object.fromEntries(columnNames.map((name) => [name, true])),
+    await getColumnPermissionsFromRequest(req, dataSource, tableName)
+  );
+
+  if (restrictedColumnNames.length > 0) {
+    return res
+      .status(403)
+      .send(
+        ApiResponse.withError(
+          `You don't have permission to set ${restrictedColumnNames.join(
+            ", "
+          )}.`
+        )
+      );
+  }
+
+  const storedColumns = get(dataSource, [
+    "options",
+    "tables",
+    tableName,
+    "columns",
+  ]);
+  const columns = await getColumns({ dataSource, tableName, storedColumns });
+
+  // Computed columns don't exist in the table.
+  const { records, errors } = await prepareImportedRecords(
+    rawRecords,
+    columns.filter(({ baseOptions }) => !baseOptions.computed)
+  );
+
+  if (dryRun) {
+    return res.json(ApiResponse.withData({ count: records.length, errors }));
+  }
+
+  if (!isEmpty(errors)) {
+    return res.send(
+      ApiResponse.withError(
+        `${errors.length} ${pluralize(
+          "row",
+          errors.length
+        )} have errors. Fix them and try again.`,
+        { data: { count: records.length, errors } }
+      )
+    );
+  }
+
+  const user = await getUserFromRequest(req);
+
+  // Read the rows an upsert is going to overwrite so the activity has their previous values.
+  const existingRecords = upsert
+    ? await getExistingRecords(dataSource, tableName, records, columns)
+    : [];
+
+  const recordIds: Array<string | undefined> = await runQuery(
+    dataSource,
+    "createRecords",
+    {
+      tableName,
+      records,
+      upsert,
+    }
+  );
+
+  for (let index = 0; index < recordIds.length; index++) {
+    const recordId = recordIds[index];
+
+    if (!recordId) continue;
+
+    const existingRecord = existingRecords[index];
+    const changes = existingRecord
+      ? Object.keys(records[index]).map((columnName) => ({
+          column: columnName,
+          before: existingRecord[columnName],
+          after: records[index][columnName],
+        }))
+      : {};
+
+    await logActivity(
+      {
+        recordId,
+        userId: user ? user.id : 0,
+        organizationId: dataSource.organizationId as number,
+        tableName,
+        dataSourceId: dataSource.id,
+        viewId: req.query.viewId
+          ? parseInt(req.query.viewId as string)
+          : undefined,
+        action: existingRecord ? "update" : "create",
+        changes,
+      } as any,
+      { actor: user }
+    );
+  }
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Imported records",
+    properties: {
+      id: dataSource.type,
+      upsert,
+    },
+  });
+
+  res.json(
+    ApiResponse.withData(
+      { count: records.length },
+      {
+        message: `Imported ${records.length} ${pluralize(
+          "record",
+          records.length
+        )} into ${tableName}`,
+      }
+    )
+  );
+}
+
+/* Returns the stored record for each of the records, or `undefined` for the new ones. */
+const getExistingRecords = async (
+  dataSource: DataSource,
+  tableName: string,
+  records: Record<string, unknown>[],
+  columns: Column[]
+): Promise<Array<Record<string, unknown> | undefined>> => {
+  const recordIds = records.map((record) =>
+    getRecordId(record as BasetoolRecord, columns)
+  );
+  const results: ({ record?: Record<string, unknown> } | undefined)[] =
+    await runQueries(
+      dataSource,
+      compact(recordIds).map((recordId) => ({
+        name: "getRecord",
+        payload: {
+          tableName,
+          recordId,
+        },
+      }))
+    );
+
+  let index = 0;
+
+  return recordIds.map((recordId) =>
+    recordId ? results[index++]?.record : undefined
+  );
+};
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+    [HasAbility, {}],
+  ],
+});
@@ -0,0 +1,192 @@
+import { BasetoolRecord } from "@/features/records/types";
+import { DeletedRecordsChanges } from "@/features/activity/types";
+import { get, isEmpty, isNil, uniq } from "lodash";
+import {
+  getColumnPermissionsFromRequest,
+  getDataSourceFromRequest,
+  getUserFromRequest,
+} from "@/features/api";
+import { getColumns } from "@/features/fields/getColumns";
+import { getRecordId } from "@/features/records/clientHelpers";
+import { getRestrictedColumnNames } from "@/features/records";
+import { logActivity } from "@/features/activity";
+import { runQueries, runQuery } from "@/plugins/data-sources/serverHelpers";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
+import pluralize from "pluralize";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "POST":
+      return handlePOST(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/**
+ * Inserts back the records snapshotted by a delete activity, primary keys included.
+ * The records that exist already are skipped, so restoring twice is harmless.
+ */
+async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+
+  if (!dataSourceInfo?.supports?.restoreWithPrimaryKey) {
+    return res.send(
+      ApiResponse.withError(
+        "This data source doesn't support restoring deleted records."
+      )
+    );
+  }
+
+  const tableName = req.query.tableName as string;
+
+  const activity = await prisma.activity.findFirst({
+    where: {
+      id: parseInt(req.body.activityId as string, 10),
+      dataSourceId: dataSource.id,
+      tableName,
+      action: {
+        in: ["delete", "bulkDelete"],
+      },
+    },
+  });
+
+  if (!activity) return res.status(404).send("");
+
+  const records =
+    (activity.changes as unknown as DeletedRecordsChanges)?.records || [];
+
+  if (isEmpty(records))
+    return res.send(
+      ApiResponse.withError("There's no snapshot of the deleted records.")
+    );
+
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    tableName
+  );
+  const restrictedColumnNames = uniq(
+    records.flatMap((record) =>
+      getRestrictedColumnNames(record, columnPermissions)
+    )
+  );
+
+  if (restrictedColumnNames.length > 0) {
+    return res
+      .status(403)
+      .send(
+        ApiResponse.withError(
+          `You don't have permission to set ${restrictedColumnNames.join(
+            ", "
+          )}.`
+        )
+      );
+  }
+
+  const user = await getUserFromRequest(req);
+
+  const storedColumns = get(dataSource, [
+    "options",
+    "tables",
+    tableName,
+    "columns",
+  ]);
+  const columns = await getColumns({ dataSource, tableName, storedColumns });
+  const recordIds = records.map((record) =>
+    getRecordId(record as BasetoolRecord, columns)
+  );
+
+  const existingRecords: ({ record?: Record<string, unknown> } | undefined)[] =
+    await runQueries(
+      dataSource,
+      recordIds.map((recordId) => ({
+        name: "getRecord",
+        payload: {
+          tableName,
+          recordId,
+        },
+      }))
+    );
+  const missingRecords = records.filter(
+    (record, idx) => recordIds[idx] && !existingRecords[idx]?.record
+  );
+
+  let ids: Array<string | undefined> = [];
+  if (dataSourceInfo.supports.bulkCreate) {
+    // Inserted in a single transaction so a failing record rolls back the whole restore.
+    ids = await runQuery(dataSource, "createRecords", {
+      tableName,
+      records: missingRecords,
+    });
+  } else {
+    // These sources have no transactions. If one record fails the restore can be run again for the rest.
+    for (const record of missingRecords) {
+      const id = await runQuery(dataSource, "createRecord", {
+        tableName,
+        data: record,
+      });
+
+      ids.push(isNil(id) ? undefined : String(id));
+    }
+  }
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Restored records",
+    properties: {
+      id: dataSource.type,
+    },
+  });
+
+  for (let index = 0; index < ids.length; index++) {
+    if (!ids[index]) continue;
+
+    const activityData = {
+      recordId: ids[index] as string,
+      userId: user ? user.id : 0,
+      organizationId: dataSource.organizationId as number,
+      tableName,
+      dataSourceId: dataSource.id,
+      action: "restore",
+      changes: {},
+    };
+
+    await logActivity(activityData, {
+      actor: user,
+      record: missingRecords[index],
+    });
+  }
+
+  res.json(
+    ApiResponse.withData(ids, {
+      message: isEmpty(ids)
+        ? "The records were restored already."
+        : `Restored ${ids.length} ${pluralize("record", ids.length)}`,
+    })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+    [HasAbility, {}],
+  ],
+});
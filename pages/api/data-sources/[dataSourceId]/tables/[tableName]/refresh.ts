@@ -0,0 +1,40 @@
+import { getDataSourceFromRequest } from "@/features/api";
+import { runQuery } from "@/plugins/data-sources/serverHelpers";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "POST":
+      return handlePOST(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
+  const dataSource = await getDataSourceFromRequest(req);
+
+  if (!dataSource) return res.status(404).send("");
+
+  await runQuery(dataSource, "refreshMaterializedView", {
+    tableName: req.query.tableName as string,
+  });
+
+  return res.json(
+    ApiResponse.withData(null, { message: "Materialized view refreshed" })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+  ],
+});
@@ -6,10 +6,12 @@ import { encrypt } from "@/lib/crypto";
 import { getSession } from "next-auth/client";
 import { getUserFromRequest } from "@/features/api";
 import { isEmpty, pick, sum } from "lodash";
+import { parseFile } from "@/plugins/data-sources/csv/files";
 import { s3KeysBucket } from "@/features/data-sources";
 import { serverSegment } from "@/lib/track";
 import { trimValues } from "@/lib/helpers"
 import { withMiddlewares } from "@/features/api/middleware";
+import { writeStoredFile } from "@/plugins/data-sources/csv/storage";
 import ApiResponse from "@/features/api/ApiResponse";
 import IsSignedIn from "../../../features/api/middlewares/IsSignedIn";
 import S3 from "aws-sdk/clients/s3";
@@ -142,6 +144,7 @@ async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
     type: string;
     credentials: unknown;
     ssh?: unknown;
+    file?: string;
   } = {
     name: fields.name,
     organizationId: fields.organizationId,
@@ -153,6 +156,11 @@ async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
     body.ssh = ssh;
   }
 
+  // File data sources get their records from the uploaded file.
+  if (type === "csv") {
+    body.file = files.file?.name;
+  }
+
   const schema = getSchema(type);
   if (schema) {
     const validator = schema.validate(body, { abortEarly: false });
@@ -184,11 +192,33 @@ async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
     },
   });
 
-  const sqlDbs = ["postgresql", "mariadb", "mssql", "mysql"];
+  const sqlDbs = [
+    "postgresql",
+    "mariadb",
+    "mssql",
+    "mysql",
+    "sqlite",
+    "amazon_redshift",
+  ];
   if (dataSource && sqlDbs.includes(dataSource.type)) {
     doInitialScan(dataSource);
   }
 
+  if (files.file && dataSource.type === "csv") {
+    try {
+      await writeStoredFile(
+        dataSource.id,
+        await parseFile(files.file.name, fs.readFileSync(files.file.path))
+      );
+    } catch (error: any) {
+      await prisma.dataSource.delete({ where: { id: dataSource.id } });
+
+      return res.json(
+        ApiResponse.withError(`Failed to read the file. ${error.message}`)
+      );
+    }
+  }
+
   // If we get the key from the client we'll store it in S3
   if (files.key) {
     await storeSSHKey({
@@ -1,11 +1,40 @@
-import { Activity, DataSource, Organization, User, View } from "@prisma/client";
+import { Activity, DataSource, Prisma, User, View } from "@prisma/client";
+import { ColumnRolePermission } from "@/features/fields/types";
+import { DateTime } from "luxon";
+import {
+  getColumnPermissionsForRole,
+  getOrganizationUserFromRequest,
+} from "@/features/api";
+import { groupBy, isEmpty, isNil } from "lodash";
+import { omitHiddenColumns } from "@/features/activity";
+import { toCsvRow } from "@/lib/csv";
 import { withMiddlewares } from "@/features/api/middleware";
+import AccessControlService, {
+  Role,
+} from "@/features/roles/AccessControlService";
 import ApiResponse from "@/features/api/ApiResponse";
 import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import prisma from "@/prisma";
 import type { NextApiRequest, NextApiResponse } from "next";
 
+// Exports are read in batches so large organizations don't load all of their activities in memory.
+const EXPORT_BATCH_SIZE = 1000;
+
+const EXPORT_COLUMNS = [
+  "id",
+  "createdAt",
+  "userId",
+  "userEmail",
+  "action",
+  "dataSourceId",
+  "dataSourceName",
+  "tableName",
+  "viewId",
+  "recordId",
+  "changes",
+];
+
 const handler = async (
   req: NextApiRequest,
   res: NextApiResponse
@@ -18,80 +47,396 @@ const handler = async (
   }
 };
 
-async function handleGET(req: NextApiRequest, res: NextApiResponse) {
-  const skip =
-    req.query.page && req.query.perPage
-      ? (parseInt(req.query.page as string, 10) - 1) *
-        parseInt(req.query.perPage as string, 10)
-      : 0;
+const parseId = (value: unknown): number | undefined =>
+  value ? parseInt(value as string, 10) : undefined;
 
-  const take = req.query.perPage
-    ? parseInt(req.query.perPage as string, 10)
-    : 10;
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return;
 
-  const response = (await prisma.organization.findFirst({
-    where: {
-      id: parseInt(
-        (req.query.organizationId || req.body.organizationId) as string,
-        10
-      ),
+  const date = DateTime.fromISO(value as string);
+
+  return date.isValid ? date.toJSDate() : undefined;
+};
+
+type ActivityWithRelations = Activity & {
+  dataSource?: DataSource;
+  view?: View;
+  user: User;
+};
+
+type ActivityScope = {
+  dataSourceId: number | null;
+  tableName: string | null;
+  viewId: number | null;
+};
+
+type TablePermissions = {
+  dataSourceId: number;
+  tableName: string;
+  columnPermissions: Record<string, ColumnRolePermission>;
+};
+
+const ACTIVITY_SELECT = {
+  id: true,
+  recordId: true,
+  tableName: true,
+  dataSourceId: true,
+  dataSource: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  viewId: true,
+  view: {
+    select: {
+      id: true,
+      name: true,
+      tableName: true,
+      dataSourceId: true,
     },
+  },
+  userId: true,
+  user: {
     select: {
-      activities: {
-        select: {
-          id: true,
-          recordId: true,
-          tableName: true,
-          dataSource: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          view: {
-            select: {
-              id: true,
-              tableName: true,
-              dataSourceId: true,
-            },
-          },
-          user: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
-            },
-          },
-          organizationId: true,
-          action: true,
-          changes: true,
-          createdAt: true,
-        },
-        orderBy: {
-          createdAt: "desc",
-        },
-        skip,
-        take,
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  organizationId: true,
+  action: true,
+  changes: true,
+  createdAt: true,
+};
+
+const isSameTable = ({
+  dataSourceId,
+  tableName,
+}: Pick<ActivityScope, "dataSourceId" | "tableName">) =>
+  Prisma.sql`("dataSourceId" IS NOT DISTINCT FROM ${dataSourceId} AND "tableName" IS NOT DISTINCT FROM ${tableName})`;
+
+// The changes as text without the given columns, for both the changed columns and the deleted records snapshots.
+const changesWithoutColumns = (columnNames: string[]) => Prisma.sql`(CASE
+  WHEN jsonb_typeof("changes") = 'array' THEN (
+    SELECT jsonb_agg("change") FROM jsonb_array_elements("changes") AS "change"
+    WHERE NOT (("change"->>'column') = ANY(${columnNames}::text[]))
+  )
+  WHEN jsonb_typeof("changes"->'records') = 'array' THEN (
+    SELECT jsonb_agg("record" - ${columnNames}::text[])
+    FROM jsonb_array_elements("changes"->'records') AS "record"
+  )
+  ELSE "changes"
+END)::text`;
+
+/**
+ * Searches through the changes as text. The columns hidden for the role are left out so they can't be guessed.
+ */
+const getSearchCondition = (
+  search: string,
+  tablesPermissions: TablePermissions[]
+): Prisma.Sql => {
+  const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+  const tablesWithHiddenColumns = tablesPermissions
+    .map((table) => ({
+      ...table,
+      hiddenColumnNames: Object.keys(table.columnPermissions).filter(
+        (columnName) => table.columnPermissions[columnName] === "hidden"
+      ),
+    }))
+    .filter(({ hiddenColumnNames }) => !isEmpty(hiddenColumnNames));
+
+  if (isEmpty(tablesWithHiddenColumns)) {
+    return Prisma.sql`"changes"::text ILIKE ${pattern}`;
+  }
+
+  return Prisma.sql`(
+    (NOT (${Prisma.join(
+      tablesWithHiddenColumns.map(isSameTable),
+      " OR "
+    )}) AND "changes"::text ILIKE ${pattern})
+    OR ${Prisma.join(
+      tablesWithHiddenColumns.map(
+        (table) =>
+          Prisma.sql`(${isSameTable(table)} AND ${changesWithoutColumns(
+            table.hiddenColumnNames
+          )} ILIKE ${pattern})`
+      ),
+      " OR "
+    )}
+  )`;
+};
+
+/**
+ * Limits the activities to the data sources, tables and views the role can read.
+ */
+const getReadableCondition = async (
+  organizationId: number,
+  role: Role | null | undefined
+): Promise<Prisma.Sql | undefined> => {
+  const ac = new AccessControlService(role as Role);
+
+  // Without scoped permissions the role can read either all the records or none.
+  if (isEmpty(ac.scopedPermissions)) {
+    return ac.readAny("record").granted ? undefined : Prisma.sql`FALSE`;
+  }
+
+  const scopes = await prisma.$queryRaw<ActivityScope[]>`
+    SELECT DISTINCT "dataSourceId", "tableName", "viewId" FROM "Activity"
+    WHERE "organizationId" = ${organizationId}`;
+  const readableScopes = scopes.filter(
+    ({ dataSourceId, tableName, viewId }) =>
+      ac.readAny("record", {
+        dataSourceId: dataSourceId ?? undefined,
+        tableName: tableName ?? undefined,
+        viewId: viewId ?? undefined,
+      }).granted
+  );
+
+  if (isEmpty(readableScopes)) return Prisma.sql`FALSE`;
+
+  return Prisma.sql`(${Prisma.join(
+    readableScopes.map(
+      ({ dataSourceId, tableName, viewId }) =>
+        Prisma.sql`(${isSameTable({
+          dataSourceId,
+          tableName,
+        })} AND "viewId" IS NOT DISTINCT FROM ${viewId})`
+    ),
+    " OR "
+  )})`;
+};
+
+/**
+ * Builds the SQL conditions out of the filters sent in the query string.
+ * The search goes through the changes as text, so it can't be expressed with the Prisma filters.
+ */
+const getActivitiesConditions = (
+  req: NextApiRequest,
+  organizationId: number,
+  tablesPermissions: TablePermissions[]
+): Prisma.Sql[] => {
+  const conditions = [Prisma.sql`"organizationId" = ${organizationId}`];
+
+  const userId = parseId(req.query.userId);
+  if (userId) conditions.push(Prisma.sql`"userId" = ${userId}`);
+  if (req.query.action) {
+    conditions.push(Prisma.sql`"action" = ${req.query.action as string}`);
+  }
+  const dataSourceId = parseId(req.query.dataSourceId);
+  if (dataSourceId) {
+    conditions.push(Prisma.sql`"dataSourceId" = ${dataSourceId}`);
+  }
+  if (req.query.tableName) {
+    conditions.push(Prisma.sql`"tableName" = ${req.query.tableName as string}`);
+  }
+  const viewId = parseId(req.query.viewId);
+  if (viewId) conditions.push(Prisma.sql`"viewId" = ${viewId}`);
+  if (req.query.recordId) {
+    conditions.push(Prisma.sql`"recordId" = ${req.query.recordId as string}`);
+  }
+
+  const from = parseDate(req.query.from);
+  if (from) conditions.push(Prisma.sql`"createdAt" >= ${from}`);
+  const to = parseDate(req.query.to);
+  if (to) {
+    // Include the whole last day.
+    conditions.push(
+      Prisma.sql`"createdAt" <= ${DateTime.fromJSDate(to)
+        .endOf("day")
+        .toJSDate()}`
+    );
+  }
+
+  if (req.query.search) {
+    conditions.push(
+      getSearchCondition(req.query.search as string, tablesPermissions)
+    );
+  }
+
+  return conditions;
+};
+
+/**
+ * Returns a page of activities, newest first.
+ */
+const findActivities = async (
+  conditions: Prisma.Sql[],
+  { take, skip }: { take: number; skip: number }
+): Promise<ActivityWithRelations[]> => {
+  const rows = await prisma.$queryRaw<{ id: number }[]>`
+    SELECT "id" FROM "Activity"
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY "createdAt" DESC, "id" DESC
+    LIMIT ${take} OFFSET ${skip}`;
+
+  if (isEmpty(rows)) return [];
+
+  return (await prisma.activity.findMany({
+    where: {
+      id: {
+        in: rows.map(({ id }) => id),
       },
     },
-  })) as Organization & {
-    activities: Array<
-      Activity & { dataSource?: DataSource; view?: View; user: User }
-    >;
-  };
+    select: ACTIVITY_SELECT,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+  })) as ActivityWithRelations[];
+};
+
+const countActivities = async (conditions: Prisma.Sql[]): Promise<number> => {
+  const [{ count }] = await prisma.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int AS "count" FROM "Activity"
+    WHERE ${Prisma.join(conditions, " AND ")}`;
+
+  return count;
+};
+
+/**
+ * Returns the column permissions of the role for each table, taken from the views of the organization.
+ */
+const getTablesPermissions = async (
+  organizationId: number,
+  roleId: number | undefined
+): Promise<TablePermissions[]> => {
+  if (!roleId) return [];
 
-  const activitiesCount = await prisma.activity.count({
+  const views = await prisma.view.findMany({
     where: {
-      organizationId: parseInt(
-        (req.query.organizationId || req.body.organizationId) as string,
-        10
-      ),
+      organizationId,
+    },
+    select: {
+      dataSourceId: true,
+      tableName: true,
+      columns: true,
     },
   });
 
+  return Object.values(
+    groupBy(
+      views.filter(({ tableName }) => !isNil(tableName)),
+      ({ dataSourceId, tableName }) => [dataSourceId, tableName].join(":")
+    )
+  ).map((tableViews) => ({
+    dataSourceId: tableViews[0].dataSourceId,
+    tableName: tableViews[0].tableName as string,
+    columnPermissions: getColumnPermissionsForRole(tableViews, roleId),
+  }));
+};
+
+/**
+ * Returns a function that removes the columns hidden for the requester's role from the activities.
+ */
+const getHiddenColumnsRemover = (tablesPermissions: TablePermissions[]) => {
+  return (activity: ActivityWithRelations) =>
+    omitHiddenColumns(
+      activity,
+      tablesPermissions.find(
+        ({ dataSourceId, tableName }) =>
+          dataSourceId === activity.dataSourceId &&
+          tableName === activity.tableName
+      )?.columnPermissions || {}
+    );
+};
+
+const toCsvActivityRow = (activity: ActivityWithRelations): string => {
+  const row: Record<string, unknown> = {
+    ...activity,
+    createdAt: activity.createdAt.toISOString(),
+    userEmail: activity.user?.email,
+    dataSourceName: activity.dataSource?.name,
+    changes: isEmpty(activity.changes) ? "" : activity.changes,
+  };
+
+  return toCsvRow(EXPORT_COLUMNS.map((column) => row[column]));
+};
+
+/**
+ * Writes all the matching activities to the response in batches.
+ */
+const exportActivities = async (
+  res: NextApiResponse,
+  conditions: Prisma.Sql[],
+  format: "csv" | "json",
+  removeHiddenColumns: (
+    activity: ActivityWithRelations
+  ) => ActivityWithRelations
+) => {
+  const fileName = `activity-${DateTime.now().toISODate()}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  res.setHeader(
+    "Content-Type",
+    format === "json" ? "application/json" : "text/csv"
+  );
+
+  res.write(format === "json" ? "[" : toCsvRow(EXPORT_COLUMNS));
+
+  for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+    const activities = (
+      await findActivities(conditions, { take: EXPORT_BATCH_SIZE, skip })
+    ).map(removeHiddenColumns);
+
+    activities.forEach((activity, idx) => {
+      if (format === "json") {
+        res.write(`${skip + idx > 0 ? "," : ""}\n${JSON.stringify(activity)}`);
+      } else {
+        res.write(`\r\n${toCsvActivityRow(activity)}`);
+      }
+    });
+
+    if (activities.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  res.end(format === "json" ? "\n]" : "");
+};
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const organizationId = parseInt(
+    (req.query.organizationId || req.body.organizationId) as string,
+    10
+  );
+  const format = req.query.format as string | undefined;
+
+  const perPage = req.query.perPage
+    ? parseInt(req.query.perPage as string, 10)
+    : 10;
+  const skip = req.query.page
+    ? (parseInt(req.query.page as string, 10) - 1) * perPage
+    : 0;
+
+  const organizationUser = await getOrganizationUserFromRequest(
+    req,
+    organizationId
+  );
+  const tablesPermissions = await getTablesPermissions(
+    organizationId,
+    organizationUser?.roleId ?? undefined
+  );
+
+  const conditions = getActivitiesConditions(
+    req,
+    organizationId,
+    tablesPermissions
+  );
+  const readableCondition = await getReadableCondition(
+    organizationId,
+    organizationUser?.role as unknown as Role | null
+  );
+  if (readableCondition) conditions.push(readableCondition);
+
+  const removeHiddenColumns = getHiddenColumnsRemover(tablesPermissions);
+
+  if (format === "csv" || format === "json") {
+    return exportActivities(res, conditions, format, removeHiddenColumns);
+  }
+
+  const [activities, activitiesCount] = await Promise.all([
+    findActivities(conditions, { take: perPage, skip }),
+    countActivities(conditions),
+  ]);
+
   res.json(
-    ApiResponse.withData(response?.activities || [], {
+    ApiResponse.withData(activities.map(removeHiddenColumns), {
       meta: { count: activitiesCount },
     })
   );
@@ -0,0 +1,111 @@
+import { generateApiToken, hashApiToken } from "@/features/api-tokens";
+import { getUserFromRequest } from "@/features/api";
+import { pick } from "lodash";
+import { schema } from "@/features/api-tokens/schema";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    case "POST":
+      return handlePOST(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const apiTokens = await prisma.apiToken.findMany({
+    where: {
+      organizationId: parseInt(req.query.organizationId as string, 10),
+    },
+    select: {
+      id: true,
+      name: true,
+      lastCharacters: true,
+      lastUsedAt: true,
+      createdAt: true,
+      createdBy: true,
+      user: {
+        select: {
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+
+  res.json(ApiResponse.withData(apiTokens));
+}
+
+async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
+  const data = pick(req.body, ["name"]);
+
+  const validator = schema.validate(data, { abortEarly: false });
+  if (validator.error) {
+    return res.json(ApiResponse.withValidation(validator));
+  }
+
+  const user = await getUserFromRequest(req);
+
+  if (!user) return res.status(404).send("");
+
+  const token = generateApiToken();
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      name: data.name,
+      hashedToken: hashApiToken(token),
+      lastCharacters: token.slice(-4),
+      createdBy: user.id,
+      organizationId: parseInt(req.query.organizationId as string, 10),
+    },
+    select: {
+      id: true,
+      name: true,
+      lastCharacters: true,
+      createdAt: true,
+    },
+  });
+
+  serverSegment().track({
+    userId: user.id,
+    email: user.email,
+    event: "Created API token",
+    properties: {
+      organizationId: req.query.organizationId,
+    },
+  });
+
+  // The plain token is returned only once. We store just its hash.
+  return res.json(
+    ApiResponse.withData(
+      { ...apiToken, token },
+      {
+        message:
+          "Token created. Copy it now, you won't be able to see it again.",
+      }
+    )
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [BelongsToOrganization, {}],
+  ],
+});
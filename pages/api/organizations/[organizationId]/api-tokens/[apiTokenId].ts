@@ -0,0 +1,61 @@
+import { OWNER_ROLE } from "@/features/roles";
+import { getOrganizationUserFromRequest } from "@/features/api";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "DELETE":
+      return handleDELETE(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
+  const organizationId = parseInt(req.query.organizationId as string, 10);
+  const organizationUser = await getOrganizationUserFromRequest(
+    req,
+    organizationId
+  );
+
+  if (!organizationUser) return res.status(404).send("");
+
+  // Owners can revoke any token, the other members only their own.
+  const isOwner = organizationUser.role?.name === OWNER_ROLE;
+
+  const { count } = await prisma.apiToken.deleteMany({
+    where: {
+      id: parseInt(req.query.apiTokenId as string, 10),
+      organizationId,
+      ...(isOwner ? {} : { createdBy: organizationUser.userId }),
+    },
+  });
+
+  if (count === 0) return res.status(404).send("");
+
+  serverSegment().track({
+    userId: organizationUser.userId,
+    event: "Revoked API token",
+    properties: {
+      organizationId,
+    },
+  });
+
+  return res.json(ApiResponse.withMessage("Token revoked."));
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [BelongsToOrganization, {}],
+  ],
+});
@@ -0,0 +1,177 @@
+import { Column } from "@/features/fields/types";
+import { DataSource, View } from "@prisma/client";
+import { ListTable } from "@/plugins/data-sources/abstract-sql-query-service/types";
+import { OpenApiResource, generateOpenApiDocument } from "@/features/openapi";
+import { baseUrl } from "@/features/api/urls";
+import { get } from "lodash";
+import {
+  getColumnPermissionsForRole,
+  getOrganizationUserFromRequest,
+} from "@/features/api";
+import { hydrateColumns, restrictColumns } from "@/features/records";
+import { runQueries, runQuery } from "@/plugins/data-sources/serverHelpers";
+import { withMiddlewares } from "@/features/api/middleware";
+import AccessControlService, {
+  Role,
+} from "@/features/roles/AccessControlService";
+import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import logger from "@/lib/logger";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+const resourcesForDataSource = async (
+  dataSource: DataSource & { views: View[] },
+  ac: AccessControlService,
+  roleId: number | null
+): Promise<OpenApiResource[]> => {
+  const tables = (await runQuery(dataSource, "getTables")) as ListTable[];
+
+  const tableResources = tables
+    .map(({ name: tableName }) => ({
+      tableName,
+      storedColumns: get(dataSource, [
+        "options",
+        "tables",
+        tableName,
+        "columns",
+      ]),
+    }))
+    .filter(
+      ({ tableName }) =>
+        ac.readAny("record", { dataSourceId: dataSource.id, tableName }).granted
+    );
+  const views = dataSource.views.filter(
+    (view) =>
+      ac.readAny("record", {
+        dataSourceId: dataSource.id,
+        tableName: view.tableName,
+        viewId: view.id,
+      }).granted
+  );
+
+  // Load the columns of all the tables and views in one go.
+  const columnsList: Column[][] = await runQueries(dataSource, [
+    ...tableResources.map(({ tableName, storedColumns }) => ({
+      name: "getColumns",
+      payload: { tableName, storedColumns },
+    })),
+    ...views.map((view) => ({
+      name: "getColumns",
+      payload: {
+        tableName: view.tableName,
+        storedColumns: (view.columns as []) || [],
+      },
+    })),
+  ]);
+
+  const columnPermissionsFor = (tableName: string) =>
+    roleId
+      ? getColumnPermissionsForRole(
+          dataSource.views.filter((view) => view.tableName === tableName),
+          roleId
+        )
+      : {};
+
+  return [
+    ...tableResources.map(({ tableName, storedColumns }, idx) => ({
+      path: `/api/v1/data-sources/${dataSource.id}/tables/${encodeURIComponent(
+        tableName
+      )}`,
+      schemaName: `DataSource${dataSource.id}Table${tableName}Record`.replace(
+        /[^a-zA-Z0-9._-]/g,
+        "_"
+      ),
+      tag: dataSource.name,
+      summary: tableName,
+      columns: restrictColumns(
+        hydrateColumns(columnsList[idx], storedColumns),
+        columnPermissionsFor(tableName)
+      ),
+    })),
+    ...views.map((view, idx) => ({
+      path: `/api/v1/views/${view.id}`,
+      schemaName: `View${view.id}Record`,
+      tag: `${dataSource.name} views`,
+      summary: `"${view.name}" view`,
+      columns: restrictColumns(
+        hydrateColumns(
+          columnsList[tableResources.length + idx],
+          (view.columns as Column[]) || []
+        ),
+        columnPermissionsFor(view.tableName)
+      ).filter(({ baseOptions }) => baseOptions?.disconnected !== true),
+    })),
+  ];
+};
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const organizationId = parseInt(req.query.organizationId as string, 10);
+  const organization = await prisma.organization.findUnique({
+    where: {
+      id: organizationId,
+    },
+    include: {
+      dataSources: {
+        include: {
+          views: true,
+        },
+      },
+    },
+  });
+  const organizationUser = await getOrganizationUserFromRequest(
+    req,
+    organizationId
+  );
+
+  if (!organization || !organizationUser) return res.status(404).send("");
+
+  const ac = new AccessControlService(organizationUser.role as unknown as Role);
+  let resources: OpenApiResource[] = [];
+
+  for (const dataSource of organization.dataSources) {
+    try {
+      resources = [
+        ...resources,
+        ...(await resourcesForDataSource(
+          dataSource,
+          ac,
+          organizationUser.roleId
+        )),
+      ];
+    } catch (error) {
+      // A data source we can't connect to should not break the whole document.
+      logger.warn(
+        `Skipped data source ${dataSource.id} from the OpenAPI document.`,
+        error
+      );
+    }
+  }
+
+  res.json(
+    generateOpenApiDocument({
+      title: organization.name,
+      serverUrl: baseUrl,
+      resources,
+    })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [BelongsToOrganization, {}],
+  ],
+});
@@ -0,0 +1,97 @@
+import {
+  WEBHOOK_FIELDS,
+  WebhookData,
+  generateWebhookSecret,
+  isPublicUrl,
+  serializeWebhook,
+} from "@/features/webhooks";
+import { encrypt } from "@/lib/crypto";
+import { getUserFromRequest } from "@/features/api";
+import { pick } from "lodash";
+import { schema } from "@/features/webhooks/schema";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
+import IsOrganizationOwner from "@/features/api/middlewares/IsOrganizationOwner";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    case "POST":
+      return handlePOST(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const webhooks = await prisma.webhook.findMany({
+    where: {
+      organizationId: parseInt(req.query.organizationId as string, 10),
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+
+  res.json(ApiResponse.withData(webhooks.map(serializeWebhook)));
+}
+
+async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
+  const data = pick(req.body, WEBHOOK_FIELDS) as WebhookData;
+
+  const validator = schema.validate(data, { abortEarly: false });
+  if (validator.error) {
+    return res.json(ApiResponse.withValidation(validator));
+  }
+
+  if (!(await isPublicUrl(data.url))) {
+    return res.json(
+      ApiResponse.withError("The webhook URL has to point to a public address.")
+    );
+  }
+
+  const user = await getUserFromRequest(req);
+
+  if (!user) return res.status(404).send("");
+
+  const webhook = await prisma.webhook.create({
+    data: {
+      ...data,
+      encryptedSecret: encrypt(generateWebhookSecret()),
+      createdBy: user.id,
+      organizationId: parseInt(req.query.organizationId as string, 10),
+    },
+  });
+
+  serverSegment().track({
+    userId: user.id,
+    email: user.email,
+    event: "Created webhook",
+    properties: {
+      organizationId: req.query.organizationId,
+    },
+  });
+
+  return res.json(
+    ApiResponse.withData(serializeWebhook(webhook), {
+      message: "Webhook created",
+    })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [BelongsToOrganization, {}],
+    [IsOrganizationOwner, {}],
+  ],
+});
@@ -0,0 +1,113 @@
+import {
+  WEBHOOK_FIELDS,
+  WebhookData,
+  isPublicUrl,
+  serializeWebhook,
+} from "@/features/webhooks";
+import { getUserFromRequest } from "@/features/api";
+import { pick } from "lodash";
+import { schema } from "@/features/webhooks/schema";
+import { serverSegment } from "@/lib/track";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
+import IsOrganizationOwner from "@/features/api/middlewares/IsOrganizationOwner";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "PUT":
+      return handlePUT(req, res);
+    case "DELETE":
+      return handleDELETE(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+const findWebhook = async (req: NextApiRequest) =>
+  prisma.webhook.findFirst({
+    where: {
+      id: parseInt(req.query.webhookId as string, 10),
+      organizationId: parseInt(req.query.organizationId as string, 10),
+    },
+  });
+
+async function handlePUT(req: NextApiRequest, res: NextApiResponse) {
+  const data = pick(req.body, WEBHOOK_FIELDS) as WebhookData;
+
+  const validator = schema.validate(data, { abortEarly: false });
+  if (validator.error) {
+    return res.json(ApiResponse.withValidation(validator));
+  }
+
+  if (!(await isPublicUrl(data.url))) {
+    return res.json(
+      ApiResponse.withError("The webhook URL has to point to a public address.")
+    );
+  }
+
+  const webhook = await findWebhook(req);
+
+  if (!webhook) return res.status(404).send("");
+
+  const result = await prisma.webhook.update({
+    where: {
+      id: webhook.id,
+    },
+    data,
+  });
+
+  const user = await getUserFromRequest(req);
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Updated webhook",
+    properties: {
+      webhookId: webhook.id,
+    },
+  });
+
+  return res.json(
+    ApiResponse.withData(serializeWebhook(result), { message: "Updated" })
+  );
+}
+
+async function handleDELETE(req: NextApiRequest, res: NextApiResponse) {
+  const webhook = await findWebhook(req);
+
+  if (!webhook) return res.status(404).send("");
+
+  await prisma.webhook.delete({
+    where: {
+      id: webhook.id,
+    },
+  });
+
+  const user = await getUserFromRequest(req);
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Deleted webhook",
+    properties: {
+      webhookId: webhook.id,
+    },
+  });
+
+  return res.json(ApiResponse.withMessage("Removed."));
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [BelongsToOrganization, {}],
+    [IsOrganizationOwner, {}],
+  ],
+});
@@ -0,0 +1,73 @@
+import { attemptDelivery } from "@/features/webhooks";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import BelongsToOrganization from "@/features/api/middlewares/BelongsToOrganization";
+import IsOrganizationOwner from "@/features/api/middlewares/IsOrganizationOwner";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import prisma from "@/prisma";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    case "POST":
+      return handlePOST(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+const webhookWhere = (req: NextApiRequest) => ({
+  id: parseInt(req.query.webhookId as string, 10),
+  organizationId: parseInt(req.query.organizationId as string, 10),
+});
+
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      webhook: webhookWhere(req),
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: 50,
+  });
+
+  res.json(ApiResponse.withData(deliveries));
+}
+
+// Redeliver a delivery now, regardless of its status.
+async function handlePOST(req: NextApiRequest, res: NextApiResponse) {
+  const delivery = await prisma.webhookDelivery.findFirst({
+    where: {
+      id: parseInt(req.body.deliveryId as string, 10),
+      webhook: webhookWhere(req),
+    },
+    include: {
+      webhook: true,
+    },
+  });
+
+  if (!delivery) return res.status(404).send("");
+
+  const result = await attemptDelivery(delivery);
+
+  return res.json(
+    ApiResponse.withData(result, {
+      message:
+        result.status === "success" ? "Delivered" : "The delivery failed again",
+    })
+  );
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [BelongsToOrganization, {}],
+    [IsOrganizationOwner, {}],
+  ],
+});
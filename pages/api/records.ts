@@ -1,21 +1,23 @@
-import { Column } from "@/features/fields/types";
-import { DataSource, View } from "@prisma/client";
-import { decodeObject } from "@/lib/encoding";
 import {
   filterOutRecordColumns,
   hydrateColumns,
   hydrateRecords,
+  restrictColumns,
 } from "@/features/records";
-import { getDataSourceFromRequest, getViewFromRequest } from "@/features/api";
+import {
+  getColumnPermissionsFromRequest,
+  getRecordsSourceFromRequest,
+} from "@/features/api";
 import { merge } from "lodash";
 import { runQueries } from "@/plugins/data-sources/serverHelpers";
 import { withMiddlewares } from "@/features/api/middleware";
 import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
 import type { NextApiRequest, NextApiResponse } from "next";
 
-const handler = async (
+export const handler = async (
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> => {
@@ -28,38 +30,16 @@ const handler = async (
 };
 
 async function handleGET(req: NextApiRequest, res: NextApiResponse) {
-  let tableName: string;
-  let dataSource;
-  let filters;
-  let storedColumns: Column[] = [];
   const limit = parseInt(req.query.limit as string);
   const offset = parseInt(req.query.offset as string);
   const orderBy = req.query.orderBy as string;
   const orderDirection = req.query.orderDirection as string;
 
-  if (req.query.viewId) {
-    const view = (await getViewFromRequest(req, {
-      include: {
-        dataSource: true,
-      },
-    })) as View & {
-      dataSource: DataSource;
-    };
-
-    if (!view || !view?.dataSource) return res.status(404).send("");
+  const source = await getRecordsSourceFromRequest(req);
 
-    dataSource = view?.dataSource;
-    tableName = view?.tableName as string;
-    storedColumns = view.columns as Column[];
-    const decodedFilters = decodeObject(req.query.filters as string) || [];
-    filters = merge(decodedFilters, view.filters);
-  } else {
-    dataSource = await getDataSourceFromRequest(req);
+  if (!source) return res.status(404).send("");
 
-    if (!dataSource) return res.status(404).send("");
-    tableName = req.query.tableName as string;
-    filters = decodeObject(req.query.filters as string);
-  }
+  const { dataSource, tableName, storedColumns, filters } = source;
 
   const startingAfter = req.query.startingAfter as string;
   const endingBefore = req.query.endingBefore as string;
@@ -106,11 +86,26 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
     hydratedColumns,
     dataSource
   );
-  const newRecords = filterOutRecordColumns(hydratedRecords, hydratedColumns);
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    tableName
+  );
+  const newRecords = filterOutRecordColumns(
+    hydratedRecords,
+    hydratedColumns,
+    columnPermissions
+  );
 
   res.json(
     ApiResponse.withData(newRecords, {
-      meta: merge({ count, columns: hydratedColumns }, meta),
+      meta: merge(
+        {
+          count,
+          columns: restrictColumns(hydratedColumns, columnPermissions),
+        },
+        meta
+      ),
     })
   );
 }
@@ -119,5 +114,6 @@ export default withMiddlewares(handler, {
   middlewares: [
     [IsSignedIn, {}],
     [OwnsDataSource, {}],
+    [HasAbility, {}],
   ],
 });
@@ -1,26 +1,28 @@
-import { Role as ACRole } from "@/features/roles/AccessControlService";
 import { Column } from "@/features/fields/types";
 import { DataSource, View } from "@prisma/client";
-import { OrganizationUser, Role, User } from "@prisma/client";
+import { FilterOrFilterGroup } from "@/features/tables/types";
 import {
   filterOutRecordColumns,
   hydrateColumns,
   hydrateRecords,
+  restrictColumns,
 } from "@/features/records";
 import {
+  getColumnPermissionsFromRequest,
+  getCurrentUserContextFromRequest,
   getDataSourceFromRequest,
-  getUserFromRequest,
   getViewFromRequest,
 } from "@/features/api";
+import { resolveFilterPlaceholders } from "@/features/views";
 import { runQueries } from "@/plugins/data-sources/serverHelpers";
 import { withMiddlewares } from "@/features/api/middleware";
-import AccessControlService from "@/features/roles/AccessControlService";
 import ApiResponse from "@/features/api/ApiResponse";
+import HasAbility from "@/features/api/middlewares/HasAbility";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
 import type { NextApiRequest, NextApiResponse } from "next";
 
-const handler = async (
+export const handler = async (
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> => {
@@ -33,28 +35,6 @@ const handler = async (
 };
 
 async function handleGET(req: NextApiRequest, res: NextApiResponse) {
-  const user = (await getUserFromRequest(req, {
-    select: {
-      organizations: {
-        include: {
-          role: {
-            select: {
-              name: true,
-              options: true,
-            },
-          },
-        },
-      },
-    },
-  })) as User & {
-    organizations: Array<OrganizationUser & { role: Role }>;
-  };
-
-  const role = user.organizations[0].role;
-  const ac = new AccessControlService(role as ACRole);
-
-  if (!ac.readAny("record").granted) return res.status(403).send("");
-
   const recordId = req.query.recordId as string;
   let tableName: string;
   let dataSource;
@@ -75,7 +55,10 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
     dataSource = view?.dataSource;
     tableName = view?.tableName as string;
     storedColumns = view.columns as Column[];
-    filters = view?.filters;
+    filters = resolveFilterPlaceholders(
+      view.filters as FilterOrFilterGroup[],
+      await getCurrentUserContextFromRequest(req, dataSource.organizationId)
+    );
   } else {
     dataSource = await getDataSourceFromRequest(req);
 
@@ -111,17 +94,28 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
     hydratedColumns,
     dataSource
   );
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    tableName
+  );
   const newRecord = filterOutRecordColumns(
     hydratedRecord,
-    hydratedColumns
+    hydratedColumns,
+    columnPermissions
   );
 
-  res.json(ApiResponse.withData(newRecord[0], { meta: { columns } }));
+  res.json(
+    ApiResponse.withData(newRecord[0], {
+      meta: { columns: restrictColumns(columns, columnPermissions) },
+    })
+  );
 }
 
 export default withMiddlewares(handler, {
   middlewares: [
     [IsSignedIn, {}],
     [OwnsDataSource, {}],
+    [HasAbility, {}],
   ],
 });
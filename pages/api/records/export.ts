@@ -0,0 +1,255 @@
+import { Column } from "@/features/fields/types";
+import { ExportFormat } from "@/features/records/types";
+import {
+  getColumnPermissionsFromRequest,
+  getRecordsSourceFromRequest,
+  getUserFromRequest,
+} from "@/features/api";
+import { getConnectedColumns, getVisibleColumns } from "@/features/fields";
+import {
+  getDisplayValue,
+  hydrateColumns,
+  hydrateRecords,
+  restrictColumns,
+} from "@/features/records";
+import { isNil, isPlainObject, last } from "lodash";
+import { runQuery } from "@/plugins/data-sources/serverHelpers";
+import { serverSegment } from "@/lib/track";
+import { toCsvRow } from "@/lib/csv";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import ExcelJS from "exceljs";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
+import OwnsDataSource from "@/features/api/middlewares/OwnsDataSource";
+import getDataSourceInfo from "@/plugins/data-sources/getDataSourceInfo";
+import logger from "@/lib/logger";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+// How many records we fetch from the data source at once.
+const PAGE_SIZE = 500;
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return handleGET(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/**
+ * Waits for the client to catch up so the records don't pile up in memory.
+ * Resolves to `false` when the client went away.
+ */
+const waitForClient = (res: NextApiResponse): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (res.destroyed) return resolve(false);
+    if (res.writableLength < res.writableHighWaterMark) return resolve(true);
+
+    const onDrain = () => {
+      res.off("close", onClose);
+      resolve(true);
+    };
+    const onClose = () => {
+      res.off("drain", onDrain);
+      resolve(false);
+    };
+
+    res.once("drain", onDrain);
+    res.once("close", onClose);
+  });
+
+const write = (res: NextApiResponse, chunk: string): Promise<boolean> => {
+  res.write(chunk);
+
+  return waitForClient(res);
+};
+
+/**
+ * Exports the records the user is looking at, with the same filters, order and visible columns as the records table.
+ * The records are fetched and written page by page and the export stops when the client disconnects.
+ */
+async function handleGET(req: NextApiRequest, res: NextApiResponse) {
+  const format = ((req.query.format as string) || "csv") as ExportFormat;
+
+  if (!contentTypes[format])
+    return res.send(ApiResponse.withError("Unsupported export format."));
+
+  const source = await getRecordsSourceFromRequest(req);
+
+  if (!source) return res.status(404).send("");
+
+  const { dataSource, tableName, storedColumns, filters } = source;
+  const orderBy = req.query.orderBy as string;
+  const orderDirection = req.query.orderDirection as string;
+
+  const dataSourceInfo = await getDataSourceInfo(dataSource.type);
+  const columnPermissions = await getColumnPermissionsFromRequest(
+    req,
+    dataSource,
+    tableName
+  );
+  const columnsFromDataSource = await runQuery(dataSource, "getColumns", {
+    tableName,
+    storedColumns,
+  });
+
+  res.setHeader("Content-Type", contentTypes[format]);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${encodeURIComponent(tableName)}.${format}"`
+  );
+
+  // The rows of XLSX files are zipped and written to the response as they're committed.
+  const workbook =
+    format === "xlsx"
+      ? new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res })
+      : undefined;
+  const sheet = workbook?.addWorksheet(tableName.slice(0, 31));
+  let columns: Column[] | undefined;
+  let exportedColumns: Column[] = [];
+  let offset = 0;
+  let startingAfter: string | undefined;
+  let hasMore = true;
+
+  try {
+    while (hasMore && !res.destroyed) {
+      const {
+        records,
+        columns: columnsFromRecords,
+        meta,
+      } = await runQuery(dataSource, "getRecords", {
+        tableName,
+        filters,
+        limit: PAGE_SIZE,
+        offset,
+        orderBy,
+        orderDirection,
+        startingAfter,
+      });
+
+      if (!columns) {
+        columns = hydrateColumns(
+          columnsFromRecords || columnsFromDataSource,
+          storedColumns
+        );
+        exportedColumns = getVisibleColumns(
+          getConnectedColumns(restrictColumns(columns, columnPermissions)),
+          "index"
+        );
+
+        const header = exportedColumns.map(({ label }) => label);
+        if (format === "csv") await write(res, `${toCsvRow(header)}\r\n`);
+        if (sheet) sheet.addRow(header).commit();
+      }
+
+      const hydratedRecords = await hydrateRecords(
+        records,
+        columns,
+        dataSource
+      );
+
+      for (const record of hydratedRecords) {
+        const values = exportedColumns.map((column) =>
+          getDisplayValue(record[column.name], column)
+        );
+        let connected = true;
+
+        if (format === "csv") {
+          connected = await write(res, `${toCsvRow(values)}\r\n`);
+        } else if (format === "jsonl") {
+          connected = await write(
+            res,
+            `${JSON.stringify(
+              Object.fromEntries(
+                exportedColumns.map(({ name }, idx) => [name, values[idx]])
+              )
+            )}\n`
+          );
+        } else if (sheet) {
+          sheet
+            .addRow(
+              values.map((value) =>
+                isPlainObject(value) || Array.isArray(value)
+                  ? JSON.stringify(value)
+                  : value
+              )
+            )
+            .commit();
+          connected = await waitForClient(res);
+        }
+
+        if (!connected) break;
+      }
+
+      if (dataSourceInfo?.pagination === "cursor") {
+        // Some data sources send the cursor of the next page, the rest continue after the last record.
+        const nextCursor: string | undefined =
+          meta?.nextCursor ?? last(records as Record<string, string>[])?.id;
+
+        hasMore =
+          Boolean(meta?.hasMore) &&
+          !isNil(nextCursor) &&
+          nextCursor !== startingAfter;
+        startingAfter = nextCursor;
+      } else {
+        hasMore = records.length === PAGE_SIZE;
+        offset += PAGE_SIZE;
+      }
+    }
+  } catch (error: any) {
+    if (!res.headersSent) throw error;
+
+    logger.error({
+      msg: "Failed to export the records.",
+      errorMessage: error.message,
+      error,
+    });
+
+    // The status was sent already so the connection is dropped and the client sees an incomplete download.
+    res.destroy(error);
+
+    return;
+  }
+
+  // The client went away.
+  if (res.destroyed) return;
+
+  if (workbook) {
+    sheet?.commit();
+    // Writes the end of the archive and ends the response.
+    await workbook.commit();
+  } else {
+    res.end();
+  }
+
+  const user = await getUserFromRequest(req);
+
+  serverSegment().track({
+    userId: user ? user.id : "",
+    email: user ? user?.email : "",
+    event: "Exported records",
+    properties: {
+      id: dataSource.type,
+      format,
+    },
+  });
+}
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [IsSignedIn, {}],
+    [OwnsDataSource, {}],
+    [HasAbility, {}],
+  ],
+});
@@ -0,0 +1,28 @@
+import { handler as createRecordHandler } from "@/pages/api/data-sources/[dataSourceId]/tables/[tableName]/records";
+import { handler as getRecordsHandler } from "@/pages/api/records";
+import { withMiddlewares } from "@/features/api/middleware";
+import { withPaginationDefaults } from "@/features/api-tokens";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import HasApiToken from "@/features/api/middlewares/HasApiToken";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return getRecordsHandler(withPaginationDefaults(req), res);
+    case "POST":
+      return createRecordHandler(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [HasApiToken, {}],
+    [HasAbility, {}],
+  ],
+});
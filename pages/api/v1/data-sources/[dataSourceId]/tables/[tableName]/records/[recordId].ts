@@ -0,0 +1,28 @@
+import { handler as getRecordHandler } from "@/pages/api/records/[recordId]";
+import { handler as recordHandler } from "@/pages/api/data-sources/[dataSourceId]/tables/[tableName]/records/[recordId]";
+import { withMiddlewares } from "@/features/api/middleware";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import HasApiToken from "@/features/api/middlewares/HasApiToken";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    case "GET":
+      return getRecordHandler(req, res);
+    case "PUT":
+    case "DELETE":
+      return recordHandler(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+export default withMiddlewares(handler, {
+  middlewares: [
+    [HasApiToken, {}],
+    [HasAbility, {}],
+  ],
+});
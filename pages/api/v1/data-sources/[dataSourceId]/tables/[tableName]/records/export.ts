@@ -0,0 +1,11 @@
+import { handler as exportRecordsHandler } from "@/pages/api/records/export";
+import { withMiddlewares } from "@/features/api/middleware";
+import HasAbility from "@/features/api/middlewares/HasAbility";
+import HasApiToken from "@/features/api/middlewares/HasApiToken";
+
+export default withMiddlewares(exportRecordsHandler, {
+  middlewares: [
+    [HasApiToken, {}],
+    [HasAbility, {}],
+  ],
+});
@@ -1,7 +1,12 @@
-import { getUserFromRequest } from "@/features/api";
+import { Role } from "@/features/roles/AccessControlService";
+import {
+  getOrganizationUserFromRequest,
+  getUserFromRequest,
+} from "@/features/api";
 import { schema } from "@/features/views/schema";
 import { serverSegment } from "@/lib/track";
 import { withMiddlewares } from "@/features/api/middleware";
+import AccessControlService from "@/features/roles/AccessControlService";
 import ApiResponse from "@/features/api/ApiResponse";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import prisma from "@/prisma";
@@ -44,6 +49,28 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
     },
   });
 
+  if (!view) return res.status(404).send("");
+
+  const organizationUser = await getOrganizationUserFromRequest(
+    req,
+    view.organizationId
+  );
+  const ac = new AccessControlService(
+    organizationUser?.role as unknown as Role
+  );
+
+  if (
+    !ac.readAny("record", {
+      dataSourceId: view.dataSourceId,
+      tableName: view.tableName,
+      viewId: view.id,
+    }).granted
+  ) {
+    return res
+      .status(403)
+      .send(ApiResponse.withError("You don't have access to this view."));
+  }
+
   res.json(ApiResponse.withData(view));
 }
 
@@ -1,8 +1,16 @@
-import { Organization, OrganizationUser, User, View } from "@prisma/client";
+import { Role as ACRole } from "@/features/roles/AccessControlService";
+import {
+  Organization,
+  OrganizationUser,
+  Role,
+  User,
+  View,
+} from "@prisma/client";
 import { flatten, get, pick } from "lodash";
 import { getUserFromRequest } from "@/features/api";
 import { serverSegment } from "@/lib/track";
 import { withMiddlewares } from "@/features/api/middleware";
+import AccessControlService from "@/features/roles/AccessControlService";
 import ApiResponse from "@/features/api/ApiResponse";
 import IsSignedIn from "@/features/api/middlewares/IsSignedIn";
 import prisma from "@/prisma";
@@ -96,6 +104,7 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
               },
             },
           },
+          role: true,
         },
       },
     },
@@ -105,14 +114,25 @@ async function handleGET(req: NextApiRequest, res: NextApiResponse) {
         organization: Organization & {
           views: View[];
         };
+        role: Role | null;
       }
     >;
   };
 
+  // Return only the views the user's role in that organization can read.
   const views = flatten(
-    get(user, ["organizations"])
-      .map((orgUser) => orgUser?.organization)
-      .map((org) => org?.views)
+    get(user, ["organizations"]).map((orgUser) => {
+      const ac = new AccessControlService(orgUser?.role as unknown as ACRole);
+
+      return (orgUser?.organization?.views || []).filter(
+        (view) =>
+          ac.readAny("record", {
+            dataSourceId: view.dataSourceId,
+            tableName: view.tableName,
+            viewId: view.id,
+          }).granted
+      );
+    })
   );
 
   res.json(ApiResponse.withData(views));
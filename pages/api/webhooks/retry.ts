@@ -0,0 +1,38 @@
+import { retryDueDeliveries } from "@/features/webhooks";
+import { withMiddlewares } from "@/features/api/middleware";
+import ApiResponse from "@/features/api/ApiResponse";
+import type { NextApiRequest, NextApiResponse } from "next";
+
+const handler = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  switch (req.method) {
+    // Vercel Cron sends GET requests.
+    case "GET":
+    case "POST":
+      return handleRetry(req, res);
+    default:
+      return res.status(404).send("");
+  }
+};
+
+/**
+ * Sends the webhook deliveries that are due.
+ * It's scheduled every minute in `vercel.json` and by the `cron` service of the docker-compose setup.
+ * Requests need the `Authorization: Bearer <CRON_SECRET>` header.
+ */
+async function handleRetry(req: NextApiRequest, res: NextApiResponse) {
+  if (
+    !process.env.CRON_SECRET ||
+    req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return res.status(404).send("");
+  }
+
+  const count = await retryDueDeliveries();
+
+  res.json(ApiResponse.withData({ count }));
+}
+
+export default withMiddlewares(handler);
@@ -0,0 +1,20 @@
+import NewDataSourceForm from "@/features/data-sources/components/NewDataSourceForm";
+
+const New = () => (
+  <NewDataSourceForm
+    type="amazon_redshift"
+    placeholders={{
+      name: "My Redshift cluster",
+      credentials: {
+        host: "examplecluster.abc123xyz789.us-west-1.redshift.amazonaws.com",
+      },
+    }}
+    defaultValues={{
+      credentials: {
+        port: 5439,
+      },
+    }}
+  />
+);
+
+export default New;
@@ -0,0 +1,155 @@
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Select,
+} from "@chakra-ui/react";
+import { PlusIcon } from "@heroicons/react/outline";
+import { joiResolver } from "@hookform/resolvers/joi/dist/joi";
+import { schema } from "@/plugins/data-sources/redis/schema";
+import { useAddDataSourceMutation } from "@/features/data-sources/api-slice";
+import { useForm } from "react-hook-form";
+import { useProfile } from "@/hooks";
+import { useRouter } from "next/router";
+import BackButton from "@/features/records/components/BackButton";
+import Layout from "@/components/Layout";
+import PageWrapper from "@/components/PageWrapper";
+import React, { useState } from "react";
+import isUndefined from "lodash/isUndefined";
+
+export interface IFormFields {
+  id?: number;
+  name: string;
+  type: "redis";
+  organizationId: number;
+  credentials: {
+    url: string;
+  };
+  options: Record<string, unknown>;
+}
+
+function New() {
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const [addDataSource] = useAddDataSourceMutation();
+  const { organizations } = useProfile();
+
+  const { register, handleSubmit, formState } = useForm<IFormFields>({
+    defaultValues: {
+      name: "",
+      type: "redis",
+      organizationId:
+        organizations && organizations.length > 0
+          ? organizations[0].id
+          : undefined,
+      credentials: {
+        url: "",
+      },
+      options: {},
+    },
+    resolver: joiResolver(schema),
+  });
+  const { errors } = formState;
+
+  const onSubmit = async (formData: IFormFields) => {
+    setIsLoading(true);
+
+    let response;
+    try {
+      response = await addDataSource({ body: formData }).unwrap();
+    } catch (error) {}
+
+    setIsLoading(false);
+
+    if (response && response.ok) {
+      await router.push(`/data-sources/${response.data.id}`);
+    }
+  };
+
+  return (
+    <Layout hideSidebar={true}>
+      <PageWrapper
+        heading="Add data source"
+        buttons={<BackButton href="/data-sources/new" />}
+        footer={
+          <PageWrapper.Footer
+            center={
+              <Button
+                colorScheme="blue"
+                size="sm"
+                width="300px"
+                type="submit"
+                disabled={isLoading}
+                onClick={(e) => {
+                  return handleSubmit(onSubmit)(e);
+                }}
+                leftIcon={<PlusIcon className="h-4" />}
+                isLoading={isLoading}
+              >
+                Create
+              </Button>
+            }
+          />
+        }
+      >
+        <div className="relative flex flex-col flex-1 w-full h-full">
+          <form
+            onSubmit={handleSubmit(onSubmit)}
+            className="space-y-4 max-w-2xl"
+          >
+            <FormControl
+              id="name"
+              isInvalid={!isUndefined(errors?.name?.message)}
+            >
+              <FormLabel>Name</FormLabel>
+              <Input
+                type="text"
+                placeholder="My Redis"
+                {...register("name")}
+                autoFocus
+              />
+              <FormHelperText>The name of your data source.</FormHelperText>
+              <FormErrorMessage>{errors?.name?.message}</FormErrorMessage>
+            </FormControl>
+
+            <FormControl
+              id="url"
+              isInvalid={!isUndefined(errors?.credentials?.url?.message)}
+            >
+              <FormLabel>Connection string</FormLabel>
+              <Input
+                type="text"
+                placeholder="redis://:password@localhost:6379/0"
+                {...register("credentials.url")}
+              />
+              <FormHelperText>
+                The credentials are safely encrypted. We'll never show these
+                credentials again.
+              </FormHelperText>
+              <FormErrorMessage>
+                {errors?.credentials?.url?.message}
+              </FormErrorMessage>
+            </FormControl>
+
+            <FormControl id="organization">
+              <FormLabel>Organization</FormLabel>
+              <Select {...register("organizationId")}>
+                {organizations.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <input type="submit" className="hidden invisible" />
+          </form>
+        </div>
+      </PageWrapper>
+    </Layout>
+  );
+}
+
+export default New;
@@ -0,0 +1,188 @@
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Select,
+} from "@chakra-ui/react";
+import { PlusIcon, TerminalIcon } from "@heroicons/react/outline";
+import { joiResolver } from "@hookform/resolvers/joi/dist/joi";
+import { schema } from "@/plugins/data-sources/sqlite/schema";
+import {
+  useAddDataSourceMutation,
+  useCheckConnectionMutation,
+} from "@/features/data-sources/api-slice";
+import { useForm } from "react-hook-form";
+import { useProfile } from "@/hooks";
+import { useRouter } from "next/router";
+import BackButton from "@/features/records/components/BackButton";
+import Layout from "@/components/Layout";
+import PageWrapper from "@/components/PageWrapper";
+import React, { useState } from "react";
+import isUndefined from "lodash/isUndefined";
+
+export interface IFormFields {
+  id?: number;
+  name: string;
+  type: "sqlite";
+  organizationId: number;
+  credentials: {
+    filename: string;
+  };
+  options: Record<string, unknown>;
+}
+
+function New() {
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const [addDataSource] = useAddDataSourceMutation();
+  const [checkConnection, { isLoading: isChecking }] =
+    useCheckConnectionMutation();
+  const { organizations } = useProfile();
+
+  const { register, handleSubmit, formState, getValues } = useForm<IFormFields>(
+    {
+      defaultValues: {
+        name: "",
+        type: "sqlite",
+        organizationId:
+          organizations && organizations.length > 0
+            ? organizations[0].id
+            : undefined,
+        credentials: {
+          filename: "",
+        },
+        options: {},
+      },
+      resolver: joiResolver(schema),
+    }
+  );
+  const { errors } = formState;
+
+  const checkConnectionMethod = async () => {
+    const response = await checkConnection({
+      body: {
+        type: getValues("type"),
+        credentials: getValues("credentials"),
+        options: getValues("options"),
+      },
+    }).unwrap();
+
+    return (response as { ok?: boolean })?.ok === true;
+  };
+
+  const onSubmit = async (formData: IFormFields) => {
+    setIsLoading(true);
+
+    let response;
+    try {
+      // Check the database file can be opened before saving the data source.
+      if (await checkConnectionMethod()) {
+        response = await addDataSource({ body: formData }).unwrap();
+      }
+    } catch (error) {}
+
+    setIsLoading(false);
+
+    if (response && response.ok) {
+      await router.push(`/data-sources/${response.data.id}`);
+    }
+  };
+
+  return (
+    <Layout hideSidebar={true}>
+      <PageWrapper
+        heading="Add data source"
+        buttons={<BackButton href="/data-sources/new" />}
+        footer={
+          <PageWrapper.Footer
+            left={
+              <Button
+                colorScheme="blue"
+                size="sm"
+                variant="outline"
+                onClick={checkConnectionMethod}
+                leftIcon={<TerminalIcon className="h-4" />}
+                isLoading={isChecking}
+              >
+                Test connection
+              </Button>
+            }
+            center={
+              <Button
+                colorScheme="blue"
+                size="sm"
+                width="300px"
+                type="submit"
+                disabled={isLoading}
+                onClick={(e) => {
+                  return handleSubmit(onSubmit)(e);
+                }}
+                leftIcon={<PlusIcon className="h-4" />}
+                isLoading={isLoading}
+              >
+                Create
+              </Button>
+            }
+          />
+        }
+      >
+        <div className="relative flex flex-col flex-1 w-full h-full">
+          <form
+            onSubmit={handleSubmit(onSubmit)}
+            className="space-y-4 max-w-2xl"
+          >
+            <FormControl
+              id="name"
+              isInvalid={!isUndefined(errors?.name?.message)}
+            >
+              <FormLabel>Name</FormLabel>
+              <Input
+                type="text"
+                placeholder="My SQLite DB"
+                {...register("name")}
+                autoFocus
+              />
+              <FormHelperText>The name of your data source.</FormHelperText>
+              <FormErrorMessage>{errors?.name?.message}</FormErrorMessage>
+            </FormControl>
+
+            <FormControl
+              id="filename"
+              isInvalid={!isUndefined(errors?.credentials?.filename?.message)}
+            >
+              <FormLabel>Database file</FormLabel>
+              <Input
+                type="text"
+                placeholder="/var/lib/databases/operations.sqlite"
+                {...register("credentials.filename")}
+              />
+              <FormHelperText>
+                The path of the database file on the server.
+              </FormHelperText>
+              <FormErrorMessage>
+                {errors?.credentials?.filename?.message}
+              </FormErrorMessage>
+            </FormControl>
+
+            <FormControl id="organization">
+              <FormLabel>Organization</FormLabel>
+              <Select {...register("organizationId")}>
+                {organizations.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <input type="submit" className="hidden invisible" />
+          </form>
+        </div>
+      </PageWrapper>
+    </Layout>
+  );
+}
+
+export default New;
@@ -0,0 +1,331 @@
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Select,
+} from "@chakra-ui/react";
+import { PlusIcon } from "@heroicons/react/outline";
+import {
+  SwaggerAuthType,
+  SwaggerPaginationType,
+} from "@/plugins/data-sources/swagger/types";
+import { joiResolver } from "@hookform/resolvers/joi/dist/joi";
+import { schema } from "@/plugins/data-sources/swagger/schema";
+import { useAddDataSourceMutation } from "@/features/data-sources/api-slice";
+import { useForm } from "react-hook-form";
+import { useProfile } from "@/hooks";
+import { useRouter } from "next/router";
+import BackButton from "@/features/records/components/BackButton";
+import Layout from "@/components/Layout";
+import PageWrapper from "@/components/PageWrapper";
+import React, { useState } from "react";
+import isUndefined from "lodash/isUndefined";
+
+export interface IFormFields {
+  id?: number;
+  name: string;
+  type: "swagger";
+  organizationId: number;
+  credentials: {
+    authType: SwaggerAuthType;
+    headerName: string;
+    token: string;
+  };
+  options: {
+    specUrl: string;
+    baseUrl: string;
+    pagination: {
+      type: SwaggerPaginationType;
+      limitParam: string;
+      offsetParam: string;
+      pageParam: string;
+      cursorParam: string;
+      recordsPath: string;
+      nextCursorPath: string;
+      totalPath: string;
+    };
+  };
+}
+
+function New() {
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const [addDataSource] = useAddDataSourceMutation();
+  const { organizations } = useProfile();
+
+  const { register, handleSubmit, formState, watch } = useForm<IFormFields>({
+    defaultValues: {
+      name: "",
+      type: "swagger",
+      organizationId:
+        organizations && organizations.length > 0
+          ? organizations[0].id
+          : undefined,
+      credentials: {
+        authType: "bearer",
+        headerName: "",
+        token: "",
+      },
+      options: {
+        specUrl: "",
+        baseUrl: "",
+        pagination: {
+          type: "offset",
+          limitParam: "limit",
+          offsetParam: "offset",
+          pageParam: "page",
+          cursorParam: "cursor",
+          recordsPath: "",
+          nextCursorPath: "",
+          totalPath: "",
+        },
+      },
+    },
+    resolver: joiResolver(schema),
+  });
+  const { errors } = formState;
+  const authType = watch("credentials.authType");
+  const paginationType = watch("options.pagination.type");
+
+  const onSubmit = async (formData: IFormFields) => {
+    setIsLoading(true);
+
+    let response;
+    try {
+      response = await addDataSource({ body: formData }).unwrap();
+    } catch (error) {}
+
+    setIsLoading(false);
+
+    if (response && response.ok) {
+      await router.push(`/data-sources/${response.data.id}`);
+    }
+  };
+
+  return (
+    <Layout hideSidebar={true}>
+      <PageWrapper
+        heading="Add data source"
+        buttons={<BackButton href="/data-sources/new" />}
+        footer={
+          <PageWrapper.Footer
+            center={
+              <Button
+                colorScheme="blue"
+                size="sm"
+                width="300px"
+                type="submit"
+                disabled={isLoading}
+                onClick={(e) => {
+                  return handleSubmit(onSubmit)(e);
+                }}
+                leftIcon={<PlusIcon className="h-4" />}
+                isLoading={isLoading}
+              >
+                Create
+              </Button>
+            }
+          />
+        }
+      >
+        <div className="relative flex flex-col flex-1 w-full h-full">
+          <form
+            onSubmit={handleSubmit(onSubmit)}
+            className="space-y-4 max-w-2xl"
+          >
+            <FormControl
+              id="name"
+              isInvalid={!isUndefined(errors?.name?.message)}
+            >
+              <FormLabel>Name</FormLabel>
+              <Input
+                type="text"
+                placeholder="My internal API"
+                {...register("name")}
+                autoFocus
+              />
+              <FormHelperText>The name of your data source.</FormHelperText>
+              <FormErrorMessage>{errors?.name?.message}</FormErrorMessage>
+            </FormControl>
+
+            <FormControl
+              id="specUrl"
+              isInvalid={!isUndefined(errors?.options?.specUrl?.message)}
+            >
+              <FormLabel>OpenAPI document URL</FormLabel>
+              <Input
+                type="text"
+                placeholder="https://api.example.com/openapi.json"
+                {...register("options.specUrl")}
+              />
+              <FormHelperText>
+                The JSON OpenAPI (Swagger) document of your API. Each listable
+                path becomes a table.
+              </FormHelperText>
+              <FormErrorMessage>
+                {errors?.options?.specUrl?.message}
+              </FormErrorMessage>
+            </FormControl>
+
+            <FormControl
+              id="baseUrl"
+              isInvalid={!isUndefined(errors?.options?.baseUrl?.message)}
+            >
+              <FormLabel>Base URL</FormLabel>
+              <Input
+                type="text"
+                placeholder="https://api.example.com/v1"
+                {...register("options.baseUrl")}
+              />
+              <FormHelperText>
+                Leave empty to use the server from the document.
+              </FormHelperText>
+              <FormErrorMessage>
+                {errors?.options?.baseUrl?.message}
+              </FormErrorMessage>
+            </FormControl>
+
+            <FormControl id="authType">
+              <FormLabel>Authentication</FormLabel>
+              <Select {...register("credentials.authType")}>
+                <option value="none">None</option>
+                <option value="bearer">Bearer token</option>
+                <option value="header">API key header</option>
+              </Select>
+            </FormControl>
+
+            {authType === "header" && (
+              <FormControl id="headerName">
+                <FormLabel>Header name</FormLabel>
+                <Input
+                  type="text"
+                  placeholder="X-API-Key"
+                  {...register("credentials.headerName")}
+                />
+              </FormControl>
+            )}
+
+            {authType !== "none" && (
+              <FormControl id="token">
+                <FormLabel>Token</FormLabel>
+                <Input type="password" {...register("credentials.token")} />
+                <FormHelperText>
+                  The credentials are safely encrypted. We'll never show these
+                  credentials again.
+                </FormHelperText>
+              </FormControl>
+            )}
+
+            <FormControl id="paginationType">
+              <FormLabel>Pagination</FormLabel>
+              <Select {...register("options.pagination.type")}>
+                <option value="offset">Limit and offset</option>
+                <option value="page">Limit and page number</option>
+                <option value="cursor">Cursor</option>
+                <option value="none">None</option>
+              </Select>
+              <FormHelperText>How the list endpoints paginate.</FormHelperText>
+            </FormControl>
+
+            {paginationType !== "none" && (
+              <FormControl id="limitParam">
+                <FormLabel>Limit parameter</FormLabel>
+                <Input
+                  type="text"
+                  {...register("options.pagination.limitParam")}
+                />
+              </FormControl>
+            )}
+
+            {paginationType === "offset" && (
+              <FormControl id="offsetParam">
+                <FormLabel>Offset parameter</FormLabel>
+                <Input
+                  type="text"
+                  {...register("options.pagination.offsetParam")}
+                />
+              </FormControl>
+            )}
+
+            {paginationType === "page" && (
+              <FormControl id="pageParam">
+                <FormLabel>Page parameter</FormLabel>
+                <Input
+                  type="text"
+                  {...register("options.pagination.pageParam")}
+                />
+              </FormControl>
+            )}
+
+            {paginationType === "cursor" && (
+              <>
+                <FormControl id="cursorParam">
+                  <FormLabel>Cursor parameter</FormLabel>
+                  <Input
+                    type="text"
+                    {...register("options.pagination.cursorParam")}
+                  />
+                </FormControl>
+                <FormControl id="nextCursorPath">
+                  <FormLabel>Next cursor path</FormLabel>
+                  <Input
+                    type="text"
+                    placeholder="meta.nextCursor"
+                    {...register("options.pagination.nextCursorPath")}
+                  />
+                  <FormHelperText>
+                    Where the next cursor is in the list response.
+                  </FormHelperText>
+                </FormControl>
+              </>
+            )}
+
+            <FormControl id="recordsPath">
+              <FormLabel>Records path</FormLabel>
+              <Input
+                type="text"
+                placeholder="data"
+                {...register("options.pagination.recordsPath")}
+              />
+              <FormHelperText>
+                Where the records are in the list response. Leave empty to
+                detect it from the document.
+              </FormHelperText>
+            </FormControl>
+
+            {(paginationType === "offset" || paginationType === "page") && (
+              <FormControl id="totalPath">
+                <FormLabel>Total count path</FormLabel>
+                <Input
+                  type="text"
+                  placeholder="meta.total"
+                  {...register("options.pagination.totalPath")}
+                />
+                <FormHelperText>
+                  Where the total number of records is in the list response.
+                </FormHelperText>
+              </FormControl>
+            )}
+
+            <FormControl id="organization">
+              <FormLabel>Organization</FormLabel>
+              <Select {...register("organizationId")}>
+                {organizations.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <input type="submit" className="hidden invisible" />
+          </form>
+        </div>
+      </PageWrapper>
+    </Layout>
+  );
+}
+
+export default New;
@@ -1,8 +1,9 @@
-import { ActivityType } from "@/features/activity/types";
-import { isEmpty } from "lodash";
+import { ActivityFilters, ActivityType } from "@/features/activity/types";
+import { isEmpty, pick } from "lodash";
 import { useGetActivitiesQuery } from "@/features/organizations/api-slice";
 import { useOrganizationFromProfile } from "@/hooks";
 import { useRouter } from "next/router";
+import ActivityFiltersBar from "@/features/activity/components/ActivityFiltersBar";
 import ActivityItem from "@/features/activity/components/ActivityItem";
 import Layout from "@/components/Layout";
 import LoadingOverlay from "@/components/LoadingOverlay";
@@ -10,6 +11,7 @@ import OffsetPaginationComponent from "@/features/tables/components/OffsetPagina
 import OrganizationSidebar from "@/components/OrganizationSidebar";
 import PageWrapper from "@/components/PageWrapper";
 import React, { useMemo, useState } from "react";
+import URI from "urijs";
 
 function Activity() {
   const router = useRouter();
@@ -29,6 +31,28 @@ function Activity() {
     return 24;
   }, [router.query.perPage]);
 
+  // The filters live in the URL so filtered pages can be shared.
+  const filters: ActivityFilters = useMemo(
+    () =>
+      pick(router.query, [
+        "userId",
+        "action",
+        "dataSourceId",
+        "tableName",
+        "viewId",
+        "recordId",
+        "from",
+        "to",
+        "search",
+      ]) as ActivityFilters,
+    [router.query]
+  );
+
+  const activityUrl = (query: Record<string, unknown>) =>
+    `/organizations/${
+      router.query.organizationSlug as string
+    }/activity?${URI().query(query).query().toString()}`;
+
   const [count, setCount] = useState<number | null>(null);
 
   const {
@@ -40,6 +64,7 @@ function Activity() {
       organizationId: organization?.id?.toString(),
       page: page.toString(),
       perPage: perPage.toString(),
+      filters,
     },
     { skip: !organization?.id }
   );
@@ -62,6 +87,15 @@ function Activity() {
     <Layout sidebar={<OrganizationSidebar organization={organization} />}>
       <PageWrapper crumbs={[organization?.name, "Activity"]} flush={true}>
         <>
+          <ActivityFiltersBar
+            organizationId={organization?.id}
+            users={organization?.users || []}
+            dataSources={organization?.dataSources || []}
+            filters={filters}
+            onChange={(newFilters) =>
+              router.push(activityUrl({ ...newFilters, page: 1, perPage }))
+            }
+          />
           <div className="relative flex-1 max-w-full w-full flex">
             {(isLoading || isFetching) && <LoadingOverlay inPageWrapper />}
             <div className="mx-auto px-1">
@@ -76,7 +110,11 @@ function Activity() {
                     )
                   )}
                 {isEmpty(activities) && (
-                    <li className="py-4 my-2">No activity logged yet!</li>
+                    <li className="py-4 my-2">
+                      {isEmpty(filters)
+                        ? "No activity logged yet!"
+                        : "No activity matches these filters."}
+                    </li>
                   )}
               </ul>
             </div>
@@ -86,18 +124,10 @@ function Activity() {
             perPage={perPage}
             offset={page === 1 ? 0 : (page - 1) * perPage}
             nextPage={() =>
-              router.push(
-                `/organizations/${
-                  router.query.organizationSlug as string
-                }/activity?page=${page + 1}&perPage=${perPage}`
-              )
+              router.push(activityUrl({ ...filters, page: page + 1, perPage }))
             }
             previousPage={() =>
-              router.push(
-                `/organizations/${
-                  router.query.organizationSlug as string
-                }/activity?page=${page - 1}&perPage=${perPage}`
-              )
+              router.push(activityUrl({ ...filters, page: page - 1, perPage }))
             }
             maxPages={maxPages}
             canPreviousPage={page > 1}
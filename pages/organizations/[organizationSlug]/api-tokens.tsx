@@ -0,0 +1,181 @@
+import {
+  Button,
+  Code,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+} from "@chakra-ui/react";
+import { OWNER_ROLE } from "@/features/roles";
+import { TrashIcon } from "@heroicons/react/outline";
+import { isEmpty } from "lodash";
+import {
+  useCreateApiTokenMutation,
+  useDeleteApiTokenMutation,
+  useGetApiTokensQuery,
+} from "@/features/organizations/api-slice";
+import { useOrganizationFromProfile, useProfile, useSegment } from "@/hooks";
+import { useRouter } from "next/router";
+import Layout from "@/components/Layout";
+import OrganizationSidebar from "@/components/OrganizationSidebar";
+import PageWrapper from "@/components/PageWrapper";
+import React, { useMemo, useState } from "react";
+
+type ApiTokenItem = {
+  id: number;
+  name: string;
+  lastCharacters: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+  createdBy: number;
+  user: { email: string; firstName?: string; lastName?: string };
+};
+
+function ApiTokens() {
+  const router = useRouter();
+  const { user, role } = useProfile();
+  const organization = useOrganizationFromProfile({
+    slug: router.query.organizationSlug as string,
+  });
+  const organizationId = organization?.id?.toString();
+  const [name, setName] = useState("");
+  const [newToken, setNewToken] = useState<string>();
+
+  useSegment("Visited API tokens page", {
+    page: "api-tokens",
+  });
+
+  const {
+    data: apiTokensResponse,
+    isLoading,
+    isFetching,
+  } = useGetApiTokensQuery({ organizationId }, { skip: !organizationId });
+  const [createApiToken, { isLoading: isCreating }] =
+    useCreateApiTokenMutation();
+  const [deleteApiToken] = useDeleteApiTokenMutation();
+
+  const apiTokens: ApiTokenItem[] = useMemo(
+    () => (apiTokensResponse?.ok ? apiTokensResponse.data : []),
+    [apiTokensResponse]
+  );
+
+  const handleCreate = async (e: any) => {
+    e.preventDefault();
+
+    const response = await createApiToken({
+      organizationId,
+      body: { name },
+    }).unwrap();
+
+    if (response?.ok) {
+      setNewToken(response.data.token);
+      setName("");
+    }
+  };
+
+  const handleRevoke = async (apiToken: ApiTokenItem) => {
+    if (
+      confirm(
+        `Are you sure you want to revoke "${apiToken.name}"? The scripts using it will stop working.`
+      )
+    ) {
+      await deleteApiToken({
+        organizationId,
+        apiTokenId: apiToken.id.toString(),
+      });
+    }
+  };
+
+  return (
+    <Layout sidebar={<OrganizationSidebar organization={organization} />}>
+      <PageWrapper
+        crumbs={[organization?.name, "API tokens"]}
+        isLoading={isLoading || isFetching}
+      >
+        <>
+          <PageWrapper.Section>
+            <PageWrapper.Heading>Create a token</PageWrapper.Heading>
+            <form onSubmit={handleCreate} className="space-y-2">
+              <FormControl id="name">
+                <FormLabel>Token name</FormLabel>
+                <Input
+                  type="text"
+                  value={name}
+                  placeholder="Nightly sync script"
+                  onChange={(e) => setName(e.currentTarget.value)}
+                />
+                <FormHelperText>
+                  The token acts on your behalf and has the same permissions as
+                  your role. Send it in the{" "}
+                  <Code>Authorization: Bearer &lt;token&gt;</Code> header to the{" "}
+                  <Code>/api/v1</Code> endpoints. Generate clients from the{" "}
+                  <a
+                    href={`/api/organizations/${organizationId}/openapi`}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    OpenAPI specification
+                  </a>
+                  .
+                </FormHelperText>
+              </FormControl>
+              <Button
+                colorScheme="blue"
+                size="sm"
+                type="submit"
+                isLoading={isCreating}
+                disabled={isEmpty(name)}
+              >
+                Create token
+              </Button>
+            </form>
+            {newToken && (
+              <div className="mt-4 p-2 border rounded bg-yellow-50 space-y-1">
+                <div className="text-sm">
+                  Copy the token now. You won't be able to see it again.
+                </div>
+                <Code className="break-all">{newToken}</Code>
+              </div>
+            )}
+          </PageWrapper.Section>
+          <PageWrapper.Section>
+            <PageWrapper.Heading>Tokens</PageWrapper.Heading>
+            {isEmpty(apiTokens) && <div>No tokens created yet.</div>}
+            <ul className="divide-y">
+              {apiTokens.map((apiToken) => (
+                <li
+                  key={apiToken.id}
+                  className="py-2 flex justify-between items-center"
+                >
+                  <div>
+                    <div className="font-semibold">{apiToken.name}</div>
+                    <div className="text-xs text-gray-600">
+                      bt_...{apiToken.lastCharacters} · created by{" "}
+                      {apiToken.user?.email} ·{" "}
+                      {apiToken.lastUsedAt
+                        ? `last used ${new Date(
+                            apiToken.lastUsedAt
+                          ).toLocaleString()}`
+                        : "never used"}
+                    </div>
+                  </div>
+                  {(role?.name === OWNER_ROLE ||
+                    apiToken.createdBy === user?.id) && (
+                    <a
+                      className="cursor-pointer"
+                      onClick={() => handleRevoke(apiToken)}
+                    >
+                      <TrashIcon className="h-4 text-red-600" />
+                    </a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </PageWrapper.Section>
+        </>
+      </PageWrapper>
+    </Layout>
+  );
+}
+
+export default ApiTokens;
@@ -8,8 +8,8 @@ import {
   Input,
   Stack,
 } from "@chakra-ui/react";
+import { DataSource, Organization, Role } from "@prisma/client";
 import { OWNER_ROLE, defaultAbilities } from "@/features/roles";
-import { Organization, Role } from "@prisma/client";
 import { PlusIcon } from "@heroicons/react/outline";
 import { diff } from "deep-object-diff";
 import { isEmpty, isFunction, omit } from "lodash";
@@ -29,6 +29,8 @@ import OptionWrapper from "@/features/views/components/OptionWrapper";
 import OrganizationSidebar from "@/components/OrganizationSidebar";
 import PageWrapper from "@/components/PageWrapper";
 import React, { useEffect, useMemo, useState } from "react";
+import RoleAttributesEditor from "@/features/roles/components/RoleAttributesEditor";
+import ScopedPermissionsEditor from "@/features/roles/components/ScopedPermissionsEditor";
 
 export type Ability = {
   id: string;
@@ -41,7 +43,7 @@ const RoleEditor = ({
   currentRole = { id: "", name: "", options: {} },
   selectRole,
 }: {
-  organization: Organization;
+  organization: Organization & { dataSources?: DataSource[] };
   currentRole?:
     | Role
     | { id: ""; name: string; options: Record<string, unknown> };
@@ -193,6 +195,52 @@ const RoleEditor = ({
                     )}
                   </FormControl>
                 </OptionWrapper>
+                <OptionWrapper helpText="Override the abilities above for a data source, a table or a view. The most specific permission wins. A data source without any abilities is hidden from this role.">
+                  <FormControl id="permissions">
+                    <FormLabel>
+                      Data source, table and view permissions
+                    </FormLabel>
+                    <ScopedPermissionsEditor
+                      permissions={(role.options as any)?.permissions || []}
+                      dataSources={organization?.dataSources || []}
+                      isDisabled={isOwnerRole}
+                      onChange={(permissions) =>
+                        setRole({
+                          ...role,
+                          options: {
+                            ...(role.options as any),
+                            permissions,
+                          },
+                        })
+                      }
+                    />
+                  </FormControl>
+                </OptionWrapper>
+                <OptionWrapper
+                  helpText={
+                    <>
+                      Values you can use in the view filters as{" "}
+                      <code>{"{{ currentUser.role.<name> }}"}</code>. Separate
+                      multiple values with commas for the "is in" filter.
+                    </>
+                  }
+                >
+                  <FormControl id="attributes">
+                    <FormLabel>Attributes</FormLabel>
+                    <RoleAttributesEditor
+                      attributes={(role.options as any)?.attributes || []}
+                      onChange={(attributes) =>
+                        setRole({
+                          ...role,
+                          options: {
+                            ...(role.options as any),
+                            attributes,
+                          },
+                        })
+                      }
+                    />
+                  </FormControl>
+                </OptionWrapper>
               </>
             )}
           </form>
@@ -0,0 +1,113 @@
+import { PlusIcon } from "@heroicons/react/outline";
+import { useBoolean } from "react-use";
+import { useGetWebhooksQuery } from "@/features/webhooks/api-slice";
+import { useOrganizationFromProfile, useProfile, useSegment } from "@/hooks";
+import { useRouter } from "next/router";
+import ColumnListItem from "@/components/ColumnListItem";
+import Layout from "@/components/Layout";
+import LoadingOverlay from "@/components/LoadingOverlay";
+import OrganizationSidebar from "@/components/OrganizationSidebar";
+import PageWrapper from "@/components/PageWrapper";
+import React, { useMemo, useState } from "react";
+import WebhookEditor, {
+  WebhookItem,
+} from "@/features/webhooks/components/WebhookEditor";
+
+function Webhooks() {
+  const router = useRouter();
+  const { organizations } = useProfile();
+  const organization = useOrganizationFromProfile({
+    slug: router.query.organizationSlug as string,
+  });
+  const organizationId = organization?.id?.toString();
+  const dataSources = useMemo(
+    () => organizations.find(({ id }) => id === organization?.id)?.dataSources,
+    [organizations, organization]
+  );
+  const [addNew, toggleAddNew] = useBoolean(false);
+  const [currentWebhookId, setCurrentWebhookId] = useState<number>();
+
+  useSegment("Visited webhooks page", {
+    page: "webhooks",
+  });
+
+  const {
+    data: webhooksResponse,
+    isLoading,
+    isFetching,
+  } = useGetWebhooksQuery({ organizationId }, { skip: !organizationId });
+
+  const webhooks: WebhookItem[] = useMemo(
+    () => (webhooksResponse?.ok ? webhooksResponse.data : []),
+    [webhooksResponse]
+  );
+  const currentWebhook = useMemo(
+    () => webhooks.find(({ id }) => id === currentWebhookId),
+    [webhooks, currentWebhookId]
+  );
+
+  const selectWebhook = (webhookId?: number) => {
+    toggleAddNew(false);
+    setCurrentWebhookId(webhookId);
+  };
+
+  return (
+    <Layout sidebar={<OrganizationSidebar organization={organization} />}>
+      <PageWrapper crumbs={[organization?.name, "Webhooks"]} flush={true}>
+        <div className="relative flex-1 max-w-full w-full flex">
+          {(isLoading || isFetching) && <LoadingOverlay inPageWrapper />}
+          <div className="flex flex-shrink-0 w-1/4 border-r">
+            <div className="w-full relative p-4">
+              <div className="mb-2">Webhooks</div>
+              {webhooks.map((webhook) => (
+                <ColumnListItem
+                  key={webhook.id}
+                  active={webhook.id === currentWebhookId && !addNew}
+                  onClick={() => selectWebhook(webhook.id)}
+                >
+                  {webhook.name} {webhook.enabled || "(disabled)"}
+                </ColumnListItem>
+              ))}
+
+              <div className="mt-2">
+                <ColumnListItem
+                  active={addNew}
+                  icon={<PlusIcon className="h-4" />}
+                  onClick={() => toggleAddNew(true)}
+                >
+                  Add new webhook
+                </ColumnListItem>
+              </div>
+            </div>
+          </div>
+          {organizationId && (
+            <div className="flex-1 p-4">
+              {addNew && (
+                <WebhookEditor
+                  organizationId={organizationId}
+                  dataSources={dataSources || []}
+                  onSaved={selectWebhook}
+                />
+              )}
+              {addNew || (
+                <>
+                  {!currentWebhook && "👈 Please select a webhook"}
+                  {currentWebhook && (
+                    <WebhookEditor
+                      organizationId={organizationId}
+                      dataSources={dataSources || []}
+                      currentWebhook={currentWebhook}
+                      onSaved={selectWebhook}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </PageWrapper>
+    </Layout>
+  );
+}
+
+export default Webhooks;
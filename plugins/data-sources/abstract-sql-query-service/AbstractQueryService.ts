@@ -17,6 +17,7 @@ import {
   DataSourceCredentials,
   ForeignKeyInfo,
   ISQLQueryService,
+  ListTable,
   QueryServiceFieldOptions,
   SQLDataSourceTypes,
   SqlColumnOptions,
@@ -24,19 +25,36 @@ import {
 import { Column, FieldType } from "@/features/fields/types";
 import { DataSource } from "@prisma/client";
 import { IFilter, IFilterGroup } from "@/features/tables/types";
-import { MysqlCredentials } from "../mysql/types";
-import { PgCredentials } from "../postgresql/types";
-import { RecordResponse, RecordsResponse } from "../types";
+import { RecordResponse, RecordsResponse, UpdatedRecord } from "../types";
 import { SchemaInspector } from "knex-schema-inspector/dist/types/schema-inspector";
+import { TableMetaData } from "@/features/data-sources/types";
+import {
+  chunk,
+  first,
+  isDate,
+  isEmpty,
+  isEqual,
+  isNil,
+  isNumber,
+  isPlainObject,
+  isUndefined,
+  pickBy,
+} from "lodash";
+import {
+  decodeRecordId,
+  encodeRecordId,
+} from "@/features/records/clientHelpers";
 import { decrypt } from "@/lib/crypto";
 import { getBaseOptions } from "@/features/fields";
 import { getKnexClient } from "./getKnexClient";
 import { humanize } from "@/lib/humanize";
-import { isNumber, isUndefined } from "lodash";
 import logger from "@/lib/logger";
 import schemaInspector from "knex-schema-inspector";
 import type { Knex } from "knex";
 
+// Keeps the insert statements under the bind parameters limit of the databases.
+const INSERT_BATCH_SIZE = 500;
+
 const getCondition = (filter: IFilter) => {
   switch (filter.condition) {
     case StringFilterConditions.contains:
@@ -122,142 +140,159 @@ const getDefaultFilterValue = (filter: IFilter) => {
   }
 };
 
+type DateFormatter = (date: Date) => string;
+
+const toUTCString: DateFormatter = (date) => date.toUTCString();
+
+/* Checks the record still holds the values, comparing the dates by their ISO strings. */
+const hasValues = (
+  record: Record<string, unknown>,
+  values: Record<string, unknown>
+) =>
+  Object.entries(values).every(([columnName, value]) => {
+    const current = record[columnName];
+
+    return isEqual(isDate(current) ? current.toISOString() : current, value);
+  });
+
 const addFiltersToQuery = (
   query: Knex.QueryBuilder,
-  filters: Array<IFilter | IFilterGroup>
+  filters: Array<IFilter | IFilterGroup>,
+  formatDate: DateFormatter = toUTCString
 ) => {
   filters.forEach((filter) => {
     if ("isGroup" in filter && filter.isGroup) {
-      addFilterGroupToQuery(query, filter as IFilterGroup);
+      addFilterGroupToQuery(query, filter as IFilterGroup, formatDate);
     } else {
-      addFilterToQuery(query, filter as IFilter);
+      addFilterToQuery(query, filter as IFilter, formatDate);
     }
   });
 };
 
 const addFilterGroupToQuery = (
   query: Knex.QueryBuilder,
-  filter: IFilterGroup
+  filter: IFilterGroup,
+  formatDate: DateFormatter
 ) => {
   if (filter.verb === FilterVerbs.or) {
     query.orWhere(function () {
-      addFiltersToQuery(this, filter.filters);
+      addFiltersToQuery(this, filter.filters, formatDate);
     });
   } else {
     query.andWhere(function () {
-      addFiltersToQuery(this, filter.filters);
+      addFiltersToQuery(this, filter.filters, formatDate);
     });
   }
 };
 
-const getDateRange = (
+export const getDateRange = (
   filterOption: string,
   filterValue: string | undefined
-) => {
+): [Date, Date] | [null, null] => {
   let today = new Date();
   let from, to;
   switch (filterOption) {
     case "today":
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "tomorrow":
       today.setDate(today.getDate() + 1);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "yesterday":
       today.setDate(today.getDate() - 1);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "one_week_ago":
       today.setDate(today.getDate() - 7);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "one_week_from_now":
       today.setDate(today.getDate() + 7);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "one_month_ago":
       today.setMonth(today.getMonth() - 1);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "one_month_from_now":
       today.setMonth(today.getMonth() + 1);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "past_week":
       today.setUTCHours(0, 0, 0, 0);
-      to = today.toUTCString();
+      to = new Date(today);
       today.setDate(today.getDate() - 7);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
 
       return [from, to];
     case "next_week":
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setDate(today.getDate() + 7);
       today.setUTCHours(0, 0, 0, 0);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "past_month":
       today.setUTCHours(0, 0, 0, 0);
-      to = today.toUTCString();
+      to = new Date(today);
       today.setMonth(today.getMonth() - 1);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
 
       return [from, to];
     case "next_month":
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setMonth(today.getMonth() + 1);
       today.setUTCHours(0, 0, 0, 0);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "past_year":
       today.setUTCHours(0, 0, 0, 0);
-      to = today.toUTCString();
+      to = new Date(today);
       today.setFullYear(today.getFullYear() - 1);
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
 
       return [from, to];
     case "next_year":
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setFullYear(today.getFullYear() + 1);
       today.setUTCHours(0, 0, 0, 0);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     case "exact_date":
@@ -265,9 +300,9 @@ const getDateRange = (
         today = new Date(filterValue);
       }
       today.setUTCHours(0, 0, 0, 0);
-      from = today.toUTCString();
+      from = new Date(today);
       today.setUTCHours(23, 59, 59, 999);
-      to = today.toUTCString();
+      to = new Date(today);
 
       return [from, to];
     default:
@@ -275,7 +310,11 @@ const getDateRange = (
   }
 };
 
-const addFilterToQuery = (query: Knex.QueryBuilder, filter: IFilter) => {
+const addFilterToQuery = (
+  query: Knex.QueryBuilder,
+  filter: IFilter,
+  formatDate: DateFormatter
+) => {
   const NULL_FILTERS = [
     StringFilterConditions.is_null,
     IntFilterConditions.is_null,
@@ -331,7 +370,10 @@ const addFilterToQuery = (query: Knex.QueryBuilder, filter: IFilter) => {
     }
   } else if (filter.column.fieldType === "DateTime") {
     if ("option" in filter && filter.option) {
-      const dateRange = getDateRange(filter.option, filter.value);
+      // Each database parses dates differently so they format them as they need.
+      const dateRange = getDateRange(filter.option, filter.value).map(
+        (date) => date && formatDate(date)
+      );
       if (filter.verb === FilterVerbs.or) {
         switch (filter.condition) {
           case DateFilterConditions.is:
@@ -410,6 +452,31 @@ const addFilterToQuery = (query: Knex.QueryBuilder, filter: IFilter) => {
   }
 };
 
+/**
+ * Scopes the query to the given records. Composite keys are matched column by column.
+ */
+const addRecordIdsToQuery = (
+  query: Knex.QueryBuilder,
+  primaryKeys: string[],
+  recordIds: Array<number | string>
+) => {
+  if (primaryKeys.length === 1) {
+    query.whereIn(primaryKeys[0], recordIds);
+
+    return;
+  }
+
+  query.where((builder) => {
+    recordIds.forEach((recordId) => {
+      const values = decodeRecordId(String(recordId), primaryKeys.length);
+
+      builder.orWhere(
+        Object.fromEntries(primaryKeys.map((pk, idx) => [pk, values[idx]]))
+      );
+    });
+  });
+};
+
 abstract class AbstractQueryService implements ISQLQueryService {
   public client!: Knex;
 
@@ -506,18 +573,20 @@ abstract class AbstractQueryService implements ISQLQueryService {
     recordId: string;
     filters?: Array<IFilter | IFilterGroup>;
   }): Promise<RecordResponse<Record<string, unknown>> | undefined> {
-    const pk = await this.getPrimaryKeyColumn({ tableName });
+    const conditions = await this.getRecordConditions(tableName, recordId);
 
-    if (!pk)
-      throw new Error(`Can't find a primary key for table ${tableName}.`);
-
-    const query = this.client.table(tableName);
+    const query = this.client.table(tableName).where(conditions);
 
+    // Grouped so the `or` filters can't reach past the record's conditions.
     if (filters) {
-      addFiltersToQuery(query, filters);
+      query.where((builder) =>
+        addFiltersToQuery(builder, filters, (date) =>
+          this.formatFilterDate(date)
+        )
+      );
     }
 
-    const rows = await query.select().where(pk, recordId);
+    const rows = await query.select();
 
     const record = rows[0];
 
@@ -546,7 +615,7 @@ abstract class AbstractQueryService implements ISQLQueryService {
     }
 
     if (filters) {
-      addFiltersToQuery(query, filters);
+      addFiltersToQuery(query, filters, (date) => this.formatFilterDate(date));
     }
 
     if (orderBy) {
@@ -554,7 +623,13 @@ abstract class AbstractQueryService implements ISQLQueryService {
     } else {
       // This is needed for pagination of MSSQL datasource (https://dba.stackexchange.com/questions/167562/how-to-solve-invalid-usage-of-the-option-next-in-the-fetch-statement).
       if (this.dataSourceType === "mssql") {
-        query.orderByRaw("(SELECT NULL)");
+        const pk = await this.getPrimaryKeyColumn({ tableName });
+
+        if (pk) {
+          query.orderBy(pk);
+        } else {
+          query.orderByRaw("(SELECT NULL)");
+        }
       } else if (this.dataSource) {
         const tableMetaData = (
           this?.dataSource?.tablesMetaData as [
@@ -585,7 +660,7 @@ abstract class AbstractQueryService implements ISQLQueryService {
   }): Promise<number> {
     // If no column to count was passed to the query we must find one
     if (!columnName) {
-      const rawColumns = await this.client.table(tableName).columnInfo();
+      const rawColumns = await this.getColumnInfo(tableName);
 
       // Try and use the first one we get for the table
       if (rawColumns && Object.keys(rawColumns).length > 0) {
@@ -597,7 +672,7 @@ abstract class AbstractQueryService implements ISQLQueryService {
 
     const query = this.client.table(tableName);
     if (filters) {
-      addFiltersToQuery(query, filters);
+      addFiltersToQuery(query, filters, (date) => this.formatFilterDate(date));
     }
     const [{ count }] = await query.count(columnName, { as: "count" });
 
@@ -611,39 +686,131 @@ abstract class AbstractQueryService implements ISQLQueryService {
     tableName: string;
     data: unknown;
   }): Promise<string | undefined> {
-    const pk = await this.getPrimaryKeyColumn({ tableName });
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
 
-    if (!pk)
+    if (isEmpty(primaryKeys))
       throw new Error(`Can't find a primary key for table ${tableName}.`);
 
-    const [id] = await this.client
+    if (primaryKeys.length === 1) {
+      const [id] = await this.client
+        .table(tableName)
+        .insert(data as any)
+        .returning(primaryKeys[0]);
+
+      return id as string;
+    }
+
+    const [row] = await this.client
       .table(tableName)
       .insert(data as any)
-      .returning(pk);
+      .returning(primaryKeys);
+
+    // Clients without `RETURNING` (MySQL) give back the auto-incremented id, the rest of the key was sent with the data.
+    return encodeRecordId(
+      primaryKeys.map((pk) =>
+        isPlainObject(row)
+          ? (row as Record<string, unknown>)[pk]
+          : (data as Record<string, unknown>)[pk] ?? row
+      )
+    );
+  }
 
-    return id as string;
+  /**
+   * Inserts the records in batches inside a single transaction so a failing batch rolls back the whole import.
+   * With `upsert`, the records that match an existing primary key update it instead.
+   */
+  public async createRecords({
+    tableName,
+    records,
+    upsert = false,
+  }: {
+    tableName: string;
+    records: Record<string, unknown>[];
+    upsert?: boolean;
+  }): Promise<Array<string | undefined>> {
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
+
+    if (isEmpty(primaryKeys))
+      throw new Error(`Can't find a primary key for table ${tableName}.`);
+
+    return await this.client.transaction(async (transaction) => {
+      const recordIds: Array<string | undefined> = [];
+
+      for (const batch of chunk(records, INSERT_BATCH_SIZE)) {
+        const query = transaction.table(tableName).insert(batch);
+
+        if (upsert) query.onConflict(primaryKeys).merge();
+
+        const rows = await query.returning(primaryKeys);
+
+        batch.forEach((record, idx) => {
+          // Clients without `RETURNING` (MySQL) give back the first auto-incremented id of the batch.
+          const values = primaryKeys.map((pk) =>
+            isPlainObject(rows[idx])
+              ? (rows[idx] as Record<string, unknown>)[pk]
+              : record[pk] ??
+                (!upsert && isNumber(rows[0])
+                  ? (rows[0] as number) + idx
+                  : undefined)
+          );
+
+          // Keep one entry for each record, even when we can't tell its id.
+          recordIds.push(
+            values.some(isNil) ? undefined : encodeRecordId(values)
+          );
+        });
+      }
+
+      return recordIds;
+    });
   }
 
+  /**
+   * Returns the number of updated rows. With `original` the record is updated only if its columns still hold those values.
+   * The dates in `original` come as ISO strings.
+   */
   public async updateRecord({
     tableName,
     recordId,
     data,
+    original = {},
   }: {
     tableName: string;
     recordId: string;
     data: unknown;
+    original?: Record<string, unknown>;
   }): Promise<unknown> {
-    const pk = await this.getPrimaryKeyColumn({ tableName });
-
-    if (!pk)
-      throw new Error(`Can't find a primary key for table ${tableName}.`);
+    const conditions = await this.getRecordConditions(tableName, recordId);
 
-    const result = await this.client
-      .table(tableName)
-      .update(data as any)
-      .where(pk, recordId);
+    if (isEmpty(original)) {
+      return await this.client
+        .table(tableName)
+        .update(data as any)
+        .where(conditions);
+    }
 
-    return result;
+    return await this.client.transaction(async (transaction) => {
+      const current = await transaction
+        .table(tableName)
+        .where(conditions)
+        .first();
+
+      if (!current || !hasValues(current, original)) return 0;
+
+      // The databases may store the dates with more precision than the drivers read so they're only compared above.
+      const exactConditions = pickBy(
+        original,
+        (value, columnName) => !isDate(current[columnName])
+      );
+
+      return await transaction
+        .table(tableName)
+        .update(data as any)
+        .where(conditions)
+        .where(
+          exactConditions as Record<string, string | number | boolean | null>
+        );
+    });
   }
 
   public async deleteRecord({
@@ -653,15 +820,12 @@ abstract class AbstractQueryService implements ISQLQueryService {
     tableName: string;
     recordId: string;
   }): Promise<unknown> {
-    const pk = await this.getPrimaryKeyColumn({ tableName });
-
-    if (!pk)
-      throw new Error(`Can't find a primary key for table ${tableName}.`);
+    const conditions = await this.getRecordConditions(tableName, recordId);
 
     const result = await this.client
       .table(tableName)
       .delete()
-      .where(pk, recordId);
+      .where(conditions);
 
     return result;
   }
@@ -669,25 +833,88 @@ abstract class AbstractQueryService implements ISQLQueryService {
   public async deleteRecords({
     tableName,
     recordIds,
+    filters,
   }: {
     tableName: string;
-    recordIds: number[];
+    recordIds: Array<number | string>;
+    filters?: Array<IFilter | IFilterGroup>;
   }): Promise<unknown> {
-    const pk = await this.getPrimaryKeyColumn({ tableName });
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
 
-    if (!pk)
+    if (isEmpty(primaryKeys))
       throw new Error(`Can't find a primary key for table ${tableName}.`);
 
-    const result = await this.client
-      .table(tableName)
-      .delete()
-      .whereIn(pk, recordIds);
+    const query = this.client.table(tableName).delete();
+    addRecordIdsToQuery(query, primaryKeys, recordIds);
+
+    // Records picked through a view are still limited by its filters.
+    if (filters) {
+      query.where((builder) =>
+        addFiltersToQuery(builder, filters, (date) =>
+          this.formatFilterDate(date)
+        )
+      );
+    }
+
+    const result = await query;
 
     return result;
   }
 
+  /**
+   * Updates the given records, all the records matching the filters, or the given records that match the filters, in a single transaction.
+   * Returns the records as they were before the update so the changes can be logged.
+   */
+  public async updateRecords({
+    tableName,
+    recordIds,
+    filters,
+    data,
+  }: {
+    tableName: string;
+    recordIds?: Array<number | string>;
+    filters?: Array<IFilter | IFilterGroup>;
+    data: Record<string, unknown>;
+  }): Promise<UpdatedRecord[]> {
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
+
+    if (isEmpty(primaryKeys))
+      throw new Error(`Can't find a primary key for table ${tableName}.`);
+
+    const scopeQuery = (query: Knex.QueryBuilder) => {
+      if (recordIds) addRecordIdsToQuery(query, primaryKeys, recordIds);
+      // Selected records are still limited by the filters of the view they were picked from.
+      if (filters) {
+        query.where((builder) =>
+          addFiltersToQuery(builder, filters, (date) =>
+            this.formatFilterDate(date)
+          )
+        );
+      }
+
+      return query;
+    };
+
+    return await this.client.transaction(async (transaction) => {
+      const records = await scopeQuery(transaction.table(tableName)).select();
+
+      if (!isEmpty(records)) {
+        await scopeQuery(transaction.table(tableName)).update(data);
+      }
+
+      return records.map((record: Record<string, unknown>) => ({
+        recordId: encodeRecordId(primaryKeys.map((pk) => record[pk])),
+        record,
+      }));
+    });
+  }
+
   public async getTables(): Promise<[]> {
-    return (await this.inspector.tableInfo()) as [];
+    const tables = (await this.inspector.tableInfo()) as ListTable[];
+
+    if (!this.includesViews()) return tables as [];
+
+    return [...tables, ...(await this.getViews())] as [];
   }
 
   public async getColumns({
@@ -697,8 +924,8 @@ abstract class AbstractQueryService implements ISQLQueryService {
     tableName: string;
     storedColumns?: Column[];
   }): Promise<[]> {
-    const rawColumns = await this.client.table(tableName).columnInfo();
-    const primaryKeyColumn = await this.getPrimaryKeyColumn({ tableName });
+    const rawColumns = await this.getColumnInfo(tableName);
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
     const foreignKeys = await this.getForeignKeys(tableName);
     const foreignKeysByColumnName = Object.fromEntries(
       foreignKeys.map((fk: ForeignKeyInfo) => [fk.columnName, fk])
@@ -711,7 +938,7 @@ abstract class AbstractQueryService implements ISQLQueryService {
       name,
       label: name, // this is dummy. We'll set the proper one later
       dataSourceInfo: columnInfo,
-      primaryKey: primaryKeyColumn === name,
+      primaryKey: primaryKeys.includes(name),
     }));
 
     const columnsWithForeignKeyInfo: ColumnWithForeignKeyInfo[] =
@@ -818,18 +1045,100 @@ abstract class AbstractQueryService implements ISQLQueryService {
     return columns;
   }
 
-  private async getPrimaryKeyColumn({
+  /**
+   * Returns knex's column info for the table.
+   */
+  protected async getColumnInfo(
+    tableName: string
+  ): Promise<Record<string, Knex.ColumnInfo>> {
+    return (await this.client
+      .table(tableName)
+      .columnInfo()) as unknown as Record<string, Knex.ColumnInfo>;
+  }
+
+  /**
+   * Lists the database views. They're shown next to the tables when the data source has `includeViews` set.
+   */
+  protected async getViews(): Promise<ListTable[]> {
+    return [];
+  }
+
+  protected includesViews(): boolean {
+    return (
+      (this.dataSource.options as { includeViews?: boolean } | null)
+        ?.includeViews === true
+    );
+  }
+
+  protected getTableMetaData(tableName: string): TableMetaData | undefined {
+    return (this.dataSource.tablesMetaData as TableMetaData[] | null)?.find(
+      ({ name }) => name === tableName
+    );
+  }
+
+  /**
+   * Formats the dates used by the date filters.
+   */
+  protected formatFilterDate(date: Date): string {
+    return toUTCString(date);
+  }
+
+  /**
+   * Returns the columns that make up the primary key of the table. Composite keys return more than one.
+   */
+  public async getPrimaryKeyColumns({
     tableName,
   }: {
     tableName: string;
-  }): Promise<string | undefined> {
+  }): Promise<string[]> {
     const columnInfo = await this.inspector.columnInfo(tableName);
+    const primaryKeys = columnInfo
+      .filter(({ is_primary_key }) => is_primary_key === true)
+      .map(({ name }) => name);
+
+    return this.withPrimaryKeyFallback(tableName, primaryKeys);
+  }
+
+  protected async getPrimaryKeyColumn({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<string | undefined> {
+    return first(await this.getPrimaryKeyColumns({ tableName }));
+  }
+
+  /**
+   * Views don't have primary keys so the user picks the column that acts as one.
+   */
+  protected withPrimaryKeyFallback(
+    tableName: string,
+    primaryKeys: string[]
+  ): string[] {
+    if (!isEmpty(primaryKeys)) return primaryKeys;
+
+    const primaryKeyColumn = this.getTableMetaData(tableName)?.primaryKeyColumn;
+
+    return primaryKeyColumn ? [primaryKeyColumn] : [];
+  }
+
+  /**
+   * Turns the record id from the URL into the where conditions for each primary key column.
+   */
+  protected async getRecordConditions(
+    tableName: string,
+    recordId: string
+  ): Promise<Record<string, unknown>> {
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
+
+    if (isEmpty(primaryKeys))
+      throw new Error(`Can't find a primary key for table ${tableName}.`);
+
+    const values = decodeRecordId(recordId, primaryKeys.length);
 
-    return columnInfo.find(({ is_primary_key }) => is_primary_key === true)
-      ?.name;
+    return Object.fromEntries(primaryKeys.map((pk, idx) => [pk, values[idx]]));
   }
 
-  private async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
+  protected async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
     const foreignKeys = (await this.inspector.foreignKeys())
       .filter(({ table }) => table === tableName)
       .map((fkInfo) => ({
@@ -849,7 +1158,7 @@ abstract class AbstractQueryService implements ISQLQueryService {
   abstract getFieldOptionsFromColumnInfo(
     column: ColumnWithBaseOptions
   ): QueryServiceFieldOptions;
-  public abstract getCredentials(): PgCredentials | MysqlCredentials;
+  public abstract getCredentials(): DataSourceCredentials;
 }
 
 const getColumnLabel = (column: { name: string }) => {
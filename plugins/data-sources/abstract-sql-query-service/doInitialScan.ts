@@ -23,18 +23,22 @@ export const doInitialScan = async (dataSource: DataSource) => {
           case "id":
           case "uuid":
             idColumn = column.name;
+            break;
           case "name":
           case "title":
           case "header":
             nameColumn = column.name;
+            break;
           case "created":
           case "createdat":
           case "created_at":
             createdAtColumn = column.name;
+            break;
           case "updated":
           case "updatedat":
           case "updated_at":
             updatedAtColumn = column.name;
+            break;
         }
       }
     });
@@ -1,28 +1,47 @@
 import { ClientOverrides, SQLDataSourceTypes } from "./types";
 import { MysqlCredentials } from "../mysql/types";
 import { PgCredentials } from "../postgresql/types";
+import { RedshiftCredentials } from "../amazon_redshift/types";
+import { SqliteCredentials } from "../sqlite/types";
+import { getFilename } from "../sqlite/getFilename";
 import knex from "knex";
 import type { Knex } from "knex";
 
 export const getKnexClient = (
   type: "pg" | SQLDataSourceTypes,
-  credentials: PgCredentials | MysqlCredentials,
+  credentials: PgCredentials | MysqlCredentials | SqliteCredentials,
   overrides?: ClientOverrides
 ) => {
-  // Doing this transformation because knex expects `pg` and we have it as `postgresql`
-  const knexClientType = type === "postgresql" ? "pg" : type;
+  // SQLite connects to a file instead of a server.
+  if (type === "sqlite") {
+    return knex({
+      client: "sqlite3",
+      connection: {
+        filename: getFilename(credentials as SqliteCredentials),
+      },
+      useNullAsDefault: true,
+      debug: false,
+    });
+  }
+
+  // Doing this transformation because knex expects `pg` and we have it as `postgresql`. Redshift uses the Postgres protocol.
+  const knexClientType =
+    type === "postgresql" || type === "amazon_redshift" ? "pg" : type;
+  const { host, port, database, user, password, useSsl } = credentials as
+    | PgCredentials
+    | MysqlCredentials;
 
   // Initial config
   const connection: Knex.StaticConnectionConfig = {
-    host: credentials.host,
-    port: credentials.port,
-    database: credentials.database,
-    user: credentials.user,
-    password: credentials.password,
+    host,
+    port,
+    database,
+    user,
+    password,
   };
 
   // Initial if use SSL is checked
-  if (credentials.useSsl) {
+  if (useSsl) {
     connection.ssl = { rejectUnauthorized: false };
   }
 
@@ -40,6 +59,11 @@ export const getKnexClient = (
   const client = knex({
     client: knexClientType,
     connection,
+    // Redshift tables are read from the schema set on the credentials.
+    searchPath:
+      type === "amazon_redshift"
+        ? [(credentials as RedshiftCredentials).schema || "public"]
+        : undefined,
     debug: false,
   });
 
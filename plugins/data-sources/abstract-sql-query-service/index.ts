@@ -11,6 +11,11 @@ export const defaultSettings: Omit<
     columnsRequest: true,
     views: true,
     dashboards: true,
+    restoreWithPrimaryKey: true,
+    bulkUpdate: true,
+    bulkCreate: true,
+    upsert: true,
+    conditionalUpdate: true,
   },
   runsInProxy: true,
 };
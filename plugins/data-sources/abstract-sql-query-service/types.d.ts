@@ -1,4 +1,5 @@
 import { IQueryService } from "../types";
+import { SqliteCredentials } from "../sqlite/types";
 import type { FieldType } from "@/features/fields/types";
 import type { Knex } from "knex";
 
@@ -9,8 +10,13 @@ export type AxiosErrorWithMessage = {
 export type ListTable = {
   name: string;
   schema: string;
+  type?: TableType;
+  // Database views can't be edited.
+  readOnly?: boolean;
 };
 
+export type TableType = "table" | "view" | "materialized_view";
+
 export type FieldOptions = Record<string, unknown>;
 
 export type KnexColumnInfo = {
@@ -70,9 +76,18 @@ export type ColumnWithStoredOptions = ColumnWithFieldOptions;
 
 export type SqlColumnOptions = Knex.ColumnInfo;
 
-export type DataSourceCredentials = PgCredentials | MysqlCredentials;
+export type DataSourceCredentials =
+  | PgCredentials
+  | MysqlCredentials
+  | SqliteCredentials;
 
-export type SQLDataSourceTypes = "mysql" | "postgresql" | "maria_db" | "mssql";
+export type SQLDataSourceTypes =
+  | "mysql"
+  | "postgresql"
+  | "amazon_redshift"
+  | "maria_db"
+  | "mssql"
+  | "sqlite";
 
 export type ClientOverrides = {
   host: string;
@@ -92,6 +107,9 @@ export interface ISQLQueryService extends IQueryService {
   public runRawQuery(payload: {
     query: string;
   }): Promise<unknown>;
+  public refreshMaterializedView?(payload: {
+    tableName: string;
+  }): Promise<unknown>;
 }
 
 export type QueryServiceFieldOptions = {
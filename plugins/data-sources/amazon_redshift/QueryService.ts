@@ -0,0 +1,238 @@
+import {
+  ColumnWithBaseOptions,
+  ForeignKeyInfo,
+  ListTable,
+  QueryServiceFieldOptions,
+} from "../abstract-sql-query-service/types";
+import { IFilter, IFilterGroup } from "@/features/tables/types";
+import { RedshiftCredentials, RedshiftDataSourceOptions } from "./types";
+import { UpdatedRecord } from "../types";
+import { encodeRecordId } from "@/features/records/clientHelpers";
+import { isEmpty, isNil, uniqBy } from "lodash";
+import PgQueryService from "../postgresql/QueryService";
+
+// Counting the rows of huge tables takes a while so we show the estimate from the table statistics instead.
+const APPROXIMATE_COUNT_THRESHOLD = 1000000;
+
+/**
+ * Redshift speaks the Postgres protocol but it doesn't enforce keys, doesn't support `RETURNING` and has its own system views.
+ */
+class QueryService extends PgQueryService {
+  public getCredentials(): RedshiftCredentials {
+    return super.getCredentials() as RedshiftCredentials;
+  }
+
+  public async getTables(): Promise<[]> {
+    const schema = this.getSchemaName();
+    const tables: ListTable[] = [];
+
+    try {
+      const { rows } = await this.client.raw(
+        `SELECT "table" AS name, "schema" FROM svv_table_info WHERE "schema" = ?`,
+        [schema]
+      );
+      tables.push(...rows);
+    } catch (error) {
+      // Postgres (used as a stand-in for Redshift) doesn't have the Redshift system views.
+    }
+
+    // `svv_table_info` leaves out the empty tables.
+    const { rows } = await this.client.raw(
+      `SELECT table_name AS name, table_schema AS schema FROM information_schema.tables WHERE table_schema = ? AND table_type = 'BASE TABLE'`,
+      [schema]
+    );
+    tables.push(...rows);
+
+    return uniqBy(tables, "name").sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ) as [];
+  }
+
+  public async getRecordsCount(payload: {
+    tableName: string;
+    filters: Array<IFilter | IFilterGroup>;
+    columnName?: string;
+  }): Promise<number> {
+    if (isEmpty(payload.filters)) {
+      const estimate = await this.getEstimatedRecordsCount(payload.tableName);
+
+      if (estimate > APPROXIMATE_COUNT_THRESHOLD) return estimate;
+    }
+
+    return await super.getRecordsCount(payload);
+  }
+
+  public async createRecord({
+    tableName,
+    data,
+  }: {
+    tableName: string;
+    data: unknown;
+  }): Promise<string | undefined> {
+    this.ensureEditable();
+
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
+    await this.client.table(tableName).insert(data as any);
+
+    // Without `RETURNING` we only know the id when it was sent with the data.
+    const values = primaryKeys.map(
+      (pk) => (data as Record<string, unknown>)[pk]
+    );
+    if (isEmpty(values) || values.some(isNil)) return;
+
+    return encodeRecordId(values);
+  }
+
+  public async createRecords({
+    tableName,
+    records,
+  }: {
+    tableName: string;
+    records: Record<string, unknown>[];
+    upsert?: boolean;
+  }): Promise<Array<string | undefined>> {
+    this.ensureEditable();
+
+    const primaryKeys = await this.getPrimaryKeyColumns({ tableName });
+    // `batchInsert` runs the batches inside a transaction.
+    await this.client.batchInsert(tableName, records as any[]);
+
+    // Without `RETURNING` we only know the ids that were sent with the data.
+    return records
+      .map((record) => primaryKeys.map((pk) => record[pk]))
+      .map((values) =>
+        isEmpty(values) || values.some(isNil)
+          ? undefined
+          : encodeRecordId(values)
+      );
+  }
+
+  public async updateRecord(payload: {
+    tableName: string;
+    recordId: string;
+    data: unknown;
+    original?: Record<string, unknown>;
+  }): Promise<unknown> {
+    this.ensureEditable();
+
+    return await super.updateRecord(payload);
+  }
+
+  public async updateRecords(payload: {
+    tableName: string;
+    recordIds?: Array<number | string>;
+    filters?: Array<IFilter | IFilterGroup>;
+    data: Record<string, unknown>;
+  }): Promise<UpdatedRecord[]> {
+    this.ensureEditable();
+
+    return await super.updateRecords(payload);
+  }
+
+  public async deleteRecord(payload: {
+    tableName: string;
+    recordId: string;
+  }): Promise<unknown> {
+    this.ensureEditable();
+
+    return await super.deleteRecord(payload);
+  }
+
+  public async deleteRecords(payload: {
+    tableName: string;
+    recordIds: Array<number | string>;
+    filters?: Array<IFilter | IFilterGroup>;
+  }): Promise<unknown> {
+    this.ensureEditable();
+
+    return await super.deleteRecords(payload);
+  }
+
+  public getFieldOptionsFromColumnInfo(
+    column: ColumnWithBaseOptions
+  ): QueryServiceFieldOptions {
+    const options = super.getFieldOptionsFromColumnInfo(column);
+
+    // Semi-structured data is stored in `SUPER` columns.
+    if (column.dataSourceInfo.type === "super" && !column.foreignKeyInfo) {
+      return { ...options, fieldType: "Json" };
+    }
+
+    return options;
+  }
+
+  /**
+   * Redshift keeps the primary keys that were declared, even if it doesn't enforce them.
+   */
+  public async getPrimaryKeyColumns({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<string[]> {
+    try {
+      const { rows } = await this.client.raw(
+        `SELECT kcu.column_name AS name FROM information_schema.table_constraints tc JOIN information_schema.key_column_usage kcu ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema AND kcu.table_name = tc.table_name WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = ? AND tc.table_name = ? ORDER BY kcu.ordinal_position`,
+        [this.getSchemaName(), tableName]
+      );
+
+      if (!isEmpty(rows)) return rows.map(({ name }: { name: string }) => name);
+    } catch (error) {}
+
+    const tableMetaData = this.getTableMetaData(tableName);
+    const primaryKeyColumn =
+      tableMetaData?.primaryKeyColumn || tableMetaData?.idColumn;
+
+    return primaryKeyColumn ? [primaryKeyColumn] : [];
+  }
+
+  /**
+   * Foreign keys aren't enforced on Redshift so the associations are the ones the user declared.
+   */
+  protected async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
+    const associations = this.getTableMetaData(tableName)?.associations || [];
+
+    return associations.map((association) => ({
+      constraintName: null,
+      tableName,
+      columnName: association.columnName,
+      foreignTableName: association.foreignTableName,
+      foreignColumnName: association.foreignColumnName,
+      foreignTableSchema: this.getSchemaName(),
+      onUpdate: null,
+      onDelete: null,
+    }));
+  }
+
+  private getSchemaName(): string {
+    return this.getCredentials().schema || "public";
+  }
+
+  private async getEstimatedRecordsCount(tableName: string): Promise<number> {
+    const schema = this.getSchemaName();
+
+    try {
+      const { rows } = await this.client.raw(
+        `SELECT estimated_visible_rows AS count FROM svv_table_info WHERE "schema" = ? AND "table" = ?`,
+        [schema, tableName]
+      );
+
+      return parseInt(rows[0]?.count || 0, 10);
+    } catch (error) {
+      // Use the planner statistics when running on Postgres.
+      const { rows } = await this.client.raw(
+        `SELECT c.reltuples AS count FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace WHERE n.nspname = ? AND c.relname = ?`,
+        [schema, tableName]
+      );
+
+      return Math.round(Number(rows[0]?.count || 0));
+    }
+  }
+
+  private ensureEditable() {
+    const options = this.dataSource.options as RedshiftDataSourceOptions | null;
+
+    if (!options?.allowEdits) throw new Error("This data source is read-only.");
+  }
+}
+
+export default QueryService;
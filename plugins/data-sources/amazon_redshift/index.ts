@@ -0,0 +1,18 @@
+import { DataSourceInfo } from "../types";
+import { defaultSettings } from "../abstract-sql-query-service";
+
+const info: DataSourceInfo = {
+  ...defaultSettings,
+  id: "amazon_redshift",
+  name: "Amazon Redshift",
+  description: "Amazon Redshift data source",
+  // Warehouses are usually loaded by other tools. Users can allow edits on the data source.
+  readOnly: true,
+  supports: {
+    ...defaultSettings.supports,
+    // Redshift has no `ON CONFLICT` clause.
+    upsert: false,
+  },
+};
+
+export default info;
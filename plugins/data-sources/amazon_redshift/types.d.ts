@@ -0,0 +1,13 @@
+import { PgCredentials } from "../postgresql/types";
+
+export type RedshiftCredentials = PgCredentials & {
+  // Defaults to `public`.
+  schema?: string;
+};
+
+export type RedshiftDataSourceOptions = {
+  connectsWithSSH?: boolean;
+  connectsWithSSHKey?: boolean;
+  // Redshift data sources are read-only until the user allows edits.
+  allowEdits?: boolean;
+};
@@ -0,0 +1,416 @@
+import {
+  BooleanFilterConditions,
+  DateFilterConditions,
+  FilterVerbs,
+  IntFilterConditions,
+  SelectFilterConditions,
+  StringFilterConditions,
+} from "@/features/tables";
+import { Column } from "@/features/fields/types";
+import { DataSource } from "@prisma/client";
+import { FileTable, StoredFile } from "./types";
+import { IFilter, IFilterGroup } from "@/features/tables/types";
+import { IQueryService, RecordResponse, RecordsResponse } from "../types";
+import { castValue } from "./files";
+import { getBaseOptions } from "@/features/fields";
+import { getColumnLabel } from "..";
+import { getDateRange } from "../abstract-sql-query-service/AbstractQueryService";
+import { isNil, isUndefined, last, merge } from "lodash";
+import { readStoredFile, updateStoredFile } from "./storage";
+
+type FileRecord = Record<string, unknown>;
+type Predicate = (record: FileRecord) => boolean;
+
+class QueryService implements IQueryService {
+  public dataSource: DataSource;
+
+  private file: StoredFile | undefined;
+
+  constructor({ dataSource }: { dataSource: DataSource }) {
+    if (!dataSource) throw new Error("No data source provided.");
+
+    this.dataSource = dataSource;
+  }
+
+  public async connect(): Promise<this> {
+    if (!this.file) this.file = await readStoredFile(this.dataSource.id);
+
+    return this;
+  }
+
+  public async disconnect(): Promise<this> {
+    this.file = undefined;
+
+    return this;
+  }
+
+  /** Getters **/
+
+  public async getTables(): Promise<{ name: string }[]> {
+    const file = await this.getFile();
+
+    return Object.keys(file.tables).map((name) => ({ name }));
+  }
+
+  public async getColumns({
+    tableName,
+    storedColumns,
+  }: {
+    tableName: string;
+    storedColumns?: Column[];
+  }): Promise<Column[]> {
+    const table = await this.getTable(tableName);
+
+    return table.columns.map(({ name, fieldType }) => {
+      const columnSettings = storedColumns && storedColumns[name as any];
+
+      return {
+        name,
+        label: getColumnLabel({ name }),
+        dataSourceInfo: {},
+        primaryKey: name === "id",
+        baseOptions: merge(getBaseOptions(), columnSettings?.baseOptions),
+        fieldType: columnSettings?.fieldType || fieldType,
+        fieldOptions: merge({}, columnSettings?.fieldOptions),
+      };
+    });
+  }
+
+  public async getRecordsCount({
+    tableName,
+    filters,
+  }: {
+    tableName: string;
+    filters: Array<IFilter | IFilterGroup>;
+  }): Promise<number> {
+    const table = await this.getTable(tableName);
+
+    return table.records.filter(getFiltersPredicate(filters || [])).length;
+  }
+
+  public async getRecords({
+    tableName,
+    filters,
+    limit,
+    offset,
+    orderBy,
+    orderDirection,
+  }: {
+    tableName: string;
+    filters: Array<IFilter | IFilterGroup>;
+    limit?: number;
+    offset?: number;
+    orderBy: string;
+    orderDirection: string;
+  }): Promise<RecordsResponse> {
+    const table = await this.getTable(tableName);
+    const records = table.records.filter(getFiltersPredicate(filters || []));
+
+    if (orderBy) {
+      const direction = orderDirection === "desc" ? -1 : 1;
+
+      // Empty values go last no matter the direction.
+      records.sort((a, b) => {
+        if (isNil(a[orderBy]) && isNil(b[orderBy])) return 0;
+        if (isNil(a[orderBy])) return 1;
+        if (isNil(b[orderBy])) return -1;
+
+        return compareValues(a[orderBy], b[orderBy]) * direction;
+      });
+    }
+
+    const start = offset || 0;
+
+    return {
+      records: records.slice(start, limit ? start + limit : undefined),
+    };
+  }
+
+  public async getRecord({
+    tableName,
+    recordId,
+    filters,
+  }: {
+    tableName: string;
+    recordId: string;
+    filters?: Array<IFilter | IFilterGroup>;
+  }): Promise<RecordResponse | undefined> {
+    const table = await this.getTable(tableName);
+    const record = findRecord(table, recordId);
+
+    if (!record || !getFiltersPredicate(filters || [])(record)) return;
+
+    return { record };
+  }
+
+  public async createRecord({
+    tableName,
+    data,
+  }: {
+    tableName: string;
+    data: FileRecord;
+  }): Promise<string | undefined> {
+    return await this.updateTable(tableName, (table) => {
+      const record: FileRecord = {
+        ...Object.fromEntries(table.columns.map(({ name }) => [name, null])),
+        ...castData(table, data),
+      };
+
+      // Keep the given id. This is what allows deleted records to be restored.
+      if (isNil(record.id) || findRecord(table, String(record.id))) {
+        record.id = table.nextId;
+      }
+      if (typeof record.id === "number" && record.id >= table.nextId) {
+        table.nextId = record.id + 1;
+      }
+
+      table.records.push(record);
+
+      return String(record.id);
+    });
+  }
+
+  public async updateRecord({
+    tableName,
+    recordId,
+    data,
+  }: {
+    tableName: string;
+    recordId: string;
+    data: FileRecord;
+  }): Promise<number | undefined> {
+    return await this.updateTable(tableName, (table) => {
+      const record = findRecord(table, recordId);
+
+      if (!record) return;
+
+      const { id, ...changes } = castData(table, data);
+      Object.assign(record, changes);
+
+      return 1;
+    });
+  }
+
+  public async deleteRecord({
+    tableName,
+    recordId,
+  }: {
+    tableName: string;
+    recordId: string;
+  }): Promise<number> {
+    return await this.deleteRecords({ tableName, recordIds: [recordId] });
+  }
+
+  public async deleteRecords({
+    tableName,
+    recordIds,
+  }: {
+    tableName: string;
+    recordIds: Array<number | string>;
+  }): Promise<number> {
+    const ids = recordIds.map(String);
+
+    return await this.updateTable(tableName, (table) => {
+      const count = table.records.length;
+
+      table.records = table.records.filter(
+        (record) => !ids.includes(String(record.id))
+      );
+
+      return count - table.records.length;
+    });
+  }
+
+  private async getFile(): Promise<StoredFile> {
+    await this.connect();
+
+    return this.file as StoredFile;
+  }
+
+  private async getTable(tableName: string): Promise<FileTable> {
+    const file = await this.getFile();
+    const table = file.tables[tableName];
+
+    if (!table) throw new Error(`Table ${tableName} not found.`);
+
+    return table;
+  }
+
+  /* Changes the table in the latest version of the file, queued behind the other writes to it. */
+  private async updateTable<T>(
+    tableName: string,
+    update: (table: FileTable) => T
+  ): Promise<T> {
+    const { file, result } = await updateStoredFile(
+      this.dataSource.id,
+      (file) => {
+        const table = file.tables[tableName];
+
+        if (!table) throw new Error(`Table ${tableName} not found.`);
+
+        return update(table);
+      }
+    );
+
+    this.file = file;
+
+    return result;
+  }
+}
+
+export default QueryService;
+
+const findRecord = (table: FileTable, recordId: string) =>
+  table.records.find((record) => String(record.id) === recordId);
+
+/* The forms send everything back as strings so we cast them to the type of the column. */
+const castData = (table: FileTable, data: FileRecord): FileRecord =>
+  Object.fromEntries(
+    table.columns
+      .filter(({ name }) => !isUndefined(data[name]))
+      .map(({ name, fieldType }) => [name, castValue(data[name], fieldType)])
+  );
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean")
+    return Number(a) - Number(b);
+
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const toNumber = (value: unknown) =>
+  isNil(value) || value === "" ? NaN : Number(value);
+
+/* Filters are combined the same way SQL does it, where `and` binds tighter than `or`. */
+const getFiltersPredicate = (
+  filters: Array<IFilter | IFilterGroup>
+): Predicate => {
+  const groups: Predicate[][] = [];
+
+  filters.forEach((filter) => {
+    const predicate =
+      "isGroup" in filter && filter.isGroup
+        ? getFiltersPredicate(filter.filters)
+        : getFilterPredicate(filter as IFilter);
+
+    if (groups.length === 0 || filter.verb === FilterVerbs.or) {
+      groups.push([predicate]);
+    } else {
+      last(groups)?.push(predicate);
+    }
+  });
+
+  if (groups.length === 0) return () => true;
+
+  return (record) =>
+    groups.some((group) => group.every((predicate) => predicate(record)));
+};
+
+const getFilterPredicate = (filter: IFilter): Predicate => {
+  const name = filter.columnName;
+  const value = filter.value || "";
+  const text = (record: FileRecord) =>
+    isNil(record[name]) ? "" : String(record[name]).toLowerCase();
+  const values = value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item !== "");
+
+  switch (filter.condition) {
+    case StringFilterConditions.is_null:
+    case IntFilterConditions.is_null:
+    case BooleanFilterConditions.is_null:
+    case DateFilterConditions.is_null:
+    case SelectFilterConditions.is_null:
+      return (record) => isNil(record[name]);
+    case StringFilterConditions.is_not_null:
+    case IntFilterConditions.is_not_null:
+    case BooleanFilterConditions.is_not_null:
+    case DateFilterConditions.is_not_null:
+    case SelectFilterConditions.is_not_null:
+      return (record) => !isNil(record[name]);
+    case StringFilterConditions.is_in:
+    case IntFilterConditions.is_in:
+      return (record) => values.includes(text(record));
+    case StringFilterConditions.is_not_in:
+    case IntFilterConditions.is_not_in:
+      return (record) => !values.includes(text(record));
+  }
+
+  if (filter.column?.fieldType === "DateTime") {
+    return getDatePredicate(name, filter);
+  }
+
+  const search = value.toLowerCase();
+
+  switch (filter.condition) {
+    case StringFilterConditions.is_empty:
+    case SelectFilterConditions.is_empty:
+      return (record) => text(record) === "";
+    case StringFilterConditions.is_not_empty:
+    case SelectFilterConditions.is_not_empty:
+      return (record) => text(record) !== "";
+    case StringFilterConditions.contains:
+    case SelectFilterConditions.contains:
+      return (record) => text(record).includes(search);
+    case StringFilterConditions.not_contains:
+    case SelectFilterConditions.not_contains:
+      return (record) => !text(record).includes(search);
+    case StringFilterConditions.starts_with:
+      return (record) => text(record).startsWith(search);
+    case StringFilterConditions.ends_with:
+      return (record) => text(record).endsWith(search);
+    case BooleanFilterConditions.is_true:
+      return (record) => record[name] === true;
+    case BooleanFilterConditions.is_false:
+      return (record) => record[name] === false;
+    case IntFilterConditions.gt:
+      return (record) => toNumber(record[name]) > toNumber(value);
+    case IntFilterConditions.gte:
+      return (record) => toNumber(record[name]) >= toNumber(value);
+    case IntFilterConditions.lt:
+      return (record) => toNumber(record[name]) < toNumber(value);
+    case IntFilterConditions.lte:
+      return (record) => toNumber(record[name]) <= toNumber(value);
+    case StringFilterConditions.is_not:
+    case IntFilterConditions.is_not:
+    case SelectFilterConditions.is_not:
+      return (record) => text(record) !== search;
+    case StringFilterConditions.is:
+    case IntFilterConditions.is:
+    case SelectFilterConditions.is:
+    default:
+      return (record) => text(record) === search;
+  }
+};
+
+const getDatePredicate = (name: string, filter: IFilter): Predicate => {
+  if (!filter.option) return () => true;
+
+  const [from, to] = getDateRange(filter.option, filter.value);
+
+  if (!from || !to) return () => true;
+
+  const time = (record: FileRecord) =>
+    isNil(record[name]) ? NaN : new Date(String(record[name])).getTime();
+  const start = from.getTime();
+  const end = to.getTime();
+
+  switch (filter.condition) {
+    case DateFilterConditions.is_not:
+      return (record) => !(time(record) >= start && time(record) <= end);
+    case DateFilterConditions.is_before:
+      return (record) => time(record) < start;
+    case DateFilterConditions.is_after:
+      return (record) => time(record) > end;
+    case DateFilterConditions.is_on_or_before:
+      return (record) => time(record) <= end;
+    case DateFilterConditions.is_on_or_after:
+      return (record) => time(record) >= start;
+    case DateFilterConditions.is:
+    case DateFilterConditions.is_within:
+    default:
+      return (record) => time(record) >= start && time(record) <= end;
+  }
+};
@@ -0,0 +1,27 @@
+import { parseFile, serializeFile } from "./files";
+
+describe("Excel files", () => {
+  it("reads back the files it writes", async () => {
+    const file = await parseFile(
+      "people.csv",
+      Buffer.from("name,age,active\nAnn,31,true\nBob,,false\n")
+    );
+    const { contents } = await serializeFile({ ...file, format: "xlsx" });
+
+    const { tables } = await parseFile("people.xlsx", contents);
+    const [table] = Object.values(tables);
+
+    expect(
+      table.columns.map(({ name, fieldType }) => [name, fieldType])
+    ).toEqual([
+      ["id", "Id"],
+      ["name", "Text"],
+      ["age", "Number"],
+      ["active", "Boolean"],
+    ]);
+    expect(table.records).toEqual([
+      { id: 1, name: "Ann", age: 31, active: true },
+      { id: 2, name: "Bob", age: null, active: false },
+    ]);
+  });
+});
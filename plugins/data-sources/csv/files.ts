@@ -0,0 +1,268 @@
+import { FieldType } from "@/features/fields/types";
+import { FileColumn, FileFormat, FileTable, StoredFile } from "./types";
+import {
+  isBoolean,
+  isDate,
+  isEmpty,
+  isNil,
+  isNumber,
+  isObject,
+  isString,
+  max,
+  snakeCase,
+} from "lodash";
+import { parseCsv, toCsv } from "@/lib/csv";
+import ExcelJS from "exceljs";
+import path from "path";
+
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+const BOOLEAN_REGEX = /^(true|false)$/i;
+// We only treat ISO-like dates as dates. `01/02/2021` is too ambiguous.
+const DATE_REGEX =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const MAX_TEXT_LENGTH = 255;
+
+export const getFileFormat = (filename: string): FileFormat | undefined => {
+  switch (path.extname(filename).toLowerCase()) {
+    case ".csv":
+      return "csv";
+    case ".xlsx":
+      return "xlsx";
+    default:
+      return undefined;
+  }
+};
+
+const isEmptyValue = (value: unknown) => isNil(value) || value === "";
+
+export const inferFieldType = (values: unknown[]): FieldType => {
+  const presentValues = values.filter((value) => !isEmptyValue(value));
+
+  if (isEmpty(presentValues)) return "Text";
+
+  if (
+    presentValues.every(
+      (value) =>
+        isNumber(value) || (isString(value) && NUMBER_REGEX.test(value.trim()))
+    )
+  )
+    return "Number";
+  if (
+    presentValues.every(
+      (value) =>
+        isBoolean(value) ||
+        (isString(value) && BOOLEAN_REGEX.test(value.trim()))
+    )
+  )
+    return "Boolean";
+  if (
+    presentValues.every(
+      (value) =>
+        isDate(value) || (isString(value) && DATE_REGEX.test(value.trim()))
+    )
+  )
+    return "DateTime";
+  if (
+    presentValues.some(
+      (value) =>
+        String(value).length > MAX_TEXT_LENGTH || String(value).includes("\n")
+    )
+  )
+    return "Textarea";
+
+  return "Text";
+};
+
+/* Converts the values we get from the file or from the forms to the type of the column. */
+export const castValue = (value: unknown, fieldType: FieldType): unknown => {
+  if (isEmptyValue(value)) return null;
+
+  switch (fieldType) {
+    case "Id":
+    case "Number":
+      return NUMBER_REGEX.test(String(value).trim())
+        ? Number(value)
+        : String(value);
+    case "Boolean":
+      return isBoolean(value) ? value : String(value).toLowerCase() === "true";
+    case "DateTime":
+      return isDate(value) ? value.toISOString() : String(value);
+    default:
+      return isDate(value) ? value.toISOString() : String(value);
+  }
+};
+
+const getColumnNames = (headerRow: unknown[]): string[] => {
+  const names: string[] = [];
+
+  headerRow.forEach((header, idx) => {
+    let name = isEmptyValue(header)
+      ? `column_${idx + 1}`
+      : String(header).trim();
+
+    // Columns need unique names.
+    while (names.includes(name)) name = `${name}_${idx + 1}`;
+
+    names.push(name);
+  });
+
+  return names;
+};
+
+const buildTable = (rows: unknown[][]): FileTable => {
+  const [headerRow = [], ...valueRows] = rows;
+  const names = getColumnNames(headerRow);
+  const rawRecords = valueRows
+    .filter((row) => row.some((value) => !isEmptyValue(value)))
+    .map((row) =>
+      Object.fromEntries(names.map((name, idx) => [name, row[idx]]))
+    );
+
+  const syntheticId = !names.includes("id");
+  const columns: FileColumn[] = names.map((name) => ({
+    name,
+    fieldType:
+      name === "id"
+        ? "Id"
+        : inferFieldType(rawRecords.map((record) => record[name])),
+  }));
+
+  const records = rawRecords.map((rawRecord, idx) => {
+    const record = Object.fromEntries(
+      columns.map(({ name, fieldType }) => [
+        name,
+        castValue(rawRecord[name], fieldType),
+      ])
+    );
+
+    return syntheticId ? { id: idx + 1, ...record } : record;
+  });
+
+  if (syntheticId) columns.unshift({ name: "id", fieldType: "Id" });
+
+  const numericIds = records
+    .map(({ id }) => id)
+    .filter((id): id is number => isNumber(id));
+
+  return {
+    columns,
+    records,
+    syntheticId,
+    nextId: (max(numericIds) || 0) + 1,
+  };
+};
+
+/* Formulas, rich text and links are read as the value they show. */
+const getCellValue = (value: ExcelJS.CellValue): unknown => {
+  if (isNil(value)) return null;
+  if (!isObject(value) || isDate(value)) return value;
+  if ("formula" in value || "sharedFormula" in value) {
+    return getCellValue(value.result as ExcelJS.CellValue);
+  }
+  if ("richText" in value)
+    return value.richText.map(({ text }) => text).join("");
+  if ("text" in value) return value.text;
+
+  // Error cells like #N/A.
+  return null;
+};
+
+const getSheetRows = (worksheet: ExcelJS.Worksheet): unknown[][] => {
+  const rows: unknown[][] = [];
+
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    rows.push(
+      Array.from({ length: worksheet.columnCount }, (value, idx) =>
+        getCellValue(row.getCell(idx + 1).value)
+      )
+    );
+  });
+
+  return rows;
+};
+
+/**
+ * Reads an uploaded CSV or Excel file into tables.
+ */
+export const parseFile = async (
+  filename: string,
+  contents: Buffer
+): Promise<StoredFile> => {
+  const format = getFileFormat(filename);
+
+  if (format === "csv") {
+    const tableName =
+      snakeCase(path.basename(filename, path.extname(filename))) || "records";
+
+    return {
+      filename,
+      format,
+      tables: {
+        [tableName]: buildTable(parseCsv(contents.toString("utf8"))),
+      },
+    };
+  }
+
+  if (format === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(contents);
+
+    return {
+      filename,
+      format,
+      tables: Object.fromEntries(
+        workbook.worksheets.map((worksheet) => [
+          worksheet.name,
+          buildTable(getSheetRows(worksheet)),
+        ])
+      ),
+    };
+  }
+
+  throw new Error("Only CSV and Excel (.xlsx) files are supported.");
+};
+
+// The ids we added are left out of the downloaded file.
+const getExportedColumnNames = (table: FileTable) =>
+  table.columns
+    .map(({ name }) => name)
+    .filter((name) => !(table.syntheticId && name === "id"));
+
+/**
+ * Writes the tables back to a file in the format it was uploaded in.
+ */
+export const serializeFile = async (
+  file: StoredFile
+): Promise<{ contents: Buffer; contentType: string }> => {
+  if (file.format === "csv") {
+    const table = Object.values(file.tables)[0];
+
+    return {
+      contents: Buffer.from(
+        // The file is the data source itself so the values are stored as they are.
+        toCsv(table.records, getExportedColumnNames(table), {
+          escapeFormulas: false,
+        }),
+        "utf8"
+      ),
+      contentType: "text/csv",
+    };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  Object.entries(file.tables).forEach(([sheetName, table]) => {
+    const header = getExportedColumnNames(table);
+    const worksheet = workbook.addWorksheet(sheetName);
+
+    worksheet.addRow(header);
+    table.records.forEach((record) =>
+      worksheet.addRow(header.map((name) => record[name] ?? null))
+    );
+  });
+
+  return {
+    contents: Buffer.from(await workbook.xlsx.writeBuffer()),
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  };
+};
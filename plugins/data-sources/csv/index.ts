@@ -0,0 +1,24 @@
+import { DataSourceInfo } from "../types";
+
+const info: DataSourceInfo = {
+  id: "csv",
+  name: "CSV / Excel file",
+  description: "Uploaded CSV and Excel files",
+  readOnly: false,
+  pagination: "offset",
+  supports: {
+    filters: true,
+    columnsRequest: true,
+    views: true,
+    dashboards: false,
+    restoreWithPrimaryKey: true,
+    bulkUpdate: false,
+    bulkCreate: false,
+    upsert: false,
+    conditionalUpdate: false,
+  },
+  // The files are stored by our own server.
+  runsInProxy: false,
+};
+
+export default info;
@@ -0,0 +1,24 @@
+import Joi from "joi";
+
+// The form sends a FileList and the API gets the name of the uploaded file.
+const validateFile = (value: any, helpers: Joi.CustomHelpers) => {
+  const filename = typeof value === "string" ? value : value?.[0]?.name;
+
+  if (!filename) return helpers.error("any.required");
+  if (!/\.(csv|xlsx)$/i.test(filename))
+    return helpers.error("string.pattern.base");
+
+  return value;
+};
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).required(),
+  type: Joi.string().allow("csv").required(),
+  options: Joi.object(),
+  credentials: Joi.object(),
+  file: Joi.any().required().custom(validateFile).messages({
+    "any.required": "Please upload a CSV or Excel file",
+    "string.pattern.base": "Only CSV and Excel (.xlsx) files are supported",
+  }),
+  organizationId: Joi.number().required(),
+});
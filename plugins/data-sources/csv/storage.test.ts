@@ -0,0 +1,41 @@
+import { StoredFile } from "./types";
+import { readStoredFile, updateStoredFile, writeStoredFile } from "./storage";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+describe("updateStoredFile", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "data-sources-"));
+
+  beforeAll(() => {
+    process.env.FILE_DATA_SOURCES_PATH = directory;
+  });
+
+  afterAll(() => {
+    delete process.env.FILE_DATA_SOURCES_PATH;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("runs the concurrent updates of a data source one after the other", async () => {
+    const file: StoredFile = {
+      filename: "people.csv",
+      format: "csv",
+      tables: {
+        people: { columns: [], records: [], syntheticId: true, nextId: 1 },
+      },
+    };
+    await writeStoredFile(1, file);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (value, idx) =>
+        updateStoredFile(1, async (storedFile) => {
+          // Give the other updates a chance to interleave.
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          storedFile.tables.people.records.push({ id: idx });
+        })
+      )
+    );
+
+    expect((await readStoredFile(1)).tables.people.records).toHaveLength(10);
+  });
+});
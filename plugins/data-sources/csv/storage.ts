@@ -0,0 +1,117 @@
+import { StoredFile } from "./types";
+import S3 from "aws-sdk/clients/s3";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Files are kept in the `FILE_DATA_SOURCES_BUCKET` S3 bucket when it's set and on the local disk otherwise.
+ */
+const getBucket = () => process.env.FILE_DATA_SOURCES_BUCKET;
+
+const getDirectory = () =>
+  process.env.FILE_DATA_SOURCES_PATH ||
+  path.join(process.cwd(), "storage", "data-sources");
+
+const getKey = (dataSourceId: number) => `${dataSourceId}.json`;
+
+const getS3Client = () =>
+  new S3({
+    accessKeyId: process.env.AWS_S3_DS_KEYS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.AWS_S3_DS_KEYS_SECRET_ACCESS_KEY,
+    region: process.env.AWS_S3_DS_KEYS_REGION,
+  });
+
+export const readStoredFile = async (
+  dataSourceId: number
+): Promise<StoredFile> => {
+  const bucket = getBucket();
+  let contents: string;
+
+  if (bucket) {
+    const response = await getS3Client()
+      .getObject({ Bucket: bucket, Key: getKey(dataSourceId) })
+      .promise();
+    contents = (response.Body as Buffer).toString("utf8");
+  } else {
+    contents = await fs.promises.readFile(
+      path.join(getDirectory(), getKey(dataSourceId)),
+      "utf8"
+    );
+  }
+
+  return JSON.parse(contents);
+};
+
+export const writeStoredFile = async (
+  dataSourceId: number,
+  file: StoredFile
+): Promise<void> => {
+  const bucket = getBucket();
+  const contents = JSON.stringify(file);
+
+  if (bucket) {
+    await getS3Client()
+      .putObject({
+        Bucket: bucket,
+        Key: getKey(dataSourceId),
+        Body: contents,
+        ContentType: "application/json",
+      })
+      .promise();
+  } else {
+    await fs.promises.mkdir(getDirectory(), { recursive: true });
+    await fs.promises.writeFile(
+      path.join(getDirectory(), getKey(dataSourceId)),
+      contents
+    );
+  }
+};
+
+// The pending writes of each data source, chained one after the other.
+const writeQueues = new Map<number, Promise<unknown>>();
+
+/**
+ * Reads the file, lets `update` change it and writes it back. The updates of a data source run one at a time
+ * and each one starts from the file the previous one wrote, so concurrent requests don't overwrite each other.
+ * The queue lives in the process, so it assumes a single app instance writes the files.
+ */
+export const updateStoredFile = async <T>(
+  dataSourceId: number,
+  update: (file: StoredFile) => T | Promise<T>
+): Promise<{ file: StoredFile; result: T }> => {
+  const previous = writeQueues.get(dataSourceId) || Promise.resolve();
+  const current = previous
+    // A failed update shouldn't block the next ones.
+    .catch(() => undefined)
+    .then(async () => {
+      const file = await readStoredFile(dataSourceId);
+      const result = await update(file);
+      await writeStoredFile(dataSourceId, file);
+
+      return { file, result };
+    });
+
+  writeQueues.set(dataSourceId, current);
+
+  try {
+    return await current;
+  } finally {
+    if (writeQueues.get(dataSourceId) === current) {
+      writeQueues.delete(dataSourceId);
+    }
+  }
+};
+
+export const removeStoredFile = async (dataSourceId: number): Promise<void> => {
+  const bucket = getBucket();
+
+  if (bucket) {
+    await getS3Client()
+      .deleteObject({ Bucket: bucket, Key: getKey(dataSourceId) })
+      .promise();
+  } else {
+    await fs.promises.rm(path.join(getDirectory(), getKey(dataSourceId)), {
+      force: true,
+    });
+  }
+};
@@ -0,0 +1,23 @@
+import { FieldType } from "@/features/fields/types";
+
+export type FileFormat = "csv" | "xlsx";
+
+export type FileColumn = {
+  name: string;
+  fieldType: FieldType;
+};
+
+export type FileTable = {
+  columns: FileColumn[];
+  records: Record<string, unknown>[];
+  // The file didn't have an `id` column so we numbered the rows ourselves.
+  syntheticId: boolean;
+  nextId: number;
+};
+
+export type StoredFile = {
+  filename: string;
+  format: FileFormat;
+  // CSV files have one table. Excel files have one for each sheet.
+  tables: Record<string, FileTable>;
+};
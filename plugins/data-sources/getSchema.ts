@@ -1,15 +1,36 @@
 import { AnySchema } from "joi";
+import { schema as amazonRedshiftSchema } from "./amazon_redshift/schema";
+import { schema as csvSchema } from "./csv/schema";
+import { schema as mongodbSchema } from "./mongodb/schema";
+import { schema as mssqlSchema } from "./mssql/schema";
 import { schema as mysqlSchema } from "./mysql/schema";
 import { schema as postgresqlSchema } from "./postgresql/schema";
+import { schema as redisSchema } from "./redis/schema";
+import { schema as sqliteSchema } from "./sqlite/schema";
 import { schema as stripeSchema } from "./stripe/schema";
+import { schema as swaggerSchema } from "./swagger/schema";
 
 const getSchema = (id: string): AnySchema => {
   switch (id) {
     case "stripe":
       return stripeSchema;
+    case "swagger":
+      return swaggerSchema;
     case "mysql":
     case "maria_db":
       return mysqlSchema;
+    case "mssql":
+      return mssqlSchema;
+    case "amazon_redshift":
+      return amazonRedshiftSchema;
+    case "mongodb":
+      return mongodbSchema;
+    case "redis":
+      return redisSchema;
+    case "sqlite":
+      return sqliteSchema;
+    case "csv":
+      return csvSchema;
     case "postgresql":
     default:
       return postgresqlSchema;
@@ -21,6 +21,11 @@ const info: GoogleSheetsDataSourceInfo = {
     ...defaultSettings.supports,
     views: false,
     dashboards: false,
+    restoreWithPrimaryKey: false,
+    bulkUpdate: false,
+    bulkCreate: false,
+    upsert: false,
+    conditionalUpdate: false,
   }
 };
 
@@ -22,6 +22,12 @@ export const availableDataSources = [
     label: "MariaDB",
     enabled: true,
   },
+  {
+    id: "sqlite",
+    label: "SQLite",
+    enabled: true,
+    beta: true,
+  },
   {
     id: "google-sheets",
     label: "Google Sheets",
@@ -31,7 +37,13 @@ export const availableDataSources = [
   {
     id: "mssql",
     label: "MSSQL",
-    enabled: false,
+    enabled: true,
+    beta: true,
+  },
+  {
+    id: "mongodb",
+    label: "MongoDB",
+    enabled: true,
     beta: true,
   },
   {
@@ -45,8 +57,9 @@ export const availableDataSources = [
   {
     id: "amazon_redshift",
     label: "Amazon Redshift",
-    enabled: false,
-    comingSoon: true,
+    enabled: true,
+    beta: true,
+    readOnly: true,
   },
   {
     id: "airtable",
@@ -57,8 +70,8 @@ export const availableDataSources = [
   {
     id: "swagger",
     label: "Swagger",
-    enabled: false,
-    comingSoon: true,
+    enabled: true,
+    beta: true,
   },
   {
     id: "github",
@@ -93,8 +106,14 @@ export const availableDataSources = [
   {
     id: "redis",
     label: "Redis",
-    enabled: false,
-    comingSoon: true,
+    enabled: true,
+    beta: true,
+  },
+  {
+    id: "csv",
+    label: "CSV / Excel file",
+    enabled: true,
+    beta: true,
   },
 ];
 
@@ -0,0 +1,525 @@
+import {
+  BooleanFilterConditions,
+  DateFilterConditions,
+  FilterVerbs,
+  IntFilterConditions,
+  SelectFilterConditions,
+  StringFilterConditions,
+} from "@/features/tables";
+import { Collection, Document, Filter, MongoClient, ObjectId } from "mongodb";
+import { Column, FieldType } from "@/features/fields/types";
+import { DataSource } from "@prisma/client";
+import { IFilter, IFilterGroup } from "@/features/tables/types";
+import { IQueryService, RecordResponse, RecordsResponse } from "../types";
+import { MongoDBCredentials } from "./types";
+import { decrypt } from "@/lib/crypto";
+import {
+  escapeRegExp,
+  isBoolean,
+  isDate,
+  isNull,
+  isNumber,
+  isObjectLike,
+  isString,
+  isUndefined,
+  last,
+  merge,
+  omit,
+  partition,
+} from "lodash";
+import { getBaseOptions } from "@/features/fields";
+import { getColumnLabel } from "..";
+import { getDateRange } from "../abstract-sql-query-service/AbstractQueryService";
+
+// How many documents we look at to figure out the columns of a collection.
+const SAMPLE_SIZE = 100;
+
+// Clients are shared between the query services of a data source so they can reuse the connection pool.
+const clients: Record<string, MongoClient> = {};
+
+class QueryService implements IQueryService {
+  public client: MongoClient;
+
+  public dataSource: DataSource;
+
+  private credentials: MongoDBCredentials;
+
+  constructor({ dataSource }: { dataSource: DataSource }) {
+    if (!dataSource || !dataSource.encryptedCredentials)
+      throw new Error("No data source provided.");
+
+    const credentialsAsAString = decrypt(dataSource.encryptedCredentials);
+
+    if (!credentialsAsAString) throw new Error("No credentials on record.");
+
+    let credentials: MongoDBCredentials | null;
+
+    try {
+      credentials = JSON.parse(credentialsAsAString);
+    } catch (error) {
+      throw new Error("Failed to parse encrypted credentials");
+    }
+
+    if (!credentials || !credentials.url)
+      throw new Error("No credentials on record.");
+
+    this.dataSource = dataSource;
+    this.credentials = credentials;
+
+    if (!clients[credentials.url]) {
+      clients[credentials.url] = new MongoClient(credentials.url);
+    }
+
+    this.client = clients[credentials.url];
+  }
+
+  public async connect(): Promise<this> {
+    await this.client.connect();
+
+    return this;
+  }
+
+  public async disconnect(): Promise<this> {
+    await this.client.close();
+
+    delete clients[this.credentials.url];
+
+    return this;
+  }
+
+  /** Getters **/
+
+  public async getTables(): Promise<{ name: string }[]> {
+    await this.connect();
+
+    const collections = await this.client
+      .db(this.credentials.database || undefined)
+      .listCollections({}, { nameOnly: true })
+      .toArray();
+
+    return collections
+      .filter(({ name }) => !name.startsWith("system."))
+      .map(({ name }) => ({ name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async getColumns({
+    tableName,
+    storedColumns,
+  }: {
+    tableName: string;
+    storedColumns?: Column[];
+  }): Promise<Column[]> {
+    const collection = await this.getCollection(tableName);
+    const documents = await collection
+      .aggregate([{ $sample: { size: SAMPLE_SIZE } }])
+      .toArray();
+
+    // Documents don't share a schema, so we use the first value we find for each field.
+    const fieldTypes: Record<string, FieldType> = { id: "Id" };
+    documents.forEach((document) => {
+      Object.entries(toRecord(document)).forEach(([name, value]) => {
+        if (isUndefined(value) || isNull(value)) return;
+        if (isUndefined(fieldTypes[name]))
+          fieldTypes[name] = getFieldType(value);
+      });
+    });
+
+    return Object.entries(fieldTypes).map(([name, fieldType]) => {
+      const columnSettings = storedColumns && storedColumns[name as any];
+
+      return {
+        name,
+        label: getColumnLabel({ name }),
+        dataSourceInfo: {},
+        primaryKey: name === "id",
+        baseOptions: merge(getBaseOptions(), columnSettings?.baseOptions),
+        fieldType: columnSettings?.fieldType || fieldType,
+        fieldOptions: merge({}, columnSettings?.fieldOptions),
+      };
+    });
+  }
+
+  public async getRecordsCount({
+    tableName,
+    filters,
+  }: {
+    tableName: string;
+    filters: Array<IFilter | IFilterGroup>;
+  }): Promise<number> {
+    const collection = await this.getCollection(tableName);
+
+    return await collection.countDocuments(getFiltersQuery(filters || []));
+  }
+
+  public async getRecords({
+    tableName,
+    filters,
+    limit,
+    offset,
+    orderBy,
+    orderDirection,
+  }: {
+    tableName: string;
+    filters: Array<IFilter | IFilterGroup>;
+    limit?: number;
+    offset?: number;
+    orderBy: string;
+    orderDirection: string;
+  }): Promise<RecordsResponse> {
+    const collection = await this.getCollection(tableName);
+    const cursor = collection.find(getFiltersQuery(filters || []));
+
+    if (orderBy) {
+      cursor.sort({
+        [toFieldName(orderBy)]: orderDirection === "desc" ? -1 : 1,
+      });
+    }
+    if (offset) cursor.skip(offset);
+    if (limit) cursor.limit(limit);
+
+    const documents = await cursor.toArray();
+
+    return { records: documents.map(toRecord) };
+  }
+
+  public async getRecord({
+    tableName,
+    recordId,
+    filters,
+  }: {
+    tableName: string;
+    recordId: string;
+    filters?: Array<IFilter | IFilterGroup>;
+  }): Promise<RecordResponse | undefined> {
+    const collection = await this.getCollection(tableName);
+    const document = await collection.findOne({
+      $and: [getIdQuery([recordId]), getFiltersQuery(filters || [])],
+    });
+
+    if (!document) return;
+
+    return { record: toRecord(document) };
+  }
+
+  public async createRecord({
+    tableName,
+    data,
+  }: {
+    tableName: string;
+    data: Record<string, unknown>;
+  }): Promise<string | undefined> {
+    const collection = await this.getCollection(tableName);
+    // Use an existing document as a reference for the field types.
+    const sample = await collection.findOne({});
+    const document = castData(omit(data, "id"), sample);
+
+    // Keep the given id. This is what allows deleted documents to be restored.
+    if (!isUndefined(data.id) && !isNull(data.id) && data.id !== "") {
+      document._id = toIdValues(String(data.id))[0];
+    }
+
+    const response = await collection.insertOne(document);
+
+    return response.insertedId.toString();
+  }
+
+  public async updateRecord({
+    tableName,
+    recordId,
+    data,
+  }: {
+    tableName: string;
+    recordId: string;
+    data: Record<string, unknown>;
+  }): Promise<number | undefined> {
+    const collection = await this.getCollection(tableName);
+    const document = await collection.findOne(getIdQuery([recordId]));
+
+    if (!document) return;
+
+    const response = await collection.updateOne(
+      { _id: document._id },
+      {
+        $set: castData(omit(data, "id"), document),
+      }
+    );
+
+    return response.modifiedCount;
+  }
+
+  public async deleteRecord({
+    tableName,
+    recordId,
+  }: {
+    tableName: string;
+    recordId: string;
+  }): Promise<number> {
+    const collection = await this.getCollection(tableName);
+    const response = await collection.deleteOne(getIdQuery([recordId]));
+
+    return response.deletedCount;
+  }
+
+  public async deleteRecords({
+    tableName,
+    recordIds,
+  }: {
+    tableName: string;
+    recordIds: Array<number | string>;
+  }): Promise<number> {
+    const collection = await this.getCollection(tableName);
+    const response = await collection.deleteMany(
+      getIdQuery(recordIds.map((id) => id.toString()))
+    );
+
+    return response.deletedCount;
+  }
+
+  private async getCollection(name: string): Promise<Collection<Document>> {
+    await this.connect();
+
+    return this.client
+      .db(this.credentials.database || undefined)
+      .collection(name);
+  }
+}
+
+export default QueryService;
+
+const isObjectIdString = (value: string) => /^[0-9a-fA-F]{24}$/.test(value);
+
+const isNumericString = (value: string) =>
+  value.trim() !== "" && !isNaN(Number(value));
+
+/* Documents get their `_id` exposed as `id` so they work like the other data sources. */
+const toRecord = (document: Document): Record<string, unknown> => ({
+  id: document._id,
+  ...omit(document, "_id"),
+});
+
+/* Column names come in from the client so we don't let them turn into query operators. */
+const toFieldName = (columnName: string) => {
+  if (!isString(columnName) || columnName.split(".").some(isInvalidFieldPart))
+    throw new Error(`Invalid column name "${columnName}".`);
+
+  return columnName === "id" ? "_id" : columnName;
+};
+
+const isInvalidFieldPart = (part: string) =>
+  part === "" || part.startsWith("$");
+
+/* An id that comes in from the URL might be an ObjectId, a number or a plain string. */
+const toIdValues = (recordId: string): unknown[] => {
+  const values: unknown[] = [];
+
+  if (isObjectIdString(recordId)) values.push(new ObjectId(recordId));
+  if (isNumericString(recordId)) values.push(Number(recordId));
+  values.push(recordId);
+
+  return values;
+};
+
+const getIdQuery = (recordIds: string[]): Filter<Document> => ({
+  _id: { $in: recordIds.flatMap(toIdValues) },
+});
+
+const getFieldType = (value: unknown): FieldType => {
+  if (value instanceof ObjectId) return "Id";
+  if (isDate(value)) return "DateTime";
+  if (isBoolean(value)) return "Boolean";
+  if (isNumber(value)) return "Number";
+  if (isObjectLike(value)) return "Json";
+
+  return "Text";
+};
+
+/* The forms send everything back as strings so we cast them to the type the field has in the reference document. */
+const castData = (
+  data: Record<string, unknown>,
+  reference: Document | null
+): Document =>
+  Object.fromEntries(
+    Object.entries(data).map(([name, value]) => {
+      const referenceValue = reference ? reference[name] : undefined;
+
+      if (!isString(value) || isUndefined(referenceValue)) return [name, value];
+
+      if (referenceValue instanceof ObjectId && isObjectIdString(value))
+        return [name, new ObjectId(value)];
+      if (isDate(referenceValue) && value !== "")
+        return [name, new Date(value)];
+      if (isNumber(referenceValue) && isNumericString(value))
+        return [name, Number(value)];
+      if (isObjectLike(referenceValue)) {
+        try {
+          return [name, JSON.parse(value)];
+        } catch (error) {}
+      }
+
+      return [name, value];
+    })
+  );
+
+const castFilterValue = (filter: IFilter, value: string): unknown => {
+  switch (filter.column?.fieldType) {
+    case "Id":
+    case "Association":
+      if (isObjectIdString(value)) return new ObjectId(value);
+      if (isNumericString(value)) return Number(value);
+
+      return value;
+    case "Number":
+    case "ProgressBar":
+      return isNumericString(value) ? Number(value) : value;
+    default:
+      return value;
+  }
+};
+
+/* The base filters of a view always apply, so the user's `or` filters can't reach the records outside of them. */
+const getFiltersQuery = (
+  filters: Array<IFilter | IFilterGroup>
+): Filter<Document> => {
+  const [baseFilters, userFilters] = partition(filters, "isBase");
+
+  if (baseFilters.length === 0) return getCombinedFiltersQuery(filters);
+
+  const queries = [baseFilters, userFilters]
+    .filter((list) => list.length > 0)
+    .map(getCombinedFiltersQuery);
+
+  return { $and: queries };
+};
+
+/* Filters are combined the same way SQL does it, where `and` binds tighter than `or`. */
+const getCombinedFiltersQuery = (
+  filters: Array<IFilter | IFilterGroup>
+): Filter<Document> => {
+  const groups: Filter<Document>[][] = [];
+
+  filters.forEach((filter) => {
+    const query =
+      "isGroup" in filter && filter.isGroup
+        ? getFiltersQuery(filter.filters)
+        : getFilterQuery(filter as IFilter);
+
+    if (groups.length === 0 || filter.verb === FilterVerbs.or) {
+      groups.push([query]);
+    } else {
+      last(groups)?.push(query);
+    }
+  });
+
+  const queries = groups.map((group) =>
+    group.length === 1 ? group[0] : { $and: group }
+  );
+
+  if (queries.length === 0) return {};
+  if (queries.length === 1) return queries[0];
+
+  return { $or: queries };
+};
+
+const getFilterQuery = (filter: IFilter): Filter<Document> => {
+  const field = toFieldName(filter.columnName);
+  const value = filter.value || "";
+
+  switch (filter.condition) {
+    case StringFilterConditions.is_null:
+    case IntFilterConditions.is_null:
+    case BooleanFilterConditions.is_null:
+    case DateFilterConditions.is_null:
+    case SelectFilterConditions.is_null:
+      return { [field]: null };
+    case StringFilterConditions.is_not_null:
+    case IntFilterConditions.is_not_null:
+    case BooleanFilterConditions.is_not_null:
+    case DateFilterConditions.is_not_null:
+    case SelectFilterConditions.is_not_null:
+      return { [field]: { $ne: null } };
+    case StringFilterConditions.is_in:
+    case IntFilterConditions.is_in:
+      return { [field]: { $in: getFilterValues(filter) } };
+    case StringFilterConditions.is_not_in:
+    case IntFilterConditions.is_not_in:
+      return { [field]: { $nin: getFilterValues(filter) } };
+  }
+
+  if (filter.column?.fieldType === "DateTime") {
+    return getDateFilterQuery(field, filter);
+  }
+
+  switch (filter.condition) {
+    case StringFilterConditions.is_empty:
+    case SelectFilterConditions.is_empty:
+      return { [field]: { $in: ["", null] } };
+    case StringFilterConditions.is_not_empty:
+    case SelectFilterConditions.is_not_empty:
+      return { [field]: { $nin: ["", null] } };
+    case StringFilterConditions.contains:
+    case SelectFilterConditions.contains:
+      return { [field]: { $regex: escapeRegExp(value), $options: "i" } };
+    case StringFilterConditions.not_contains:
+    case SelectFilterConditions.not_contains:
+      return { [field]: { $not: new RegExp(escapeRegExp(value), "i") } };
+    case StringFilterConditions.starts_with:
+      return { [field]: { $regex: `^${escapeRegExp(value)}`, $options: "i" } };
+    case StringFilterConditions.ends_with:
+      return { [field]: { $regex: `${escapeRegExp(value)}$`, $options: "i" } };
+    case BooleanFilterConditions.is_true:
+      return { [field]: true };
+    case BooleanFilterConditions.is_false:
+      return { [field]: false };
+    case IntFilterConditions.gt:
+      return { [field]: { $gt: castFilterValue(filter, value) } };
+    case IntFilterConditions.gte:
+      return { [field]: { $gte: castFilterValue(filter, value) } };
+    case IntFilterConditions.lt:
+      return { [field]: { $lt: castFilterValue(filter, value) } };
+    case IntFilterConditions.lte:
+      return { [field]: { $lte: castFilterValue(filter, value) } };
+    case StringFilterConditions.is_not:
+    case IntFilterConditions.is_not:
+    case SelectFilterConditions.is_not:
+      return { [field]: { $ne: castFilterValue(filter, value) } };
+    case StringFilterConditions.is:
+    case IntFilterConditions.is:
+    case SelectFilterConditions.is:
+    default:
+      return { [field]: castFilterValue(filter, value) };
+  }
+};
+
+const getFilterValues = (filter: IFilter) =>
+  (filter.value ? filter.value.split(",") : []).map((value) =>
+    castFilterValue(filter, value.trim())
+  );
+
+const getDateFilterQuery = (
+  field: string,
+  filter: IFilter
+): Filter<Document> => {
+  if (!filter.option) return {};
+
+  const [from, to] = getDateRange(filter.option, filter.value);
+
+  if (!from || !to) return {};
+
+  switch (filter.condition) {
+    case DateFilterConditions.is_not:
+      return { [field]: { $not: { $gte: from, $lte: to } } };
+    case DateFilterConditions.is_before:
+      return { [field]: { $lt: from } };
+    case DateFilterConditions.is_after:
+      return { [field]: { $gt: to } };
+    case DateFilterConditions.is_on_or_before:
+      return { [field]: { $lte: to } };
+    case DateFilterConditions.is_on_or_after:
+      return { [field]: { $gte: from } };
+    case DateFilterConditions.is:
+    case DateFilterConditions.is_within:
+    default:
+      return { [field]: { $gte: from, $lte: to } };
+  }
+};
@@ -0,0 +1,23 @@
+import { DataSourceInfo } from "../types";
+
+const info: DataSourceInfo = {
+  id: "mongodb",
+  name: "MongoDB",
+  description: "MongoDB data source",
+  readOnly: false,
+  pagination: "offset",
+  supports: {
+    filters: true,
+    columnsRequest: true,
+    views: true,
+    dashboards: false,
+    restoreWithPrimaryKey: true,
+    bulkUpdate: false,
+    bulkCreate: false,
+    upsert: false,
+    conditionalUpdate: false,
+  },
+  runsInProxy: false,
+};
+
+export default info;
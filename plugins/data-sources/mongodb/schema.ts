@@ -0,0 +1,18 @@
+import Joi from "joi";
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).required(),
+  type: Joi.string().allow("mongodb").required(),
+  options: Joi.object(),
+  credentials: Joi.object({
+    url: Joi.string()
+      .pattern(/^mongodb(\+srv)?:\/\//)
+      .required()
+      .messages({
+        "string.pattern.base":
+          "The URL must start with mongodb:// or mongodb+srv://",
+      }),
+    database: Joi.string().allow(""),
+  }),
+  organizationId: Joi.number().required(),
+});
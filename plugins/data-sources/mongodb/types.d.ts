@@ -0,0 +1,4 @@
+export type MongoDBCredentials = {
+  url: string;
+  database?: string;
+};
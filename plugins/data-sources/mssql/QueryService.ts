@@ -1,16 +1,32 @@
-import { Column } from './../../../features/fields/types.d';
+import { Column, FieldType } from "@/features/fields/types";
 import {
   ColumnWithBaseOptions,
+  ForeignKeyInfo,
   QueryServiceFieldOptions,
   SqlColumnOptions,
 } from "../abstract-sql-query-service/types";
-import { FieldType } from "@/features/fields/types";
 import { MysqlCredentials } from "../mysql/types";
 import { idColumns } from "@/features/fields";
-import { knex } from "knex";
+import { omit } from "lodash";
 import AbstractQueryService from "../abstract-sql-query-service/AbstractQueryService";
 import type { Knex } from "knex";
 
+// Tables in the default schema are referenced without it.
+const DEFAULT_SCHEMA = "dbo";
+
+const splitTableName = (
+  tableName: string
+): { schema: string; table: string } => {
+  const [schema, ...rest] = tableName.split(".");
+
+  if (rest.length === 0) return { schema: DEFAULT_SCHEMA, table: schema };
+
+  return { schema, table: rest.join(".") };
+};
+
+const joinTableName = (schema: string, table: string) =>
+  schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+
 class QueryService extends AbstractQueryService {
   public getCredentials() {
     const credentials = this.getParsedCredentials() as MysqlCredentials;
@@ -21,37 +37,123 @@ class QueryService extends AbstractQueryService {
     return credentials;
   }
 
-  getClient(): Knex {
-    const credentials = this.getCredentials();
+  public async runRawQuery({ query }: { query: string }): Promise<unknown> {
+    const response = await this.client.raw(query);
 
-    const connection: Knex.StaticConnectionConfig = {
-      host: credentials.host,
-      port: credentials.port,
-      database: credentials.database,
-      user: credentials.user,
-      password: credentials.password,
-    };
+    return response[0];
+  }
 
-    if (credentials.useSsl) {
-      connection.ssl = { rejectUnauthorized: false };
-    }
+  public async getTables(): Promise<[]> {
+    const tables: { schema: string; name: string }[] = await this.client
+      .select("TABLE_SCHEMA as schema", "TABLE_NAME as name")
+      .from("INFORMATION_SCHEMA.TABLES")
+      .where("TABLE_TYPE", "BASE TABLE")
+      .orderBy(["TABLE_SCHEMA", "TABLE_NAME"]);
 
-    // If the type of connection is Azure, we need to add the `encrypt` option.
-    if (connection.host && connection.host.includes("database.windows.net")) {
-      (connection as Knex.MsSqlConnectionConfig).options = { encrypt: true };
-    }
+    return tables.map(({ schema, name }) => ({
+      name: joinTableName(schema, name),
+      schema,
+    })) as [];
+  }
+
+  public async createRecord({
+    tableName,
+    data,
+  }: {
+    tableName: string;
+    data: unknown;
+  }): Promise<string | undefined> {
+    // Identity columns can't be set explicitly so we let the database fill them in.
+    const identityColumns: { name: string }[] = await this.client.raw(
+      "SELECT [name] FROM sys.identity_columns WHERE [object_id] = OBJECT_ID(?)",
+      [tableName]
+    );
 
-    const client = knex({
-      client: "mssql",
-      connection,
-      debug: false,
+    return super.createRecord({
+      tableName,
+      data: omit(
+        data as Record<string, unknown>,
+        identityColumns.map(({ name }) => name)
+      ),
     });
+  }
+
+  protected async getColumnInfo(
+    tableName: string
+  ): Promise<Record<string, Knex.ColumnInfo>> {
+    const { schema, table } = splitTableName(tableName);
+
+    return (await this.client
+      .withSchema(schema)
+      .table(table)
+      .columnInfo()) as unknown as Record<string, Knex.ColumnInfo>;
+  }
+
+  public async getPrimaryKeyColumns({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<string[]> {
+    const primaryKeys: { columnName: string }[] = await this.client.raw(
+      `SELECT COL_NAME(ic.[object_id], ic.[column_id]) AS [columnName]
+      FROM sys.indexes i
+      JOIN sys.index_columns ic ON i.[object_id] = ic.[object_id] AND i.[index_id] = ic.[index_id]
+      WHERE i.[is_primary_key] = 1 AND i.[object_id] = OBJECT_ID(?)
+      ORDER BY ic.[key_ordinal]`,
+      [tableName]
+    );
+
+    return this.withPrimaryKeyFallback(
+      tableName,
+      primaryKeys.map(({ columnName }) => columnName)
+    );
+  }
+
+  protected async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
+    const foreignKeys: {
+      constraintName: string;
+      columnName: string;
+      foreignTableSchema: string;
+      foreignTableName: string;
+      foreignColumnName: string;
+      onUpdate: string;
+      onDelete: string;
+    }[] = await this.client.raw(
+      `SELECT fk.[name] AS [constraintName],
+        COL_NAME(fkc.[parent_object_id], fkc.[parent_column_id]) AS [columnName],
+        OBJECT_SCHEMA_NAME(fk.[referenced_object_id]) AS [foreignTableSchema],
+        OBJECT_NAME(fk.[referenced_object_id]) AS [foreignTableName],
+        COL_NAME(fkc.[referenced_object_id], fkc.[referenced_column_id]) AS [foreignColumnName],
+        fk.[update_referential_action_desc] AS [onUpdate],
+        fk.[delete_referential_action_desc] AS [onDelete]
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fk.[object_id] = fkc.[constraint_object_id]
+      WHERE fk.[parent_object_id] = OBJECT_ID(?)`,
+      [tableName]
+    );
+
+    return foreignKeys.map((fkInfo) => ({
+      ...fkInfo,
+      tableName,
+      // Keep the same naming we use for the tables list.
+      foreignTableName: joinTableName(
+        fkInfo.foreignTableSchema,
+        fkInfo.foreignTableName
+      ),
+    }));
+  }
 
-    return client;
+  // SQL Server can't parse the UTC strings so we send ISO dates.
+  protected formatFilterDate(date: Date): string {
+    return date.toISOString();
   }
 
   public filterOutUnsupportedColumns(columns: Column<SqlColumnOptions>[]) {
-    return columns.filter((column) => column?.dataSourceInfo?.type !== "timestamp" && column?.dataSourceInfo?.type !== "geometry");
+    return columns.filter(
+      (column) =>
+        column?.dataSourceInfo?.type !== "timestamp" &&
+        column?.dataSourceInfo?.type !== "geometry"
+    );
   }
 
   public getFieldOptionsFromColumnInfo(
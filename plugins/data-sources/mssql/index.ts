@@ -6,6 +6,14 @@ const info: DataSourceInfo = {
   id: "mssql",
   name: "SQL Server",
   description: "Microsoft SQL server data source",
+  supports: {
+    ...defaultSettings.supports,
+    // Identity columns can't be set without IDENTITY_INSERT.
+    restoreWithPrimaryKey: false,
+    bulkUpdate: true,
+    // SQL Server has no `ON CONFLICT` clause.
+    upsert: false,
+  },
 };
 
 export default info;
@@ -1,5 +1,6 @@
 import {
   ColumnWithBaseOptions,
+  ListTable,
   QueryServiceFieldOptions,
 } from "../abstract-sql-query-service/types";
 import { FieldType } from "@/features/fields/types";
@@ -17,6 +18,20 @@ class QueryService extends AbstractQueryService {
     return credentials;
   }
 
+  protected async getViews(): Promise<ListTable[]> {
+    const views = await this.client
+      .select("table_name as name", "table_schema as schema")
+      .from("information_schema.views")
+      .whereRaw("table_schema = database()")
+      .orderBy("table_name");
+
+    return views.map((view: ListTable) => ({
+      ...view,
+      type: "view",
+      readOnly: true,
+    }));
+  }
+
   public getFieldOptionsFromColumnInfo(
     column: ColumnWithBaseOptions
   ): QueryServiceFieldOptions {
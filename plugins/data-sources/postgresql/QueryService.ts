@@ -1,12 +1,30 @@
 import {
   ColumnWithBaseOptions,
+  ForeignKeyInfo,
+  ListTable,
   QueryServiceFieldOptions,
 } from "../abstract-sql-query-service/types";
 import { FieldType } from "@/features/fields/types";
-import { PgCredentials, PgLegacyCredentials } from "./types";
+import { PgCredentials, PgDataSource, PgLegacyCredentials } from "./types";
 import { idColumns } from "@/features/fields";
+import { isEmpty } from "lodash";
 import AbstractQueryService from "../abstract-sql-query-service/AbstractQueryService";
 import URI from "urijs";
+import type { Knex } from "knex";
+
+const DEFAULT_SCHEMA = "public";
+
+/* Tables outside of the `public` schema are named `schema.table`. */
+export const getTableName = (schema: string, table: string) =>
+  schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+
+const splitTableName = (tableName: string): [string, string] => {
+  const [schema, ...rest] = tableName.split(".");
+
+  if (isEmpty(rest)) return [DEFAULT_SCHEMA, tableName];
+
+  return [schema, rest.join(".")];
+};
 
 class QueryService extends AbstractQueryService {
   public getCredentials(): PgCredentials {
@@ -36,6 +54,42 @@ class QueryService extends AbstractQueryService {
     return credentials;
   }
 
+  public async getTables(): Promise<[]> {
+    const tables = await this.client
+      .select("table_name", "table_schema")
+      .from("information_schema.tables")
+      .whereIn("table_schema", this.getSchemas())
+      .andWhereRaw('"table_catalog" = current_database()')
+      .andWhere({ table_type: "BASE TABLE" })
+      .orderBy(["table_schema", "table_name"]);
+
+    const listTables = tables.map(
+      ({
+        table_name,
+        table_schema,
+      }: {
+        table_name: string;
+        table_schema: string;
+      }): ListTable => ({
+        name: getTableName(table_schema, table_name),
+        schema: table_schema,
+        type: "table",
+      })
+    );
+
+    if (!this.includesViews()) return listTables as [];
+
+    return [...listTables, ...(await this.getViews())] as [];
+  }
+
+  public async refreshMaterializedView({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<unknown> {
+    return await this.client.raw("REFRESH MATERIALIZED VIEW ??", [tableName]);
+  }
+
   public getFieldOptionsFromColumnInfo(
     column: ColumnWithBaseOptions
   ): QueryServiceFieldOptions {
@@ -125,6 +179,133 @@ class QueryService extends AbstractQueryService {
 
     return { fieldType, fieldOptions };
   }
+
+  protected async getViews(): Promise<ListTable[]> {
+    const schemas = this.getSchemas();
+    const views = await this.client
+      .select("table_name as name", "table_schema as schema")
+      .from("information_schema.views")
+      .whereIn("table_schema", schemas)
+      .orderBy(["table_schema", "table_name"]);
+    // Materialized views aren't part of the information schema.
+    const materializedViews = await this.client
+      .select("matviewname as name", "schemaname as schema")
+      .from("pg_catalog.pg_matviews")
+      .whereIn("schemaname", schemas)
+      .orderBy(["schemaname", "matviewname"]);
+
+    return [
+      ...views.map((view: ListTable) => ({ ...view, type: "view" as const })),
+      ...materializedViews.map((view: ListTable) => ({
+        ...view,
+        type: "materialized_view" as const,
+      })),
+    ].map(({ name, schema, type }) => ({
+      name: getTableName(schema, name),
+      schema,
+      type,
+      readOnly: true,
+    }));
+  }
+
+  protected async getColumnInfo(
+    tableName: string
+  ): Promise<Record<string, Knex.ColumnInfo>> {
+    const [schema, table] = splitTableName(tableName);
+    // Knex looks the columns up in the current schema when we don't give it one.
+    const columnInfo = (tableName.includes(".")
+      ? await this.client.withSchema(schema).table(table).columnInfo()
+      : await super.getColumnInfo(tableName)) as unknown as Record<
+      string,
+      Knex.ColumnInfo
+    >;
+
+    if (!isEmpty(columnInfo)) return columnInfo;
+
+    return await this.getMaterializedViewColumnInfo(schema, table);
+  }
+
+  /**
+   * The columns of materialized views aren't in the information schema so we read them from the catalog.
+   */
+  private async getMaterializedViewColumnInfo(
+    schema: string,
+    table: string
+  ): Promise<Record<string, Knex.ColumnInfo>> {
+    const columns = await this.client
+      .select(
+        "a.attname as name",
+        this.client.raw("format_type(a.atttypid, NULL) as type"),
+        this.client.raw("NOT a.attnotnull as nullable")
+      )
+      .from("pg_catalog.pg_attribute as a")
+      .join("pg_catalog.pg_class as c", "c.oid", "a.attrelid")
+      .join("pg_catalog.pg_namespace as n", "n.oid", "c.relnamespace")
+      .where({ "n.nspname": schema, "c.relname": table, "c.relkind": "m" })
+      .andWhere("a.attnum", ">", 0)
+      .andWhere("a.attisdropped", false)
+      .orderBy("a.attnum");
+
+    return Object.fromEntries(
+      columns.map(
+        ({
+          name,
+          type,
+          nullable,
+        }: {
+          name: string;
+          type: string;
+          nullable: boolean;
+        }) => [name, { type, nullable, maxLength: 0, defaultValue: null }]
+      )
+    );
+  }
+
+  public async getPrimaryKeyColumns({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<string[]> {
+    const [schema, table] = splitTableName(tableName);
+    const rows = await this.client
+      .select("kcu.column_name")
+      .from("information_schema.table_constraints as tc")
+      .join("information_schema.key_column_usage as kcu", function () {
+        this.on("kcu.constraint_name", "tc.constraint_name")
+          .andOn("kcu.constraint_schema", "tc.constraint_schema")
+          .andOn("kcu.table_name", "tc.table_name");
+      })
+      .where({
+        "tc.constraint_type": "PRIMARY KEY",
+        "tc.table_schema": schema,
+        "tc.table_name": table,
+      })
+      .orderBy("kcu.ordinal_position");
+
+    return this.withPrimaryKeyFallback(
+      tableName,
+      rows.map(({ column_name }: { column_name: string }) => column_name)
+    );
+  }
+
+  protected async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
+    const foreignKeys = await super.getForeignKeys(tableName);
+
+    // The foreign tables are named the same way we name the tables so the associations work across schemas.
+    return foreignKeys.map((foreignKey) => ({
+      ...foreignKey,
+      foreignTableName: getTableName(
+        foreignKey.foreignTableSchema || DEFAULT_SCHEMA,
+        foreignKey.foreignTableName
+      ),
+    }));
+  }
+
+  private getSchemas(): string[] {
+    const schemas = (this.dataSource as PgDataSource).options?.schemas;
+
+    return isEmpty(schemas) ? [DEFAULT_SCHEMA] : (schemas as string[]);
+  }
 }
 
 export default QueryService;
@@ -6,6 +6,7 @@ export const schema = Joi.object({
   options: Joi.object({
     connectsWithSSH: Joi.boolean(),
     connectsWithSSHKey: Joi.boolean(),
+    schemas: Joi.array().items(Joi.string()),
   }),
   credentials: Joi.object({
     host: Joi.string().required(),
@@ -19,6 +19,10 @@ export type PgLegacyCredentials = {
 export interface PgDataSource extends DataSource {
   options: {
     url?: string;
+    // The schemas we show the tables from. Defaults to `public`.
+    schemas?: string[];
+    // Lists the views and materialized views as read-only tables.
+    includeViews?: boolean;
     columns?: Column[];
     tables?: Tables;
   };
@@ -0,0 +1,532 @@
+import { Column, FieldType } from "@/features/fields/types";
+import { DataSource } from "@prisma/client";
+import { IQueryService, RecordResponse, RecordsResponse } from "../types";
+import { RedisCredentials, RedisKeyType } from "./types";
+import {
+  chunk,
+  flatMap,
+  fromPairs,
+  isArray,
+  isEmpty,
+  isNull,
+  isString,
+  isUndefined,
+  merge,
+  omit,
+  uniq,
+} from "lodash";
+import { decrypt } from "@/lib/crypto";
+import { getBaseOptions } from "@/features/fields";
+import { getColumnLabel } from "..";
+import Redis, { Pipeline } from "ioredis";
+
+// The table that lists every key in the database.
+const ALL_KEYS = "*";
+const NAMESPACE_SEPARATOR = ":";
+
+// How many keys we look at to find the namespaces of a database.
+const MAX_SCANNED_KEYS = 10000;
+// How many keys we look at to figure out the columns of a table.
+const SAMPLE_SIZE = 100;
+const SCAN_COUNT = 100;
+
+// Every key gets these columns. Hash fields with the same name are left out.
+const KEY_COLUMNS = ["id", "key", "type", "ttl", "value"];
+
+type KeyRecord = Record<string, unknown> & {
+  id: string;
+  type: RedisKeyType;
+  ttl: number | null;
+  value: unknown;
+};
+
+// Clients are shared between the query services of a data source so they can reuse the connection.
+const clients: Record<string, Redis.Redis> = {};
+
+class QueryService implements IQueryService {
+  public client: Redis.Redis;
+
+  public dataSource: DataSource;
+
+  private credentials: RedisCredentials;
+
+  constructor({ dataSource }: { dataSource: DataSource }) {
+    if (!dataSource || !dataSource.encryptedCredentials)
+      throw new Error("No data source provided.");
+
+    const credentialsAsAString = decrypt(dataSource.encryptedCredentials);
+
+    if (!credentialsAsAString) throw new Error("No credentials on record.");
+
+    let credentials: RedisCredentials | null;
+
+    try {
+      credentials = JSON.parse(credentialsAsAString);
+    } catch (error) {
+      throw new Error("Failed to parse encrypted credentials");
+    }
+
+    if (!credentials || !credentials.url)
+      throw new Error("No credentials on record.");
+
+    this.dataSource = dataSource;
+    this.credentials = credentials;
+
+    if (!clients[credentials.url]) {
+      clients[credentials.url] = new Redis(credentials.url, {
+        lazyConnect: true,
+      });
+    }
+
+    this.client = clients[credentials.url];
+  }
+
+  public async connect(): Promise<this> {
+    // The client connects by itself on the first command.
+    if (this.client.status === "wait") await this.client.connect();
+
+    return this;
+  }
+
+  public async disconnect(): Promise<this> {
+    await this.client.quit();
+
+    delete clients[this.credentials.url];
+
+    return this;
+  }
+
+  /** Getters **/
+
+  /* Keys are grouped by the namespace before the first `:`. Each namespace is a table named after its pattern. */
+  public async getTables(): Promise<{ name: string }[]> {
+    const namespaces: Record<string, boolean> = {};
+    let cursor = "0";
+    let scannedKeys = 0;
+
+    do {
+      const [nextCursor, keys] = await this.client.scan(
+        cursor,
+        "COUNT",
+        SCAN_COUNT
+      );
+
+      keys.forEach((key) => {
+        if (key.includes(NAMESPACE_SEPARATOR)) {
+          const [namespace] = key.split(NAMESPACE_SEPARATOR);
+          namespaces[`${namespace}${NAMESPACE_SEPARATOR}*`] = true;
+        }
+      });
+
+      cursor = nextCursor;
+      scannedKeys += keys.length;
+    } while (cursor !== "0" && scannedKeys < MAX_SCANNED_KEYS);
+
+    return [ALL_KEYS, ...Object.keys(namespaces).sort()].map((name) => ({
+      name,
+    }));
+  }
+
+  public async getColumns({
+    tableName,
+    storedColumns,
+  }: {
+    tableName: string;
+    storedColumns?: Column[];
+  }): Promise<Column[]> {
+    const [, keys] = await this.scanKeys(tableName, "0", SAMPLE_SIZE);
+    const records = await this.getKeyRecords(keys.slice(0, SAMPLE_SIZE));
+
+    const hashFields = uniq(
+      flatMap(
+        records.filter(({ type }) => type === "hash"),
+        (record) => Object.keys(omit(record, KEY_COLUMNS))
+      )
+    );
+    const valueFieldType = records.every(({ type }) => type === "string")
+      ? "Textarea"
+      : "Json";
+
+    const columns: Array<
+      Pick<Column, "name" | "label" | "fieldType"> & {
+        baseOptions?: Partial<Column["baseOptions"]>;
+      }
+    > = [
+      {
+        name: "id",
+        label: "Key",
+        fieldType: "Id",
+        baseOptions: { visibleOnEdit: false, visibleOnNew: false },
+      },
+      {
+        name: "key",
+        label: "Key",
+        fieldType: "Text",
+        baseOptions: {
+          visibleOnIndex: false,
+          visibleOnShow: false,
+          visibleOnEdit: false,
+          required: true,
+        },
+      },
+      {
+        name: "type",
+        label: "Type",
+        fieldType: "Text",
+        baseOptions: { visibleOnEdit: false, visibleOnNew: false },
+      },
+      {
+        name: "ttl",
+        label: "TTL",
+        fieldType: "Number",
+        baseOptions: {
+          nullable: true,
+          help: "Seconds until the key expires. Leave empty to keep the key forever.",
+        },
+      },
+      { name: "value", label: "Value", fieldType: valueFieldType },
+      ...hashFields.map((name) => ({
+        name,
+        label: getColumnLabel({ name }),
+        fieldType: "Text" as FieldType,
+      })),
+    ];
+
+    return columns.map((column) => {
+      const columnSettings = storedColumns && storedColumns[column.name as any];
+
+      return {
+        name: column.name,
+        label: column.label,
+        dataSourceInfo: {},
+        primaryKey: column.name === "id",
+        baseOptions: merge(
+          getBaseOptions(),
+          column.baseOptions,
+          columnSettings?.baseOptions
+        ),
+        fieldType: columnSettings?.fieldType || column.fieldType,
+        fieldOptions: merge({}, columnSettings?.fieldOptions),
+      };
+    });
+  }
+
+  public async getRecordsCount({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<number | undefined> {
+    // Counting the keys of a pattern means going through the whole database.
+    if (tableName !== ALL_KEYS) return undefined;
+
+    return await this.client.dbsize();
+  }
+
+  public async getRecords({
+    tableName,
+    limit,
+    startingAfter,
+  }: {
+    tableName: string;
+    limit?: number;
+    startingAfter?: string;
+  }): Promise<RecordsResponse> {
+    // The cursor of the previous page is passed as `startingAfter`.
+    const [cursor, keys] = await this.scanKeys(
+      tableName,
+      startingAfter || "0",
+      limit || SCAN_COUNT
+    );
+    const records = await this.getKeyRecords(keys);
+
+    return {
+      records,
+      meta: {
+        hasMore: cursor !== "0",
+        nextCursor: cursor,
+      },
+    };
+  }
+
+  public async getRecord({
+    recordId,
+  }: {
+    tableName: string;
+    recordId: string;
+  }): Promise<RecordResponse | undefined> {
+    const [record] = await this.getKeyRecords([recordId]);
+
+    if (!record) return;
+
+    return { record };
+  }
+
+  public async createRecord({
+    data,
+  }: {
+    tableName: string;
+    data: Record<string, unknown>;
+  }): Promise<string | undefined> {
+    // Restored records carry their key in `id`.
+    const key = (data.key || data.id) as string | undefined;
+
+    if (!key) throw new Error("The key is required.");
+    if (await this.client.exists(key))
+      throw new Error(`The key ${key} already exists.`);
+
+    const { ttl, value, ...fields } = omit(data, ["id", "key", "type"]);
+    const type = (data.type ||
+      (isEmpty(fields) ? "string" : "hash")) as RedisKeyType;
+
+    const transaction = this.client.multi();
+    if (!isUndefined(value) && !isNull(value)) {
+      addSetValueCommands(transaction, key, type, value);
+    }
+    if (type === "hash" && !isEmpty(fields)) transaction.hset(key, fields);
+    addSetTtlCommand(transaction, key, ttl);
+    await execTransaction(transaction);
+
+    return key;
+  }
+
+  public async updateRecord({
+    recordId,
+    data,
+  }: {
+    tableName: string;
+    recordId: string;
+    data: Record<string, unknown>;
+  }): Promise<boolean | undefined> {
+    const [record] = await this.getKeyRecords([recordId]);
+
+    if (!record) return;
+
+    const { ttl, value, ...fields } = omit(data, ["id", "key", "type"]);
+
+    const transaction = this.client.multi();
+    if (!isUndefined(value)) {
+      addSetValueCommands(transaction, recordId, record.type, value);
+    }
+    if (record.type === "hash" && !isEmpty(fields)) {
+      transaction.hset(recordId, fields);
+    }
+    // Setting a value drops the TTL, so we always set it back.
+    addSetTtlCommand(
+      transaction,
+      recordId,
+      isUndefined(ttl) ? record.ttl : ttl
+    );
+    await execTransaction(transaction);
+
+    return true;
+  }
+
+  public async deleteRecord({
+    recordId,
+  }: {
+    tableName: string;
+    recordId: string;
+  }): Promise<number> {
+    return await this.client.del(recordId);
+  }
+
+  public async deleteRecords({
+    recordIds,
+  }: {
+    tableName: string;
+    recordIds: Array<number | string>;
+  }): Promise<number> {
+    if (isEmpty(recordIds)) return 0;
+
+    return await this.client.del(...recordIds.map((id) => id.toString()));
+  }
+
+  /* SCAN may return fewer keys than asked for, so we keep going until we have enough or we reach the end. */
+  private async scanKeys(
+    pattern: string,
+    cursor: string,
+    limit: number
+  ): Promise<[string, string[]]> {
+    let keys: string[] = [];
+
+    do {
+      const [nextCursor, batch] = await this.client.scan(
+        cursor,
+        "MATCH",
+        pattern,
+        "COUNT",
+        Math.max(limit, SCAN_COUNT)
+      );
+
+      keys = [...keys, ...batch];
+      cursor = nextCursor;
+    } while (cursor !== "0" && keys.length < limit);
+
+    return [cursor, uniq(keys)];
+  }
+
+  private async getKeyRecords(keys: string[]): Promise<KeyRecord[]> {
+    if (isEmpty(keys)) return [];
+
+    const infoPipeline = this.client.pipeline();
+    keys.forEach((key) => infoPipeline.type(key).ttl(key));
+    const info = await infoPipeline.exec();
+
+    const types = keys.map((key, idx) => info[idx * 2][1] as RedisKeyType);
+    const ttls = keys.map((key, idx) => info[idx * 2 + 1][1] as number);
+
+    const valuesPipeline = this.client.pipeline();
+    keys.forEach((key, idx) =>
+      addGetValueCommand(valuesPipeline, key, types[idx])
+    );
+    const values = await valuesPipeline.exec();
+
+    return keys
+      .map((key, idx) => toRecord(key, types[idx], ttls[idx], values[idx][1]))
+      .filter((record): record is KeyRecord => !isUndefined(record));
+  }
+}
+
+export default QueryService;
+
+const addGetValueCommand = (
+  pipeline: Pipeline,
+  key: string,
+  type: RedisKeyType
+) => {
+  switch (type) {
+    case "string":
+      return pipeline.get(key);
+    case "hash":
+      return pipeline.hgetall(key);
+    case "list":
+      return pipeline.lrange(key, 0, -1);
+    case "set":
+      return pipeline.smembers(key);
+    case "zset":
+      return pipeline.zrange(key, 0, -1, "WITHSCORES");
+    case "stream":
+      return pipeline.xrange(key, "-", "+", "COUNT", SAMPLE_SIZE);
+    default:
+      // The key is gone. We still queue a command so the replies line up with the keys.
+      return pipeline.exists(key);
+  }
+};
+
+const toRecord = (
+  key: string,
+  type: RedisKeyType,
+  ttl: number,
+  rawValue: any
+): KeyRecord | undefined => {
+  const record: KeyRecord = {
+    id: key,
+    type,
+    // -1 means the key never expires.
+    ttl: ttl >= 0 ? ttl : null,
+    value: rawValue,
+  };
+
+  switch (type) {
+    case "hash":
+      record.value = null;
+      Object.entries(omit(rawValue, KEY_COLUMNS)).forEach(
+        ([field, value]) => (record[field] = value)
+      );
+
+      return record;
+    case "zset":
+      record.value = chunk(rawValue as string[], 2).map(([member, score]) => ({
+        member,
+        score: Number(score),
+      }));
+
+      return record;
+    case "stream":
+      record.value = (rawValue as Array<[string, string[]]>).map(
+        ([id, fields]) => ({ id, fields: fromPairs(chunk(fields, 2)) })
+      );
+
+      return record;
+    case "string":
+    case "list":
+    case "set":
+      return record;
+    default:
+      return undefined;
+  }
+};
+
+const parseCollection = (value: unknown): unknown[] => {
+  let collection = value;
+
+  if (isString(value)) {
+    try {
+      collection = JSON.parse(value);
+    } catch (error) {}
+  }
+
+  if (!isArray(collection)) throw new Error("The value must be a JSON array.");
+
+  return collection;
+};
+
+/* Collections are replaced as a whole, so they're removed and written again. */
+const addSetValueCommands = (
+  transaction: Pipeline,
+  key: string,
+  type: RedisKeyType,
+  value: unknown
+) => {
+  switch (type) {
+    case "string":
+      transaction.set(key, isString(value) ? value : JSON.stringify(value));
+      break;
+    case "list": {
+      const items = parseCollection(value).map(String);
+      transaction.del(key);
+      if (!isEmpty(items)) transaction.rpush(key, ...items);
+      break;
+    }
+    case "set": {
+      const members = parseCollection(value).map(String);
+      transaction.del(key);
+      if (!isEmpty(members)) transaction.sadd(key, ...members);
+      break;
+    }
+    case "zset": {
+      const scoresAndMembers = flatMap(
+        parseCollection(value) as Array<{ member: string; score: number }>,
+        ({ member, score }) => [Number(score), String(member)]
+      );
+      transaction.del(key);
+      if (!isEmpty(scoresAndMembers))
+        transaction.zadd(key, ...scoresAndMembers);
+      break;
+    }
+    case "hash":
+      // Hashes are edited through their fields.
+      break;
+    default:
+      throw new Error(`Editing ${type} values is not supported.`);
+  }
+};
+
+const addSetTtlCommand = (transaction: Pipeline, key: string, ttl: unknown) => {
+  const seconds = parseInt(ttl as string);
+
+  if (isNaN(seconds) || seconds < 0) {
+    transaction.persist(key);
+  } else {
+    transaction.expire(key, seconds);
+  }
+};
+
+const execTransaction = async (transaction: Pipeline) => {
+  const results = await transaction.exec();
+  const failed = results.find(([error]) => error);
+
+  if (failed && failed[0]) throw failed[0];
+
+  return results;
+};
@@ -0,0 +1,23 @@
+import { DataSourceInfo } from "../types";
+
+const info: DataSourceInfo = {
+  id: "redis",
+  name: "Redis",
+  description: "Redis data source",
+  readOnly: false,
+  pagination: "cursor",
+  supports: {
+    filters: false,
+    columnsRequest: true,
+    views: false,
+    dashboards: false,
+    restoreWithPrimaryKey: true,
+    bulkUpdate: false,
+    bulkCreate: false,
+    upsert: false,
+    conditionalUpdate: false,
+  },
+  runsInProxy: false,
+};
+
+export default info;
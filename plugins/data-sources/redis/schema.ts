@@ -0,0 +1,16 @@
+import Joi from "joi";
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).required(),
+  type: Joi.string().allow("redis").required(),
+  options: Joi.object(),
+  credentials: Joi.object({
+    url: Joi.string()
+      .pattern(/^rediss?:\/\//)
+      .required()
+      .messages({
+        "string.pattern.base": "The URL must start with redis:// or rediss://",
+      }),
+  }),
+  organizationId: Joi.number().required(),
+});
@@ -0,0 +1,11 @@
+export type RedisCredentials = {
+  url: string;
+};
+
+export type RedisKeyType =
+  | "string"
+  | "hash"
+  | "list"
+  | "set"
+  | "zset"
+  | "stream";
@@ -0,0 +1,113 @@
+import {
+  ColumnWithBaseOptions,
+  ForeignKeyInfo,
+  QueryServiceFieldOptions,
+} from "../abstract-sql-query-service/types";
+import { FieldType } from "@/features/fields/types";
+import { SqliteCredentials, SqliteForeignKey } from "./types";
+import { idColumns } from "@/features/fields";
+import AbstractQueryService from "../abstract-sql-query-service/AbstractQueryService";
+
+class QueryService extends AbstractQueryService {
+  public getCredentials(): SqliteCredentials {
+    const credentials = this.getParsedCredentials() as SqliteCredentials;
+
+    if (!credentials || !credentials.filename)
+      throw new Error("No credentials on record.");
+
+    return credentials;
+  }
+
+  public async runRawQuery({ query }: { query: string }): Promise<unknown> {
+    const response = await this.client.raw(query);
+
+    return response[0];
+  }
+
+  // SQLite stores the dates as text so they're compared with the ISO dates it stores.
+  protected formatFilterDate(date: Date): string {
+    return date.toISOString();
+  }
+
+  protected async getForeignKeys(tableName: string): Promise<ForeignKeyInfo[]> {
+    const foreignKeys: SqliteForeignKey[] = await this.client.raw(
+      "PRAGMA foreign_key_list(??)",
+      [tableName]
+    );
+
+    return foreignKeys.map((fkInfo) => ({
+      constraintName: null,
+      tableName,
+      columnName: fkInfo.from,
+      foreignTableName: fkInfo.table,
+      foreignColumnName: fkInfo.to,
+      foreignTableSchema: undefined,
+      onUpdate: fkInfo.on_update,
+      onDelete: fkInfo.on_delete,
+    }));
+  }
+
+  public getFieldOptionsFromColumnInfo(
+    column: ColumnWithBaseOptions
+  ): QueryServiceFieldOptions {
+    let fieldOptions: Record<string, unknown> = {};
+    let fieldType: FieldType = "Text";
+
+    const { name } = column;
+    // SQLite accepts any type name so we match them by affinity.
+    const type = (column.dataSourceInfo.type || "").toLowerCase();
+
+    if (type.includes("int")) {
+      fieldType = idColumns.includes(name) ? "Id" : "Number";
+    } else if (
+      ["real", "floa", "doub", "numeric", "decimal"].some((affinity) =>
+        type.includes(affinity)
+      )
+    ) {
+      fieldType = "Number";
+    } else if (type.includes("bool")) {
+      fieldType = "Boolean";
+    } else if (type.includes("json")) {
+      fieldType = "Json";
+    } else if (["text", "clob", "blob"].includes(type)) {
+      fieldType = "Textarea";
+    }
+
+    if (["date", "datetime", "timestamp", "time"].includes(type)) {
+      fieldType = "DateTime";
+
+      switch (type) {
+        case "datetime":
+        case "timestamp":
+          fieldOptions = {
+            ...fieldOptions,
+            showDate: true,
+            showTime: true,
+          };
+          break;
+        case "time":
+          fieldOptions = {
+            ...fieldOptions,
+            showDate: false,
+            showTime: true,
+          };
+          break;
+        case "date":
+          fieldOptions = {
+            ...fieldOptions,
+            showDate: true,
+            showTime: false,
+          };
+          break;
+      }
+    }
+
+    if (column.foreignKeyInfo) {
+      fieldType = "Association";
+    }
+
+    return { fieldType, fieldOptions };
+  }
+}
+
+export default QueryService;
@@ -0,0 +1,46 @@
+import { getFilename } from "./getFilename";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+describe("getFilename", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "sqlite-"));
+  const databasesPath = path.join(directory, "databases");
+  const originalPath = process.env.SQLITE_DATABASES_PATH;
+
+  beforeAll(() => {
+    fs.mkdirSync(databasesPath);
+    fs.writeFileSync(path.join(databasesPath, "app.db"), "");
+    fs.writeFileSync(path.join(directory, "secret.db"), "");
+    fs.symlinkSync(
+      path.join(directory, "secret.db"),
+      path.join(databasesPath, "link.db")
+    );
+  });
+
+  afterEach(() => {
+    process.env.SQLITE_DATABASES_PATH = originalPath;
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("refuses every file when the databases path isn't set", () => {
+    delete process.env.SQLITE_DATABASES_PATH;
+
+    expect(() => getFilename({ filename: "app.db" })).toThrow(
+      "SQLITE_DATABASES_PATH"
+    );
+  });
+
+  it("only resolves the files inside the databases path", () => {
+    process.env.SQLITE_DATABASES_PATH = databasesPath;
+
+    expect(getFilename({ filename: "app.db" })).toBe(
+      path.join(databasesPath, "app.db")
+    );
+    expect(() => getFilename({ filename: "../secret.db" })).toThrow();
+    expect(() => getFilename({ filename: "link.db" })).toThrow();
+  });
+});
@@ -0,0 +1,45 @@
+import { SqliteCredentials } from "./types";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Resolves the path of the database file. Only the files inside `SQLITE_DATABASES_PATH` can be used,
+ * so SQLite data sources are disabled when it's not set.
+ */
+export const getFilename = ({ filename }: SqliteCredentials): string => {
+  if (!filename) throw new Error("No database file provided.");
+
+  const basePath = process.env.SQLITE_DATABASES_PATH;
+
+  if (!basePath) {
+    throw new Error(
+      "Set SQLITE_DATABASES_PATH to the directory of the SQLite databases to use them."
+    );
+  }
+
+  const resolvedBasePath = path.resolve(basePath);
+  const resolvedFilename = path.resolve(resolvedBasePath, filename);
+  const isInsideBasePath = (file: string, directory: string) =>
+    file.startsWith(`${directory}${path.sep}`);
+
+  if (!isInsideBasePath(resolvedFilename, resolvedBasePath)) {
+    throw new Error(`The database file has to be inside ${basePath}.`);
+  }
+
+  // Knex would create an empty database if the file is missing.
+  if (!fs.existsSync(resolvedFilename)) {
+    throw new Error(`Can't find the database file ${filename}.`);
+  }
+
+  // A symlink inside the directory could point outside of it.
+  if (
+    !isInsideBasePath(
+      fs.realpathSync(resolvedFilename),
+      fs.realpathSync(resolvedBasePath)
+    )
+  ) {
+    throw new Error(`The database file has to be inside ${basePath}.`);
+  }
+
+  return resolvedFilename;
+};
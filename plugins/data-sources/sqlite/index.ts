@@ -0,0 +1,13 @@
+import { DataSourceInfo } from "../types";
+import { defaultSettings } from "../abstract-sql-query-service";
+
+const info: DataSourceInfo = {
+  ...defaultSettings,
+  id: "sqlite",
+  name: "SQLite",
+  description: "SQLite data source",
+  // The database file lives on our own server.
+  runsInProxy: false,
+};
+
+export default info;
@@ -0,0 +1,11 @@
+import Joi from "joi";
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).required(),
+  type: Joi.string().allow("sqlite").required(),
+  options: Joi.object(),
+  credentials: Joi.object({
+    filename: Joi.string().required(),
+  }),
+  organizationId: Joi.number().required(),
+});
@@ -0,0 +1,14 @@
+export type SqliteCredentials = {
+  filename: string;
+};
+
+export type SqliteForeignKey = {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string;
+  on_update: string;
+  on_delete: string;
+  match: string;
+};
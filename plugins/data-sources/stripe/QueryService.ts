@@ -198,6 +198,7 @@ const recordToColumns = (record: Record<string, StripeValues>): Column[] =>
         computed: false,
         computedSource: "",
         backgroundColor: "",
+        rolePermissions: {},
       },
       fieldType: getFieldTypeFromColumnInfo(key, value),
       fieldOptions: {},
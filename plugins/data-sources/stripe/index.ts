@@ -11,6 +11,11 @@ const info: DataSourceInfo = {
     columnsRequest: false,
     views: false,
     dashboards: false,
+    restoreWithPrimaryKey: false,
+    bulkUpdate: false,
+    bulkCreate: false,
+    upsert: false,
+    conditionalUpdate: false,
   },
   runsInProxy: false,
 };
@@ -0,0 +1,516 @@
+import { Column, FieldType } from "@/features/fields/types";
+import { IQueryService, RecordResponse, RecordsResponse } from "../types";
+import {
+  OpenApiDocument,
+  OpenApiSchema,
+  SwaggerCredentials,
+  SwaggerDataSource,
+  SwaggerPaginationOptions,
+  SwaggerResource,
+} from "./types";
+import { decrypt } from "@/lib/crypto";
+import {
+  get,
+  isArray,
+  isEmpty,
+  isNil,
+  isUndefined,
+  merge,
+  omitBy,
+} from "lodash";
+import { getBaseOptions } from "@/features/fields";
+import { getColumnLabel } from "..";
+import axios, { AxiosInstance } from "axios";
+import cache from "@/features/cache";
+import getResources, { resolveSchema } from "./getResources";
+
+const SPEC_CACHE_EXPIRATION_TIME = 900; // 15 minutes
+
+const DEFAULT_PAGINATION: SwaggerPaginationOptions = {
+  type: "offset",
+  limitParam: "limit",
+  offsetParam: "offset",
+  pageParam: "page",
+  cursorParam: "cursor",
+};
+
+class QueryService implements IQueryService {
+  public dataSource: SwaggerDataSource;
+
+  private credentials: SwaggerCredentials = { authType: "none" };
+
+  private pagination: SwaggerPaginationOptions;
+
+  private client?: AxiosInstance;
+
+  constructor({ dataSource }: { dataSource: SwaggerDataSource }) {
+    if (!dataSource) throw new Error("No data source provided.");
+    if (!dataSource.options?.specUrl)
+      throw new Error("No OpenAPI document URL on record.");
+
+    // APIs that don't need authentication don't have credentials.
+    if (dataSource.encryptedCredentials) {
+      const credentialsAsAString = decrypt(dataSource.encryptedCredentials);
+
+      if (!credentialsAsAString) throw new Error("No credentials on record.");
+
+      try {
+        this.credentials = JSON.parse(credentialsAsAString);
+      } catch (error) {
+        throw new Error("Failed to parse encrypted credentials");
+      }
+    }
+
+    this.dataSource = dataSource;
+    this.pagination = merge(
+      {},
+      DEFAULT_PAGINATION,
+      omitBy(dataSource.options.pagination, isEmpty)
+    );
+  }
+
+  public async connect(): Promise<this> {
+    const spec = await this.getSpec();
+
+    this.client = axios.create({
+      baseURL: this.getBaseUrl(spec),
+      headers: this.getHeaders(),
+    });
+
+    return this;
+  }
+
+  public async disconnect(): Promise<this> {
+    // This client does not need to disconnect
+
+    return this;
+  }
+
+  /** Getters **/
+
+  public async getTables(): Promise<{ name: string }[]> {
+    const resources = await this.getResources();
+
+    return resources.map(({ name }) => ({ name }));
+  }
+
+  public async getColumns({
+    tableName,
+    storedColumns,
+  }: {
+    tableName: string;
+    storedColumns?: Column[];
+  }): Promise<Column[]> {
+    const resource = await this.getResource(tableName);
+    const spec = await this.getSpec();
+    const properties = Object.entries(resource.schema?.properties || {});
+    const required = resource.schema?.required || [];
+
+    const columns: Column[] = properties.map(([name, rawSchema]) => {
+      const schema = resolveSchema(spec, rawSchema) || {};
+      const columnSettings = storedColumns && storedColumns[name as any];
+      const fieldType = getFieldType(schema);
+
+      return {
+        name,
+        label: getColumnLabel({ name }),
+        dataSourceInfo: {},
+        primaryKey: name === resource.primaryKey,
+        baseOptions: merge(
+          getBaseOptions(),
+          {
+            required: required.includes(name),
+            nullable: schema.nullable === true,
+            readonly: schema.readOnly === true,
+            help: schema.description || "",
+          },
+          columnSettings?.baseOptions
+        ),
+        fieldType:
+          columnSettings?.fieldType ||
+          (name === resource.primaryKey ? "Id" : fieldType),
+        fieldOptions: merge(
+          fieldType === "Select" ? { options: schema.enum?.join(",") } : {},
+          columnSettings?.fieldOptions
+        ),
+      };
+    });
+
+    // Records are identified by `id`, so we add it when the API uses another key.
+    if (resource.primaryKey !== "id") {
+      columns.unshift({
+        name: "id",
+        label: getColumnLabel({ name: "id" }),
+        dataSourceInfo: {},
+        primaryKey: true,
+        baseOptions: merge(getBaseOptions(), {
+          visibleOnEdit: false,
+          visibleOnNew: false,
+        }),
+        fieldType: "Id",
+        fieldOptions: {},
+      });
+    }
+
+    return columns;
+  }
+
+  public async getRecordsCount({
+    tableName,
+  }: {
+    tableName: string;
+  }): Promise<number | undefined> {
+    const { type, totalPath } = this.pagination;
+
+    if (type !== "none" && !totalPath) return undefined;
+
+    const resource = await this.getResource(tableName);
+    const data = await this.request("get", resource.collectionPath, {
+      params: this.getPaginationParams({ limit: 1, offset: 0 }),
+    });
+
+    if (type === "none")
+      return this.getRecordsFromResponse(resource, data).length;
+
+    const total = parseInt(get(data, totalPath as string));
+
+    return isNaN(total) ? undefined : total;
+  }
+
+  public async getRecords({
+    tableName,
+    limit,
+    offset,
+    startingAfter,
+  }: {
+    tableName: string;
+    limit?: number;
+    offset?: number;
+    startingAfter?: string;
+  }): Promise<RecordsResponse> {
+    const resource = await this.getResource(tableName);
+    const data = await this.request("get", resource.collectionPath, {
+      params: this.getPaginationParams({ limit, offset, startingAfter }),
+    });
+    let records = this.getRecordsFromResponse(resource, data);
+
+    switch (this.pagination.type) {
+      case "none":
+        // The API sends everything so we paginate ourselves.
+        records = records.slice(
+          offset || 0,
+          (offset || 0) + (limit || records.length)
+        );
+
+        return { records };
+      case "cursor": {
+        const nextCursor = get(data, this.pagination.nextCursorPath || "");
+        const hasMore = !isNil(nextCursor) && nextCursor !== "";
+
+        return {
+          records,
+          meta: {
+            hasMore,
+            nextCursor: hasMore ? String(nextCursor) : undefined,
+          },
+        };
+      }
+      default:
+        return { records };
+    }
+  }
+
+  public async getRecord({
+    tableName,
+    recordId,
+  }: {
+    tableName: string;
+    recordId: string;
+  }): Promise<RecordResponse | undefined> {
+    const resource = await this.getResource(tableName);
+
+    if (!resource.operations.get) {
+      throw new Error(`The API can't fetch a single record from ${tableName}.`);
+    }
+
+    const data = await this.request("get", getItemPath(resource, recordId));
+
+    if (!data) return;
+
+    return { record: toRecord(resource, data) };
+  }
+
+  public async createRecord({
+    tableName,
+    data,
+  }: {
+    tableName: string;
+    data: Record<string, unknown>;
+  }): Promise<string | undefined> {
+    const resource = await this.getResource(tableName);
+
+    if (!resource.operations.create) {
+      throw new Error(`The API can't create records in ${tableName}.`);
+    }
+
+    const response = await this.request("post", resource.collectionPath, {
+      data,
+    });
+    const id = get(response, resource.primaryKey);
+
+    return isUndefined(id) ? undefined : String(id);
+  }
+
+  public async updateRecord({
+    tableName,
+    recordId,
+    data,
+  }: {
+    tableName: string;
+    recordId: string;
+    data: Record<string, unknown>;
+  }): Promise<unknown> {
+    const resource = await this.getResource(tableName);
+    const method = resource.operations.update;
+
+    if (!method) {
+      throw new Error(`The API can't update records in ${tableName}.`);
+    }
+
+    // PUT replaces the whole record so we send the unchanged fields too.
+    let body = data;
+    if (method === "put" && resource.operations.get) {
+      const current = await this.request(
+        "get",
+        getItemPath(resource, recordId)
+      );
+      body = { ...current, ...data };
+    }
+
+    return await this.request(method, getItemPath(resource, recordId), {
+      data: body,
+    });
+  }
+
+  public async deleteRecord({
+    tableName,
+    recordId,
+  }: {
+    tableName: string;
+    recordId: string;
+  }): Promise<unknown> {
+    const resource = await this.getResource(tableName);
+
+    if (!resource.operations.delete) {
+      throw new Error(`The API can't delete records from ${tableName}.`);
+    }
+
+    return await this.request("delete", getItemPath(resource, recordId));
+  }
+
+  public async deleteRecords({
+    tableName,
+    recordIds,
+  }: {
+    tableName: string;
+    recordIds: Array<number | string>;
+  }): Promise<unknown> {
+    const responses = [];
+
+    // REST APIs rarely have bulk deletes so we go one by one.
+    for (const recordId of recordIds) {
+      responses.push(
+        await this.deleteRecord({ tableName, recordId: recordId.toString() })
+      );
+    }
+
+    return responses;
+  }
+
+  private async getSpec(): Promise<OpenApiDocument> {
+    const { specUrl } = this.dataSource.options;
+
+    return await cache.fetch<OpenApiDocument>({
+      key: `swagger.spec({dataSourceId:${this.dataSource.id},specUrl:"${specUrl}"})`,
+      options: {
+        expiresIn: SPEC_CACHE_EXPIRATION_TIME,
+      },
+      callback: async () => {
+        try {
+          const response = await axios.get(specUrl, {
+            headers: this.getHeaders(),
+          });
+
+          return response.data;
+        } catch (error: any) {
+          throw new Error(
+            `Failed to fetch the OpenAPI document: ${error.message}`
+          );
+        }
+      },
+    });
+  }
+
+  private async getResources(): Promise<SwaggerResource[]> {
+    return getResources(await this.getSpec());
+  }
+
+  private async getResource(tableName: string): Promise<SwaggerResource> {
+    const resource = (await this.getResources()).find(
+      ({ name }) => name === tableName
+    );
+
+    if (!resource) throw new Error(`Table ${tableName} not found.`);
+
+    return resource;
+  }
+
+  private getBaseUrl(spec: OpenApiDocument): string {
+    const { specUrl, baseUrl } = this.dataSource.options;
+
+    if (baseUrl) return baseUrl;
+
+    // Server URLs may be relative to the document.
+    if (spec.servers && spec.servers.length > 0) {
+      return new URL(spec.servers[0].url, specUrl).toString();
+    }
+
+    // Swagger 2
+    if (spec.host) {
+      const scheme = spec.schemes ? spec.schemes[0] : "https";
+
+      return `${scheme}://${spec.host}${spec.basePath || ""}`;
+    }
+
+    return new URL(specUrl).origin;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const { authType, headerName, token } = this.credentials;
+
+    if (!token) return {};
+
+    switch (authType) {
+      case "bearer":
+        return { Authorization: `Bearer ${token}` };
+      case "header":
+        return { [headerName || "X-API-Key"]: token };
+      case "none":
+      default:
+        return {};
+    }
+  }
+
+  private getPaginationParams({
+    limit,
+    offset,
+    startingAfter,
+  }: {
+    limit?: number;
+    offset?: number;
+    startingAfter?: string;
+  }): Record<string, unknown> {
+    const { type, limitParam, offsetParam, pageParam, cursorParam } =
+      this.pagination;
+
+    switch (type) {
+      case "offset":
+        return {
+          [limitParam as string]: limit,
+          [offsetParam as string]: offset,
+        };
+      case "page":
+        return {
+          [limitParam as string]: limit,
+          [pageParam as string]: limit
+            ? Math.floor((offset || 0) / limit) + 1
+            : 1,
+        };
+      case "cursor":
+        return {
+          [limitParam as string]: limit,
+          [cursorParam as string]: startingAfter,
+        };
+      case "none":
+      default:
+        return {};
+    }
+  }
+
+  private getRecordsFromResponse(
+    resource: SwaggerResource,
+    data: unknown
+  ): Record<string, unknown>[] {
+    const recordsPath = this.pagination.recordsPath || resource.recordsPath;
+    const records = recordsPath ? get(data, recordsPath) : data;
+
+    if (!isArray(records)) return [];
+
+    return records.map((record) => toRecord(resource, record));
+  }
+
+  private async request(
+    method: "get" | "post" | "put" | "patch" | "delete",
+    url: string,
+    config: { params?: Record<string, unknown>; data?: unknown } = {}
+  ) {
+    if (!this.client) await this.connect();
+
+    try {
+      const response = await (this.client as AxiosInstance).request({
+        method,
+        url,
+        ...config,
+      });
+
+      return response.data;
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.message || error?.response?.statusText;
+
+      throw new Error(
+        `${method.toUpperCase()} ${url} failed: ${message || error.message}`
+      );
+    }
+  }
+}
+
+export default QueryService;
+
+const getItemPath = (resource: SwaggerResource, recordId: string) => {
+  if (!resource.itemPath) {
+    throw new Error(`The API doesn't have single record operations.`);
+  }
+
+  return resource.itemPath.replace(/\{[^}]+\}/, encodeURIComponent(recordId));
+};
+
+const toRecord = (
+  resource: SwaggerResource,
+  record: Record<string, unknown>
+): Record<string, unknown> => {
+  if (resource.primaryKey === "id") return record;
+
+  return { id: record[resource.primaryKey], ...record };
+};
+
+const getFieldType = (schema: OpenApiSchema): FieldType => {
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return "Number";
+    case "boolean":
+      return "Boolean";
+    case "object":
+    case "array":
+      return "Json";
+    case "string":
+      if (schema.format === "date" || schema.format === "date-time")
+        return "DateTime";
+      if (!isEmpty(schema.enum)) return "Select";
+
+      return "Text";
+    default:
+      return schema.properties || schema.items ? "Json" : "Text";
+  }
+};
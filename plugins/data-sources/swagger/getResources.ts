@@ -0,0 +1,195 @@
+import {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiSchema,
+  SwaggerResource,
+} from "./types";
+import { first, get, isEmpty, isObject, last, trimEnd } from "lodash";
+
+// Guards against schemas that reference themselves.
+const MAX_REF_DEPTH = 10;
+
+const hasParams = (path: string) => path.includes("{");
+
+const getSegments = (path: string) =>
+  path.split("/").filter((segment) => !isEmpty(segment));
+
+/* Resolves `$ref`s (`#/components/schemas/Pet` or `#/definitions/Pet`) and merges `allOf`s. */
+export const resolveSchema = (
+  spec: OpenApiDocument,
+  schema: unknown,
+  depth = 0
+): OpenApiSchema | undefined => {
+  if (!isObject(schema) || depth > MAX_REF_DEPTH) return;
+
+  let resolved = schema as OpenApiSchema;
+
+  if (resolved.$ref) {
+    const path = resolved.$ref.replace(/^#\//, "").split("/");
+
+    return resolveSchema(spec, get(spec, path), depth + 1);
+  }
+
+  if (resolved.allOf) {
+    const parts = resolved.allOf.map(
+      (part) => resolveSchema(spec, part, depth + 1) || {}
+    );
+
+    resolved = parts.reduce(
+      (result: OpenApiSchema, part: OpenApiSchema) => ({
+        ...result,
+        ...part,
+        properties: { ...result.properties, ...part.properties },
+        required: [...(result.required || []), ...(part.required || [])],
+      }),
+      { type: "object" }
+    );
+  }
+
+  return resolved;
+};
+
+const getContentSchema = (spec: OpenApiDocument, container: unknown) => {
+  const resolved = resolveSchema(spec, container) as
+    | { content?: Record<string, { schema?: unknown }>; schema?: unknown }
+    | undefined;
+
+  if (!resolved) return;
+
+  // Swagger 2 puts the schema right on the response.
+  if (resolved.schema) return resolveSchema(spec, resolved.schema);
+
+  const content = resolved.content || {};
+  const media = content["application/json"] || first(Object.values(content));
+
+  return resolveSchema(spec, media?.schema);
+};
+
+const getResponseSchema = (
+  spec: OpenApiDocument,
+  operation?: OpenApiOperation
+) => {
+  const responses = operation?.responses || {};
+  const status =
+    ["200", "201"].find((code) => code in responses) ||
+    Object.keys(responses).find((code) => code.startsWith("2"));
+
+  if (!status) return;
+
+  return getContentSchema(spec, responses[status]);
+};
+
+const getRequestSchema = (
+  spec: OpenApiDocument,
+  operation?: OpenApiOperation
+) => {
+  if (operation?.requestBody) {
+    return getContentSchema(spec, operation.requestBody);
+  }
+
+  // Swagger 2 sends the body as a parameter.
+  const bodyParameter = (operation?.parameters || []).find(
+    (parameter) => get(parameter, "in") === "body"
+  );
+
+  return getContentSchema(spec, bodyParameter);
+};
+
+/* List responses are either an array or an object that wraps the array (ex: `{ data: [] }`). */
+const getRecordsSchema = (
+  spec: OpenApiDocument,
+  schema?: OpenApiSchema
+): { schema?: OpenApiSchema; recordsPath?: string } => {
+  if (!schema) return {};
+
+  if (schema.type === "array" || schema.items) {
+    return { schema: resolveSchema(spec, schema.items) };
+  }
+
+  const arrayProperty = Object.entries(schema.properties || {})
+    .map(([name, property]) => [name, resolveSchema(spec, property)] as const)
+    .find(([, property]) => property?.type === "array" || property?.items);
+
+  if (arrayProperty) {
+    return {
+      schema: resolveSchema(spec, arrayProperty[1]?.items),
+      recordsPath: arrayProperty[0],
+    };
+  }
+
+  return {};
+};
+
+const getPrimaryKey = (schema?: OpenApiSchema, itemPath?: string) => {
+  const properties = Object.keys(schema?.properties || {});
+  const param = itemPath?.match(/\{([^}]+)\}\/?$/)?.[1];
+
+  if (properties.includes("id")) return "id";
+  if (param && properties.includes(param)) return param;
+
+  return "id";
+};
+
+/**
+ * Turns the paths of an OpenAPI document into tables.
+ *
+ * A collection path (`/pets`) that can be listed becomes a table. Its item path (`/pets/{petId}`) gives us the single record operations.
+ */
+const getResources = (spec: OpenApiDocument): SwaggerResource[] => {
+  const paths = spec.paths || {};
+  const allPaths = Object.keys(paths);
+
+  const resources = allPaths
+    .filter((path) => !hasParams(path) && paths[path].get)
+    .map((collectionPath): SwaggerResource => {
+      const collection = paths[collectionPath];
+      const prefix = `${trimEnd(collectionPath, "/")}/`;
+      const itemPath = allPaths.find(
+        (path) =>
+          path.startsWith(prefix) &&
+          /^\{[^}/]+\}\/?$/.test(path.substring(prefix.length))
+      );
+      const item = itemPath ? paths[itemPath] : {};
+
+      const { schema: recordsSchema, recordsPath } = getRecordsSchema(
+        spec,
+        getResponseSchema(spec, collection.get)
+      );
+      // Fall back to the single record schemas when the list one isn't described.
+      const schema =
+        recordsSchema ||
+        getResponseSchema(spec, item.get) ||
+        getRequestSchema(spec, collection.post);
+
+      return {
+        name: last(getSegments(collectionPath)) || collectionPath,
+        collectionPath,
+        itemPath,
+        operations: {
+          list: true,
+          get: !!item.get,
+          create: !!collection.post,
+          update: item.patch ? "patch" : item.put ? "put" : undefined,
+          delete: !!item.delete,
+        },
+        recordsPath,
+        primaryKey: getPrimaryKey(schema, itemPath),
+        schema,
+      };
+    });
+
+  // Paths like `/v1/users` and `/v2/users` would get the same name.
+  return resources.map((resource) => {
+    const isDuplicate =
+      resources.filter(({ name }) => name === resource.name).length > 1;
+
+    if (!isDuplicate) return resource;
+
+    return {
+      ...resource,
+      name: getSegments(resource.collectionPath).join("_"),
+    };
+  });
+};
+
+export default getResources;
@@ -0,0 +1,24 @@
+import { DataSourceInfo } from "../types";
+
+const info: DataSourceInfo = {
+  id: "swagger",
+  name: "Swagger",
+  description: "REST APIs described by an OpenAPI (Swagger) document",
+  readOnly: false,
+  // Data sources can switch to cursor pagination in their options.
+  pagination: "offset",
+  supports: {
+    filters: false,
+    columnsRequest: true,
+    views: false,
+    dashboards: false,
+    restoreWithPrimaryKey: false,
+    bulkUpdate: false,
+    bulkCreate: false,
+    upsert: false,
+    conditionalUpdate: false,
+  },
+  runsInProxy: false,
+};
+
+export default info;
@@ -0,0 +1,26 @@
+import Joi from "joi";
+
+export const schema = Joi.object({
+  name: Joi.string().min(3).required(),
+  type: Joi.string().allow("swagger").required(),
+  options: Joi.object({
+    specUrl: Joi.string().uri().required(),
+    baseUrl: Joi.string().uri().allow(""),
+    pagination: Joi.object({
+      type: Joi.string().valid("none", "offset", "page", "cursor").required(),
+      limitParam: Joi.string().allow(""),
+      offsetParam: Joi.string().allow(""),
+      pageParam: Joi.string().allow(""),
+      cursorParam: Joi.string().allow(""),
+      recordsPath: Joi.string().allow(""),
+      nextCursorPath: Joi.string().allow(""),
+      totalPath: Joi.string().allow(""),
+    }),
+  }),
+  credentials: Joi.object({
+    authType: Joi.string().valid("none", "bearer", "header").required(),
+    headerName: Joi.string().allow(""),
+    token: Joi.string().allow(""),
+  }),
+  organizationId: Joi.number().required(),
+});
@@ -0,0 +1,85 @@
+import { DataSource } from "@prisma/client";
+
+export type SwaggerAuthType = "none" | "bearer" | "header";
+
+export type SwaggerCredentials = {
+  authType: SwaggerAuthType;
+  headerName?: string;
+  token?: string;
+};
+
+export type SwaggerPaginationType = "none" | "offset" | "page" | "cursor";
+
+export type SwaggerPaginationOptions = {
+  type: SwaggerPaginationType;
+  limitParam?: string;
+  offsetParam?: string;
+  pageParam?: string;
+  cursorParam?: string;
+  // Paths in the list response (ex: `data`, `meta.nextCursor`, `meta.total`).
+  recordsPath?: string;
+  nextCursorPath?: string;
+  totalPath?: string;
+};
+
+export type SwaggerDataSourceOptions = {
+  specUrl: string;
+  // Overrides the server URL from the document.
+  baseUrl?: string;
+  pagination: SwaggerPaginationOptions;
+};
+
+export interface SwaggerDataSource extends DataSource {
+  options: SwaggerDataSourceOptions;
+}
+
+export type OpenApiSchema = {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  allOf?: OpenApiSchema[];
+  readOnly?: boolean;
+  nullable?: boolean;
+  description?: string;
+};
+
+export type OpenApiOperation = {
+  parameters?: unknown[];
+  requestBody?: unknown;
+  responses?: Record<string, unknown>;
+};
+
+export type OpenApiPathItem = Partial<
+  Record<"get" | "post" | "put" | "patch" | "delete", OpenApiOperation>
+>;
+
+export type OpenApiDocument = {
+  openapi?: string;
+  swagger?: string;
+  servers?: { url: string }[];
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  paths?: Record<string, OpenApiPathItem>;
+};
+
+export type SwaggerResource = {
+  name: string;
+  collectionPath: string;
+  itemPath?: string;
+  operations: {
+    list: boolean;
+    get: boolean;
+    create: boolean;
+    update?: "put" | "patch";
+    delete: boolean;
+  };
+  // Where the records are in the list response when they're wrapped in an object.
+  recordsPath?: string;
+  primaryKey: string;
+  schema?: OpenApiSchema;
+};
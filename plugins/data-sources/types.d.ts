@@ -1,5 +1,6 @@
 import type { Column } from "@/features/fields/types";
 import type { DataSource } from "@/prisma";
+import type { IFilter, IFilterGroup } from "@/features/tables/types";
 
 export type DataSourceInfo = {
   id: string;
@@ -12,6 +13,16 @@ export type DataSourceInfo = {
     columnsRequest: boolean;
     views: boolean;
     dashboards: boolean;
+    // Deleted records can be inserted back with their original primary key.
+    restoreWithPrimaryKey: boolean;
+    // Many records can be updated at once in a single transaction.
+    bulkUpdate: boolean;
+    // Records can be imported in batches inside a single transaction.
+    bulkCreate: boolean;
+    // Imported records that match an existing primary key update it.
+    upsert: boolean;
+    // Updates go through only if the record still holds the values the user loaded.
+    conditionalUpdate: boolean;
   };
   runsInProxy: boolean;
 };
@@ -62,10 +73,12 @@ export interface IQueryService {
     tableName: string;
     recordId: string;
   }): Promise<RecordResponse | undefined>;
-  updateRecord?({
-    tableName: string,
-    recordId: string,
-    data: unknown,
+  updateRecord?(payload: {
+    tableName: string;
+    recordId: string;
+    data: unknown;
+    // Update the record only if its columns still hold these values.
+    original?: Record<string, unknown>;
   }): Promise<unknown>;
   createRecord?({
     tableName: string,
@@ -74,8 +87,21 @@ export interface IQueryService {
   deleteRecord?({ tableName: string, recordId: string }): Promise<unknown>;
   deleteRecords?(payload: {
     tableName: string;
-    recordIds: number[];
+    recordIds: Array<number | string>;
+    filters?: Array<IFilter | IFilterGroup>;
   }): Promise<unknown>;
+  updateRecords?(payload: {
+    tableName: string;
+    recordIds?: Array<number | string>;
+    filters?: Array<IFilter | IFilterGroup>;
+    data: Record<string, unknown>;
+  }): Promise<UpdatedRecord[]>;
+  createRecords?(payload: {
+    tableName: string;
+    records: Record<string, unknown>[];
+    upsert?: boolean;
+  }): Promise<Array<string | undefined>>;
+  getPrimaryKeyColumns?(payload: { tableName: string }): Promise<string[]>;
 }
 
 export interface DataSourcePlugin {
@@ -110,9 +136,17 @@ type RecordsResponse = {
   columns?: Column[];
   meta?: {
     hasMore?: boolean;
+    // Data sources that page with an opaque cursor instead of record ids.
+    nextCursor?: string;
   };
 };
 
+// The state of a record before a bulk update.
+type UpdatedRecord = {
+  recordId: string;
+  record: Record<string, unknown>;
+};
+
 type RecordResponse<T = unknown> = {
   record: Record<string, T> | undefined;
   columns?: Column[];
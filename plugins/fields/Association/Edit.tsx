@@ -50,6 +50,8 @@ const Edit = ({
   // Get all the options
   const { dataSourceId, tableName } = useDataSourceContext();
   const foreignTableName = field?.column?.foreignKeyInfo?.foreignTableName;
+  const foreignColumnName =
+    field?.column?.foreignKeyInfo?.foreignColumnName || "id";
 
   const { data: recordsResponse, isLoading } = useGetRecordsQuery(
     {
@@ -81,7 +83,10 @@ const Edit = ({
           >
             {recordsResponse?.ok &&
               recordsResponse?.data.map((record: Record<string, any>) => (
-                <option key={record.id} value={record.id}>
+                <option
+                  key={record[foreignColumnName]}
+                  value={record[foreignColumnName]}
+                >
                   {getPrettyName(
                     record,
                     field.column?.fieldOptions?.nameColumn as string
@@ -5,7 +5,7 @@ import React, { memo, useMemo } from "react";
 import ShowFieldWrapper from "@/features/fields/components/FieldWrapper/ShowFieldWrapper";
 
 const LinkToItem = ({ record }: { record: LinkToValueItem }) => {
-  const href = null;
+  const href = `/data-sources/${record.dataSourceId}/tables/${record.foreignTable}/${record.id}`;
 
   return (
     <>
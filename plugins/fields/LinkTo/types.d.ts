@@ -4,9 +4,9 @@ export type LinkToValueFieldOptions = {
 };
 
 export type LinkToValueItem = {
-  id: number;
+  id: string;
   label: string;
-  foreignId: number;
+  foreignId: string;
   foreignTable: string;
   dataSourceId: number;
   foreignColumnName: string;
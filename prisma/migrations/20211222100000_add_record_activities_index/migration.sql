@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Activity_dataSourceId_tableName_recordId_idx" ON "Activity"("dataSourceId", "tableName", "recordId");
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Activity_organizationId_createdAt_idx" ON "Activity"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Activity_organizationId_action_idx" ON "Activity"("organizationId", "action");
@@ -0,0 +1,16 @@
+-- The initial scan used to detect the id and name columns as the timestamp columns too.
+-- Forget the timestamp columns that weren't detected by their own name so stale updates aren't checked against them.
+UPDATE "DataSource"
+SET "tablesMetaData" = COALESCE(
+  (
+    SELECT jsonb_agg(
+      "metaData"
+        - (CASE WHEN lower("metaData"->>'createdAtColumn') IN ('created', 'createdat', 'created_at') THEN '' ELSE 'createdAtColumn' END)
+        - (CASE WHEN lower("metaData"->>'updatedAtColumn') IN ('updated', 'updatedat', 'updated_at') THEN '' ELSE 'updatedAtColumn' END)
+      ORDER BY "position"
+    )
+    FROM jsonb_array_elements("DataSource"."tablesMetaData") WITH ORDINALITY AS "tables"("metaData", "position")
+  ),
+  '[]'::jsonb
+)
+WHERE jsonb_typeof("tablesMetaData") = 'array';
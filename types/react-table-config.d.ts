@@ -1,3 +1,4 @@
+import { BasetoolRecord } from "@/features/records/types";
 import {
   UseColumnOrderInstanceProps,
   UseColumnOrderState,
@@ -51,6 +52,13 @@ import {
 declare module "react-table" {
   // take this file as-is, or comment out the sections that don't apply to your plugin configuration
 
+  // The records table passes these down to the cells for inline editing.
+  export interface EditableCellsOptions {
+    canEditCells?: boolean;
+    rawRecords?: BasetoolRecord[];
+    getRecordId?: (record: BasetoolRecord) => string | undefined;
+  }
+
   export interface TableOptions<
     D extends Record<string, unknown>
   > extends UseExpandedOptions<D>,
@@ -62,6 +70,7 @@ declare module "react-table" {
       UseRowSelectOptions<D>,
       UseRowStateOptions<D>,
       UseSortByOptions<D>,
+      EditableCellsOptions,
       // note that having Record here allows you to add anything to the options, this matches the spirit of the
       // underlying js library, but might be cleaner if it's replaced by a more specific type that matches your
       // feature set, this is a safe default.